@@ -1,105 +1,583 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { InfinityScene } from './components/InfinityScene';
-import { TechniqueType } from './types';
-import { Sun, Moon, Settings, Activity, Zap, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { SessionPanel } from './components/SessionPanel';
+import { ExportPanel } from './components/ExportPanel';
+import { AdvancedControls } from './components/AdvancedControls';
+import { PatternControls } from './components/PatternControls';
+import { ProjectileMixControls } from './components/ProjectileMixControls';
+import { TelemetryPanel } from './components/TelemetryPanel';
+import { MathPanel } from './components/MathPanel';
+import { InspectorPanel } from './components/InspectorPanel';
+import { CameraPanel } from './components/CameraPanel';
+import { HollowPurplePanel } from './components/HollowPurplePanel';
+import { ScenarioControls } from './components/ScenarioControls';
+import { SpeedModeControls } from './components/SpeedModeControls';
+import { PresetControls } from './components/PresetControls';
+import { GameHud } from './components/GameHud';
+import { SceneDescription } from './components/SceneDescription';
+import { CameraView, createCameraSync } from './components/CameraRig';
+import { ComparisonPane } from './components/ComparisonPane';
+import { ExportJob, ExportResult, ExportSettings } from './components/SceneExporter';
+import { TechniqueId, TechniqueType, SpeedMode } from './types';
+import { resolveParams, useTechniques } from './techniques';
+import { MAX_SEED, normalizeSeed, randomSeed } from './simulation/random';
+import { TechniqueParams } from './simulation/forces';
+import { AttackPatternId, DEFAULT_PATTERN, getAttackPattern } from './simulation/patterns';
+import { DEFAULT_MIX, ProjectileMix } from './simulation/projectileKinds';
+import { COLLISION_MODES, CollisionMode } from './simulation/collisions';
+import { createTelemetryLog } from './simulation/telemetry';
+import { clearSelection, createProbe } from './simulation/probe';
+import { DEFAULT_PURPLE_SHOT, PurpleShotOptions, createPurpleTally } from './simulation/hollowPurple';
+import { Soundscape, createSoundscape } from './audio/soundscape';
+import { createSimulationGroup } from './simulation/simulationGroup';
+import { DEFAULT_ENERGY_COST, GameState, createGame } from './simulation/game';
+import { SessionFile, SessionRecorder, createRecorder, recordSettings, getSettingsAt } from './simulation/recording';
+import { ParamPreset, TunedParams, loadParamPresets, pickKnownParams, upsertParamPreset, deleteParamPreset } from './state/paramPresets';
+import { Scenario, ScenarioStep, getScenarioCaption, getScenarioPattern } from './state/scenario';
+import { BUILTIN_SCENARIOS } from './state/builtinScenarios';
+import { BUILTIN_SPEED_MODES, DEFAULT_SPEED_MODE, SpeedModeDefinition, adoptSpeedMode, resolveSpeedMode } from './state/speedModes';
+import { ControlPreset, ControlSettings, deleteControlPreset, renameControlPreset, upsertControlPreset } from './state/controlPresets';
+import { loadSettings, saveSettings } from './state/settings';
+import { BestRun, loadBestRuns, recordBestRun } from './state/bestRuns';
+import { SHORTCUTS, getShortcutAction } from './state/shortcuts';
+import { DEFAULT_CAMERA, SPAWN_RATE_RANGE, Vec3Tuple, ViewState, buildShareUrl, parseViewState, serializeViewState } from './state/urlState';
+import { Sun, Moon, Settings, Activity, Zap, PanelLeftClose, PanelLeftOpen, Dices, RotateCcw, Link, Check, X, Volume2, VolumeX, Clapperboard, Swords, Accessibility } from 'lucide-react';
+
+const WATERMARK = 'Jujutsu Archive // V.2.1';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Null where media queries aren't supported (e.g. some embedded webviews)
+const queryReducedMotion = () => (typeof window.matchMedia === 'function' ? window.matchMedia(REDUCED_MOTION_QUERY) : null);
 
 const App = () => {
-  const [currentTechnique, setCurrentTechnique] = useState<TechniqueType>(TechniqueType.NEUTRAL);
-  const [theme, setTheme] = useState<'dark' | 'light'>('dark');
+  // Settings saved from the last visit; a shared link's values take precedence
+  const [storedSettings] = useState(() => loadSettings());
+  const [customSpeedModes, setCustomSpeedModes] = useState<SpeedModeDefinition[]>(storedSettings.customSpeedModes ?? []);
+  const [controlPresets, setControlPresets] = useState<ControlPreset[]>(storedSettings.presets ?? []);
+
+  // View state shared through the URL (parsed once on load)
+  const [urlState] = useState(() => parseViewState(
+    typeof window !== 'undefined' ? window.location.search : '',
+    [...BUILTIN_SPEED_MODES, ...customSpeedModes].map(mode => mode.id)
+  ));
+  const [urlWarnings, setUrlWarnings] = useState(urlState.warnings);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const [currentTechnique, setCurrentTechnique] = useState<TechniqueId>(urlState.state.technique ?? storedSettings.technique ?? TechniqueType.NEUTRAL);
+  const [theme, setTheme] = useState<'dark' | 'light'>(urlState.state.theme ?? storedSettings.theme ?? 'dark');
+  // The canvas starts at the linked camera position; `camera` then tracks where the user moves it
+  const [initialCamera] = useState<Vec3Tuple>(urlState.state.camera ?? DEFAULT_CAMERA);
+  const [camera, setCamera] = useState<Vec3Tuple>(initialCamera);
+  const [cameraView, setCameraView] = useState<CameraView>('free');
   
   // Initialize collapsed state based on screen width (Mobile/Tablet default to collapsed)
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(() => {
+    if (urlState.state.sidebarCollapsed !== undefined) {
+      return urlState.state.sidebarCollapsed;
+    }
+    if (storedSettings.sidebarCollapsed !== undefined) {
+      return storedSettings.sidebarCollapsed;
+    }
     if (typeof window !== 'undefined') {
       return window.innerWidth < 1024;
     }
     return false;
   });
+  // Focus moves between the two sidebar views' toggles when one replaces the other
+  const collapsedViewRef = useRef<HTMLDivElement>(null);
+  const expandedViewRef = useRef<HTMLDivElement>(null);
+  const expandButtonRef = useRef<HTMLButtonElement>(null);
+  const collapseButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Reduced motion follows the system setting until the user picks one
+  const [reducedMotionSetting, setReducedMotionSetting] = useState<boolean | null>(storedSettings.reducedMotion ?? null);
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(() => queryReducedMotion()?.matches ?? false);
+  const reducedMotion = reducedMotionSetting ?? prefersReducedMotion;
+  const [describeRequest, setDescribeRequest] = useState(0); // Bumped by the describe shortcut
   
   // Simulation Controls State
-  const [spawnRate, setSpawnRate] = useState(3);
-  const [speedMode, setSpeedMode] = useState<'slow' | 'normal' | 'fast'>('normal');
-
-  // Speed mapping
-  const speedSettings = {
-    slow: { min: 2, max: 5 },
-    normal: { min: 8, max: 15 },
-    fast: { min: 25, max: 45 }
+  const [spawnRate, setSpawnRate] = useState(urlState.state.spawnRate ?? storedSettings.spawnRate ?? 3);
+  const [manualOnly, setManualOnly] = useState(false); // Disables auto-spawn; attacks come from clicks
+  const [pattern, setPattern] = useState<AttackPatternId>(urlState.state.pattern ?? DEFAULT_PATTERN);
+  // Tuned pattern parameters per pattern (only values that differ from defaults)
+  const [patternParams, setPatternParams] = useState<Record<AttackPatternId, TechniqueParams>>({});
+  const [projectileMix, setProjectileMix] = useState<ProjectileMix>(DEFAULT_MIX);
+  const [collisions, setCollisions] = useState<CollisionMode>('off');
+  const [transitionDuration, setTransitionDuration] = useState(0.8); // Seconds; 0 switches techniques instantly
+  const [speedMode, setSpeedMode] = useState<SpeedMode>(urlState.state.speedMode ?? storedSettings.speedMode ?? DEFAULT_SPEED_MODE);
+  const [seed, setSeed] = useState(() => urlState.state.seed ?? randomSeed());
+  const [runId, setRunId] = useState(0);
+
+  // Tuned physics parameters per technique (only values that differ from defaults)
+  const [tunedParams, setTunedParams] = useState<TunedParams>({});
+  const [paramPresets, setParamPresets] = useState<ParamPreset[]>(() => loadParamPresets());
+
+  // Session Recording & Playback State
+  const [recorder, setRecorder] = useState<SessionRecorder | null>(null);
+  const [session, setSession] = useState<SessionFile | null>(null);
+  const [isPlaybackMode, setIsPlaybackMode] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+
+  // Video Export State
+  const [exportJob, setExportJob] = useState<ExportJob | null>(null);
+
+  // Telemetry: filled by the scene's frame loop, read by the HUD
+  const [telemetry] = useState(() => createTelemetryLog());
+
+  // Math Mode (curve plots and radius rings) and the inspector share the selected projectile
+  const [mathMode, setMathMode] = useState(false);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [followProjectile, setFollowProjectile] = useState(false);
+  const [probe] = useState(() => createProbe());
+  const canSelect = mathMode || isInspectorOpen;
+
+  useEffect(() => {
+    if (!canSelect) clearSelection(probe);
+  }, [canSelect, probe]);
+
+  // Fired Hollow Purple: shot settings, aim mode and what it erased this run
+  const [purpleShot, setPurpleShot] = useState<PurpleShotOptions>(DEFAULT_PURPLE_SHOT);
+  const [purpleAiming, setPurpleAiming] = useState(false);
+  const [purpleTally] = useState(() => createPurpleTally());
+
+  // Challenge mode: the game in progress (advanced by the scene) and the best finished runs
+  const [game, setGame] = useState<GameState | null>(null);
+  const [bestRuns, setBestRuns] = useState<BestRun[]>(() => loadBestRuns());
+  const [newRank, setNewRank] = useState<number | null>(null);
+
+  // Side-by-side comparison: the extra viewports' techniques, all fed the same projectile stream
+  const [viewportCount, setViewportCount] = useState<1 | 2 | 4>(1);
+  const [comparedTechniques, setComparedTechniques] = useState<TechniqueId[]>([TechniqueType.RED, TechniqueType.PURPLE, TechniqueType.VOID]);
+  const [sharedCamera, setSharedCamera] = useState(true);
+  const [simulationGroup] = useState(() => createSimulationGroup());
+  const [cameraSync] = useState(() => createCameraSync());
+  const isComparing = viewportCount > 1 && !isPlaybackMode && !game;
+
+  const changeViewportCount = (count: 1 | 2 | 4) => {
+    setViewportCount(count);
+    // Restart every viewport together so their streams line up
+    setRunId(prev => prev + 1);
   };
 
-  const { min: minSpeed, max: maxSpeed } = speedSettings[speedMode];
-
-  const techniques = [
-    { 
-      type: TechniqueType.NEUTRAL, 
-      label: 'Infinity', 
-      subtitle: 'Neutral',
-      colorClass: 'bg-white',
-      borderClass: 'border-white',
-      textClass: 'text-white',
-      details: {
-        concept: "Infinite Series",
-        space: "Divides the space between Gojo and any approaching object infinitely. It brings the paradox of 'Achilles and the Tortoise' into reality.",
-        speed: "As an object approaches, its relative speed drops exponentially, appearing to stop completely.",
-        implication: "Untouchable. An infinite distance contained within a finite space."
-      }
-    },
-    { 
-      type: TechniqueType.BLUE, 
-      label: 'Blue', 
-      subtitle: 'Lapse',
-      colorClass: 'bg-sky-500',
-      borderClass: 'border-sky-500',
-      textClass: 'text-sky-500',
-      details: {
-        concept: "Negative Distance",
-        space: "Amplifies Limitless numbers to create 'negative distance'. The universe implodes to fill the vacuum.",
-        speed: "Creates a powerful attractive force. Matter is pulled violently towards the center.",
-        implication: "High-speed movement or crushing enemies by imploding space."
-      }
-    },
-    { 
-      type: TechniqueType.RED, 
-      label: 'Red', 
-      subtitle: 'Reversal',
-      colorClass: 'bg-red-500',
-      borderClass: 'border-red-500',
-      textClass: 'text-red-500',
-      details: {
-        concept: "Positive Distance",
-        space: "Flows positive energy into Limitless, inverting Blue to create a divergence of space.",
-        speed: "Generates a violent repulsive force. Blasts everything away with immense power.",
-        implication: "Destructive shockwave that repels all matter instantly."
-      }
-    },
-    { 
-      type: TechniqueType.PURPLE, 
-      label: 'Purple', 
-      subtitle: 'Hollow',
-      colorClass: 'bg-purple-500',
-      borderClass: 'border-purple-500',
-      textClass: 'text-purple-500',
-      details: {
-        concept: "Imaginary Mass",
-        space: "Combines Blue's attraction and Red's repulsion. Creates imaginary mass that defies physics.",
-        speed: "Moves instantaneously, erasing everything in its path at the atomic level.",
-        implication: "The ultimate technique. It removes existence from reality."
-      }
-    },
-  ];
+  const setComparedTechnique = (index: number, technique: TechniqueId) => {
+    setComparedTechniques(prev => prev.map((id, i) => (i === index ? technique : id)));
+  };
+
+  // Scripted scenario: steps before `scenarioApplied` have been applied to the controls
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [scenarioTime, setScenarioTime] = useState(0);
+  const [scenarioApplied, setScenarioApplied] = useState(0);
+  const [isScenarioRunning, setIsScenarioRunning] = useState(false);
+
+  // Procedural audio; the soundscape is created in an effect so it is torn down with the app
+  const [soundscape, setSoundscape] = useState<Soundscape | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [volume, setVolume] = useState(0.5);
+
+  useEffect(() => {
+    const created = createSoundscape();
+    setSoundscape(created);
+    return () => created.dispose();
+  }, []);
+
+  useEffect(() => {
+    soundscape?.setMuted(isMuted);
+  }, [soundscape, isMuted]);
+
+  useEffect(() => {
+    soundscape?.setVolume(volume);
+  }, [soundscape, volume]);
+
+  const activeSpeedMode = resolveSpeedMode(speedMode, customSpeedModes);
+  const { min: minSpeed, max: maxSpeed } = activeSpeedMode;
 
-  const activeTech = techniques.find(t => t.type === currentTechnique) || techniques[0];
+  useEffect(() => {
+    const query = queryReducedMotion();
+    if (!query) return;
+    const update = () => setPrefersReducedMotion(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  useEffect(() => {
+    saveSettings({
+      theme,
+      technique: currentTechnique,
+      spawnRate,
+      speedMode,
+      sidebarCollapsed: isSidebarCollapsed,
+      reducedMotion: reducedMotionSetting,
+      customSpeedModes,
+      presets: controlPresets
+    });
+  }, [theme, currentTechnique, spawnRate, speedMode, isSidebarCollapsed, reducedMotionSetting, customSpeedModes, controlPresets]);
+
+  const saveControlPreset = (name: string) => {
+    const controls: ControlSettings = {
+      technique: currentTechnique,
+      spawnRate,
+      speed: resolveSpeedMode(speedMode, customSpeedModes),
+      pattern,
+      patternParams: patternParams[pattern] ?? {},
+      projectileMix,
+      collisions,
+      transitionDuration,
+      manualOnly
+    };
+    setControlPresets(prev => upsertControlPreset(prev, { name, controls }));
+  };
+
+  const applyControlPreset = ({ controls }: ControlPreset) => {
+    const adopted = adoptSpeedMode(customSpeedModes, controls.speed);
+    setCustomSpeedModes(adopted.custom);
+    setSpeedMode(adopted.id);
+    setCurrentTechnique(controls.technique);
+    setSpawnRate(controls.spawnRate);
+    setPattern(controls.pattern);
+    setPatternParams(prev => ({ ...prev, [controls.pattern]: controls.patternParams }));
+    setProjectileMix(controls.projectileMix);
+    setCollisions(controls.collisions);
+    setTransitionDuration(controls.transitionDuration);
+    setManualOnly(controls.manualOnly);
+  };
+
+  // Log control changes into the active recording
+  useEffect(() => {
+    if (recorder) recordSettings(recorder, { technique: currentTechnique, spawnRate, speedMode });
+  }, [recorder, currentTechnique, spawnRate, speedMode]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying || !session) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = Math.min((now - last) / 1000, 0.1);
+      last = now;
+      setPlaybackTime(prev => Math.min(session.duration, prev + delta * playbackSpeed));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, playbackSpeed, session]);
+
+  useEffect(() => {
+    if (isPlaying && session && playbackTime >= session.duration) setIsPlaying(false);
+  }, [isPlaying, session, playbackTime]);
+
+  // Scenario clock; pauses once the last step has run
+  useEffect(() => {
+    if (!isScenarioRunning || !scenario || isPlaybackMode) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = Math.min((now - last) / 1000, 0.1);
+      last = now;
+      setScenarioTime(prev => prev + delta);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isScenarioRunning, scenario, isPlaybackMode]);
+
+  // `activePattern` is the pattern in effect at this step in the scenario's timeline,
+  // which the step's pattern params belong to
+  const applyScenarioStep = (step: ScenarioStep, activePattern: AttackPatternId | null) => {
+    if (step.transition !== undefined) setTransitionDuration(step.transition);
+    if (step.technique !== undefined) setCurrentTechnique(step.technique);
+    if (step.spawnRate !== undefined) setSpawnRate(step.spawnRate);
+    if (step.speed !== undefined) setSpeedMode(step.speed);
+    if (step.pattern !== undefined) setPattern(step.pattern);
+    if (step.patternParams !== undefined && activePattern !== null) {
+      setPatternParams(prev => ({ ...prev, [activePattern]: step.patternParams! }));
+    }
+    if (step.manualOnly !== undefined) setManualOnly(step.manualOnly);
+    if (step.collisions !== undefined) setCollisions(step.collisions);
+  };
+
+  // Apply every step the clock has reached
+  useEffect(() => {
+    if (!scenario) return;
+    let next = scenarioApplied;
+    let activePattern = getScenarioPattern(scenario, next);
+    while (next < scenario.steps.length && scenario.steps[next].at <= scenarioTime) {
+      const step = scenario.steps[next];
+      activePattern = step.pattern ?? activePattern;
+      applyScenarioStep(step, activePattern);
+      next++;
+    }
+    if (next === scenarioApplied) return;
+    setScenarioApplied(next);
+    if (next === scenario.steps.length) setIsScenarioRunning(false);
+  }, [scenario, scenarioTime, scenarioApplied]);
+
+  const rewindScenario = () => {
+    setScenarioTime(0);
+    setScenarioApplied(0);
+    setIsScenarioRunning(false);
+  };
+
+  const loadScenario = (loaded: Scenario) => {
+    setScenario(loaded);
+    rewindScenario();
+  };
+
+  const toggleScenario = () => {
+    if (!scenario) return;
+    // Starting from the top restarts the run so every showing looks the same
+    if (!isScenarioRunning && scenarioApplied === 0) {
+      if (scenario.seed !== null) setSeed(scenario.seed);
+      setRunId(prev => prev + 1);
+    }
+    setIsScenarioRunning(prev => !prev);
+  };
+
+  // Jumps the clock to the next step and holds there
+  const stepScenario = () => {
+    if (!scenario || scenarioApplied >= scenario.steps.length) return;
+    if (scenarioApplied === 0) {
+      if (scenario.seed !== null) setSeed(scenario.seed);
+      setRunId(prev => prev + 1);
+    }
+    setIsScenarioRunning(false);
+    setScenarioTime(prev => Math.max(prev, scenario.steps[scenarioApplied].at));
+  };
+
+  const startGame = () => {
+    setGame(createGame());
+    setNewRank(null);
+    // Every game starts from an empty field
+    setRunId(prev => prev + 1);
+  };
+
+  const finishGame = useCallback((finished: GameState) => {
+    const result = recordBestRun(bestRuns, { score: finished.score, wave: finished.wave, time: Math.round(finished.time), date: new Date().toISOString() });
+    setBestRuns(result.runs);
+    setNewRank(result.rank);
+  }, [bestRuns]);
+
+  const startRecording = () => {
+    // Restart from the seed so the recording begins with a clean, reproducible run
+    setRecorder(createRecorder(seed, { technique: currentTechnique, spawnRate, speedMode }));
+    setRunId(prev => prev + 1);
+  };
+
+  const stopRecording = () => {
+    if (recorder) setSession(recorder.session);
+    setRecorder(null);
+  };
+
+  const loadSession = (loaded: SessionFile) => {
+    setSession(loaded);
+    setIsPlaybackMode(true);
+    setIsPlaying(false);
+    setPlaybackTime(0);
+  };
+
+  const enterPlayback = () => {
+    setIsPlaybackMode(true);
+    setPlaybackTime(0);
+    setIsPlaying(true);
+  };
+
+  const exitPlayback = () => {
+    setIsPlaybackMode(false);
+    setIsPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (!session) return;
+    if (!isPlaying && playbackTime >= session.duration) setPlaybackTime(0);
+    setIsPlaying(prev => !prev);
+  };
+
+  const runExport = (settings: ExportSettings, onProgress: (fraction: number) => void) => (
+    new Promise<ExportResult>((resolve, reject) => {
+      setExportJob({
+        settings,
+        onProgress,
+        resolve: (result) => { setExportJob(null); resolve(result); },
+        reject: (error) => { setExportJob(null); reject(error); }
+      });
+    })
+  );
+
+  // During playback the scene shows the recorded controls rather than the live ones
+  const playbackSettings = isPlaybackMode && session ? getSettingsAt(session, playbackTime) : null;
+  const sceneTechnique = playbackSettings ? playbackSettings.technique : currentTechnique;
+
+  const techniques = useTechniques();
+
+  const activeTech = techniques.find(t => t.id === currentTechnique) || techniques[0];
+
+  const activeParams = tunedParams[activeTech.id] ?? {};
+
+  const sceneTech = techniques.find(t => t.id === sceneTechnique) || activeTech;
+  const sceneParams = useMemo(() => resolveParams(sceneTech, tunedParams[sceneTech.id]), [sceneTech, tunedParams]);
+
+  // Hollow Purple can only be fired live, with Purple active and clicks free to fire. Not while
+  // comparing either, since shots go to every viewport, nor in a game, where it would cost nothing
+  const canFirePurple = sceneTech.id === TechniqueType.PURPLE && !isPlaybackMode && !isComparing && !game;
+  const isAimingPurple = canFirePurple && purpleAiming && !canSelect;
+
+  // Crossfades over the transition duration set at the time of the switch; read through a
+  // ref so moving the slider doesn't restart the sound of the technique already playing
+  const transitionDurationRef = useRef(transitionDuration);
+  transitionDurationRef.current = transitionDuration;
+  useEffect(() => {
+    soundscape?.setTechnique(sceneTech, transitionDurationRef.current);
+  }, [soundscape, sceneTech]);
+
+  const setParam = (key: string, value: number) => {
+    setTunedParams(prev => ({ ...prev, [activeTech.id]: { ...prev[activeTech.id], [key]: value } }));
+  };
+
+  const resetParams = () => {
+    setTunedParams(prev => {
+      const { [activeTech.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const activePatternParams = patternParams[pattern] ?? {};
+
+  const setPatternParam = (key: string, value: number) => {
+    setPatternParams(prev => ({ ...prev, [pattern]: { ...prev[pattern], [key]: value } }));
+  };
+
+  const resetPatternParams = () => {
+    setPatternParams(prev => {
+      const { [pattern]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = paramPresets.find(p => p.name === name);
+    if (preset) setTunedParams(pickKnownParams(preset.params));
+  };
 
   const toggleTheme = () => {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
   };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = getShortcutAction(e);
+      if (!action) return;
+      switch (action.type) {
+        case 'technique': {
+          const tech = techniques[action.index];
+          if (!tech) return;
+          setCurrentTechnique(tech.id);
+          break;
+        }
+        case 'spawnRate':
+          // Same as the slider, which the game and manual-only mode disable
+          if (manualOnly || game) return;
+          setSpawnRate(prev => Math.min(SPAWN_RATE_RANGE.max, Math.max(SPAWN_RATE_RANGE.min, prev + action.step)));
+          break;
+        case 'speedMode': {
+          const modes = [...BUILTIN_SPEED_MODES, ...customSpeedModes];
+          setSpeedMode(prev => modes[(modes.findIndex(mode => mode.id === prev) + 1) % modes.length].id);
+          break;
+        }
+        case 'theme':
+          toggleTheme();
+          break;
+        case 'sidebar':
+          setIsSidebarCollapsed(prev => !prev);
+          break;
+        case 'reducedMotion':
+          setReducedMotionSetting(!reducedMotion);
+          break;
+        case 'describe':
+          setDescribeRequest(prev => prev + 1);
+          break;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [techniques, manualOnly, game, customSpeedModes, reducedMotion]);
+
+  // The hidden sidebar view is inert, so a control focused in it loses focus when the view
+  // switches; hand it to the toggle of the view now shown
+  const shownSidebar = useRef(isSidebarCollapsed);
+  useEffect(() => {
+    if (shownSidebar.current === isSidebarCollapsed) return;
+    shownSidebar.current = isSidebarCollapsed;
+    const hidden = isSidebarCollapsed ? expandedViewRef.current : collapsedViewRef.current;
+    const focused = document.activeElement;
+    if (!focused || focused === document.body || hidden?.contains(focused)) {
+      (isSidebarCollapsed ? expandButtonRef : collapseButtonRef).current?.focus();
+    }
+  }, [isSidebarCollapsed]);
+
+  const viewState: ViewState = {
+    technique: currentTechnique,
+    theme,
+    spawnRate,
+    pattern,
+    speedMode,
+    sidebarCollapsed: isSidebarCollapsed,
+    seed,
+    camera
+  };
+  const viewQuery = serializeViewState(viewState);
+
+  // Keep the address bar in sync so a plain copy of the URL is shareable too
+  useEffect(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}${viewQuery}${window.location.hash}`);
+  }, [viewQuery]);
+
+  const copyLink = async () => {
+    const url = buildShareUrl(viewState);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard access can be blocked (e.g. insecure context), let the user copy manually
+      window.prompt('Copy this link', url);
+    }
+  };
+
   const isDark = theme === 'dark';
+  const scenarioCaption = scenario && !isPlaybackMode ? getScenarioCaption(scenario, scenarioApplied) : null;
+
+  // Settings every viewport shares, so compared runs see the same attacks
+  const sharedSceneProps = {
+    spawnRate,
+    autoSpawn: !manualOnly,
+    pattern,
+    patternParams: patternParams[pattern],
+    projectileMix,
+    collisions,
+    transitionDuration,
+    minSpeed,
+    maxSpeed,
+    theme,
+    seed,
+    runId,
+    cameraPosition: initialCamera,
+    cameraView,
+    onCameraViewChange: setCameraView,
+    showMath: mathMode,
+    group: isComparing ? simulationGroup : null,
+    cameraSync: isComparing && sharedCamera ? cameraSync : null,
+    reducedMotion
+  };
 
   return (
-    <div className={`flex w-full h-screen overflow-hidden transition-colors duration-500 font-body ${isDark ? 'bg-gojo-dark text-white' : 'bg-slate-50 text-slate-900'}`}>
+    <div className={`flex w-full h-screen overflow-hidden transition-colors duration-500 font-body ${isDark ? 'bg-gojo-dark text-white' : 'bg-slate-50 text-slate-900'} ${reducedMotion ? 'reduce-motion' : ''}`}>
       
       {/* SIDEBAR CONTAINER */}
-      <div className={`
+      <div role="complementary" aria-label="Controls" className={`
         relative z-20 shadow-2xl border-r transition-all duration-500 ease-in-out flex-shrink-0 h-full
         ${isDark ? 'bg-slate-900/95 border-slate-800' : 'bg-white border-slate-200'}
         ${isSidebarCollapsed ? 'w-[80px]' : 'w-full md:w-1/2 lg:w-[450px]'}
@@ -109,33 +587,53 @@ const App = () => {
         <div className="w-full h-full overflow-hidden flex flex-col relative">
           
           {/* --- COLLAPSED VIEW --- */}
-          <div className={`absolute inset-0 flex flex-col items-center py-8 h-full transition-opacity duration-300 ${isSidebarCollapsed ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
+          <div ref={collapsedViewRef} inert={!isSidebarCollapsed} className={`absolute inset-0 flex flex-col items-center py-8 h-full transition-opacity duration-300 ${isSidebarCollapsed ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
             
             {/* Top Controls: Moved from bottom to top */}
             <div className="flex flex-col gap-4 mb-8 items-center">
               <button 
+                  ref={expandButtonRef}
                   onClick={() => setIsSidebarCollapsed(false)}
                   className={`p-3 rounded-full transition-colors ${isDark ? 'text-slate-400 hover:text-white hover:bg-slate-800' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-100'}`}
                   title="Expand Sidebar"
+                  aria-label="Expand Sidebar"
+                  aria-keyshortcuts="B"
               >
                   <PanelLeftOpen size={24} />
               </button>
-              <button onClick={toggleTheme} className={`p-3 rounded-full transition-transform hover:rotate-90 ${isDark ? 'bg-slate-800 text-yellow-400' : 'bg-slate-100 text-slate-600'}`}>
+              <button
+                  onClick={toggleTheme}
+                  className={`p-3 rounded-full transition-transform hover:rotate-90 ${isDark ? 'bg-slate-800 text-yellow-400' : 'bg-slate-100 text-slate-600'}`}
+                  title={isDark ? 'Light Theme' : 'Dark Theme'}
+                  aria-label={isDark ? 'Switch to Light Theme' : 'Switch to Dark Theme'}
+                  aria-keyshortcuts="T"
+              >
                  {isDark ? <Sun size={20} /> : <Moon size={20} />}
               </button>
+              <button
+                  onClick={copyLink}
+                  className={`p-3 rounded-full transition-colors ${isDark ? 'text-slate-400 hover:text-white hover:bg-slate-800' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-100'}`}
+                  title="Copy Link"
+                  aria-label={linkCopied ? 'Link Copied' : 'Copy Link'}
+              >
+                  {linkCopied ? <Check size={20} /> : <Link size={20} />}
+              </button>
             </div>
 
             <h1 className={`font-display font-bold text-2xl tracking-widest vertical-rl opacity-50 select-none ${isDark ? 'text-white' : 'text-slate-900'}`}>LIMITLESS</h1>
             
-            <div className="flex flex-col gap-6 mt-8 w-full items-center">
-               {techniques.map(tech => (
+            <div className="flex flex-col gap-6 mt-8 w-full items-center" role="group" aria-label="Technique">
+               {techniques.map((tech, i) => (
                  <button 
-                   key={tech.type}
-                   onClick={() => setCurrentTechnique(tech.type)}
+                   key={tech.id}
+                   onClick={() => setCurrentTechnique(tech.id)}
+                   aria-label={tech.name}
+                   aria-pressed={currentTechnique === tech.id}
+                   aria-keyshortcuts={i < 9 ? String(i + 1) : undefined}
                    className={`
                      w-12 h-12 rounded-full border-2 transition-all duration-300 relative group
-                     ${tech.colorClass}
-                     ${currentTechnique === tech.type ? 'scale-110 ring-4 ring-offset-4 ring-offset-slate-900 ring-white' : 'opacity-40 hover:opacity-100 hover:scale-110'}
+                     ${tech.classes.color}
+                     ${currentTechnique === tech.id ? 'scale-110 ring-4 ring-offset-4 ring-offset-slate-900 ring-white' : 'opacity-40 hover:opacity-100 hover:scale-110'}
                    `}
                    title={tech.label}
                  >
@@ -145,7 +643,7 @@ const App = () => {
           </div>
 
           {/* --- EXPANDED VIEW --- */}
-          <div className={`flex flex-col h-full w-full transition-opacity duration-300 ${!isSidebarCollapsed ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
+          <div ref={expandedViewRef} inert={isSidebarCollapsed} className={`flex flex-col h-full w-full transition-opacity duration-300 ${!isSidebarCollapsed ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
             
             {/* Header */}
             <div className={`p-8 pb-4 border-b flex justify-between items-center ${isDark ? 'border-slate-800' : 'border-slate-100'}`}>
@@ -160,12 +658,27 @@ const App = () => {
                    <button 
                      onClick={toggleTheme}
                      className={`p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-yellow-400' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+                     title={isDark ? 'Light Theme' : 'Dark Theme'}
+                     aria-label={isDark ? 'Switch to Light Theme' : 'Switch to Dark Theme'}
+                     aria-keyshortcuts="T"
                    >
                      {isDark ? <Sun size={20} /> : <Moon size={20} />}
                    </button>
+                   <button
+                     onClick={copyLink}
+                     className={`p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`}
+                     title="Copy Link"
+                     aria-label={linkCopied ? 'Link Copied' : 'Copy Link'}
+                   >
+                     {linkCopied ? <Check size={20} /> : <Link size={20} />}
+                   </button>
                    <button 
+                     ref={collapseButtonRef}
                      onClick={() => setIsSidebarCollapsed(true)}
                      className={`p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`}
+                     title="Collapse Sidebar"
+                     aria-label="Collapse Sidebar"
+                     aria-keyshortcuts="B"
                    >
                      <PanelLeftClose size={20} />
                    </button>
@@ -180,35 +693,79 @@ const App = () => {
                  <h2 className={`text-sm font-display font-bold uppercase tracking-widest mb-4 flex items-center gap-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
                    <Activity size={16} /> Select Technique
                  </h2>
-                 <div className="grid grid-cols-2 gap-3">
-                   {techniques.map((tech) => (
+                 <div className="grid grid-cols-2 gap-3" role="group" aria-label="Technique">
+                   {techniques.map((tech, i) => (
                     <button
                       key={tech.label}
-                      onClick={() => setCurrentTechnique(tech.type)}
+                      onClick={() => setCurrentTechnique(tech.id)}
+                      aria-pressed={currentTechnique === tech.id}
+                      aria-keyshortcuts={i < 9 ? String(i + 1) : undefined}
                       className={`
                         group relative flex flex-col justify-between p-4 rounded-xl border-2 transition-all duration-300 text-left h-28 overflow-hidden
-                        ${currentTechnique === tech.type 
-                          ? (isDark ? `bg-slate-700 ${tech.borderClass}` : `bg-white ${tech.borderClass} shadow-lg scale-[1.02]`)
+                        ${currentTechnique === tech.id 
+                          ? (isDark ? `bg-slate-700 ${tech.classes.border}` : `bg-white ${tech.classes.border} shadow-lg scale-[1.02]`)
                           : (isDark ? 'bg-slate-800/40 border-slate-700/50 hover:bg-slate-800 hover:border-slate-600' : 'bg-slate-50 border-slate-200 hover:bg-white hover:border-slate-300')}
                       `}
                     >
                       {/* Background Hover color */}
-                      <div className={`absolute inset-0 opacity-0 group-hover:opacity-10 transition-opacity ${tech.colorClass}`}></div>
+                      <div className={`absolute inset-0 opacity-0 group-hover:opacity-10 transition-opacity ${tech.classes.color}`}></div>
 
-                      <h3 className={`font-display text-lg tracking-wide z-10 transition-colors ${currentTechnique === tech.type ? tech.textClass : (isDark ? 'text-slate-400 group-hover:text-slate-200' : 'text-slate-500 group-hover:text-slate-700')}`}>
+                      <h3 className={`font-display text-lg tracking-wide z-10 transition-colors ${currentTechnique === tech.id ? tech.classes.text : (isDark ? 'text-slate-400 group-hover:text-slate-200' : 'text-slate-500 group-hover:text-slate-700')}`}>
                         {tech.label}
                       </h3>
                       <div className="flex items-end justify-between w-full z-10">
-                        <span className={`text-[10px] uppercase tracking-wider font-bold opacity-80 ${currentTechnique === tech.type ? (isDark ? 'text-white' : 'text-slate-800') : 'text-slate-600'}`}>
+                        <span className={`text-[10px] uppercase tracking-wider font-bold opacity-80 ${currentTechnique === tech.id ? (isDark ? 'text-white' : 'text-slate-800') : 'text-slate-600'}`}>
                           {tech.subtitle}
                         </span>
-                        <div className={`w-3 h-3 rounded-full ${tech.colorClass} ${currentTechnique === tech.type ? 'animate-pulse shadow-[0_0_10px_rgba(255,255,255,0.5)]' : 'opacity-40 group-hover:opacity-100'}`} />
+                        <div className={`w-3 h-3 rounded-full ${tech.classes.color} ${currentTechnique === tech.id ? 'animate-pulse shadow-[0_0_10px_rgba(255,255,255,0.5)]' : 'opacity-40 group-hover:opacity-100'}`} />
                       </div>
                     </button>
                   ))}
                  </div>
               </section>
 
+              {/* SCENARIO */}
+              <section>
+                <h2 className={`text-sm font-display font-bold uppercase tracking-widest mb-4 flex items-center gap-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                   <Clapperboard size={16} /> Scenario
+                 </h2>
+                 <div className={`p-5 rounded-2xl border ${isDark ? 'bg-slate-800/40 border-slate-700/50' : 'bg-slate-50 border-slate-200'}`}>
+                    <ScenarioControls
+                      theme={theme}
+                      builtins={BUILTIN_SCENARIOS}
+                      scenario={scenario}
+                      applied={scenarioApplied}
+                      time={scenarioTime}
+                      isRunning={isScenarioRunning}
+                      disabled={isPlaybackMode}
+                      onLoad={loadScenario}
+                      onToggleRun={toggleScenario}
+                      onStep={stepScenario}
+                      onStop={rewindScenario}
+                    />
+                 </div>
+              </section>
+
+              {/* CHALLENGE */}
+              <section>
+                <h2 className={`text-sm font-display font-bold uppercase tracking-widest mb-4 flex items-center gap-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                   <Swords size={16} /> Challenge
+                 </h2>
+                 <div className={`p-5 rounded-2xl border space-y-3 ${isDark ? 'bg-slate-800/40 border-slate-700/50' : 'bg-slate-50 border-slate-200'}`}>
+                    <button
+                      onClick={game ? () => setGame(null) : startGame}
+                      disabled={isPlaybackMode}
+                      className={`w-full py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${game ? 'bg-rose-500 text-white hover:bg-rose-400' : 'bg-sky-500 text-white hover:bg-sky-400'}`}
+                    >
+                      {game ? 'End Challenge' : 'Start Challenge'}
+                    </button>
+                    <p className="text-[10px] opacity-50">
+                      Hold off escalating waves. Each technique drains cursed energy at its own rate; when it runs out the barrier drops and attacks that reach the core cost health.
+                      {bestRuns.length > 0 && ` Best score: ${bestRuns[0].score} (wave ${bestRuns[0].wave}).`}
+                    </p>
+                 </div>
+              </section>
+
               {/* SIMULATION CONTROLS */}
               <section className="py-2">
                 <h2 className={`text-sm font-display font-bold uppercase tracking-widest mb-4 flex items-center gap-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
@@ -216,6 +773,26 @@ const App = () => {
                  </h2>
                  
                  <div className={`p-5 rounded-2xl space-y-6 border ${isDark ? 'bg-slate-800/40 border-slate-700/50' : 'bg-slate-50 border-slate-200'}`}>
+                    <PresetControls
+                      theme={theme}
+                      presets={controlPresets}
+                      onSave={saveControlPreset}
+                      onApply={applyControlPreset}
+                      onRename={(from, to) => setControlPresets(prev => renameControlPreset(prev, from, to))}
+                      onDelete={(name) => setControlPresets(prev => deleteControlPreset(prev, name))}
+                      onImport={(imported) => setControlPresets(prev => imported.reduce(upsertControlPreset, prev))}
+                    />
+
+                    <PatternControls
+                      theme={theme}
+                      pattern={pattern}
+                      params={activePatternParams}
+                      disabled={manualOnly || game !== null}
+                      onPatternChange={setPattern}
+                      onParamChange={setPatternParam}
+                      onReset={resetPatternParams}
+                    />
+
                     {/* Spawn Rate */}
                     <div>
                       <div className="flex justify-between text-xs mb-2 font-bold uppercase tracking-wider">
@@ -226,8 +803,11 @@ const App = () => {
                         <input 
                           type="range" min="1" max="8" step="1" 
                           value={spawnRate} 
+                          disabled={manualOnly || game !== null}
+                          aria-label="Attack Rate"
+                          aria-valuetext={`${spawnRate} per second`}
                           onChange={(e) => setSpawnRate(parseInt(e.target.value))}
-                          className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all"
+                          className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
                         />
                       </div>
                       <div className="flex justify-between text-[10px] opacity-40 font-mono mt-1">
@@ -236,19 +816,46 @@ const App = () => {
                       </div>
                     </div>
 
-                    {/* Speed Mode */}
+                    {/* Manual Attacks */}
+                    <div>
+                      <label className="flex justify-between items-center text-xs font-bold uppercase tracking-wider cursor-pointer">
+                        <span>Manual Only</span>
+                        <input
+                          type="checkbox"
+                          checked={manualOnly}
+                          onChange={(e) => setManualOnly(e.target.checked)}
+                          className="w-4 h-4 accent-sky-500 cursor-pointer"
+                        />
+                      </label>
+                      <p className="text-[10px] opacity-50 mt-2">
+                        Click the scene to fire at the barrier, or drag to aim — longer drags fire faster.
+                      </p>
+                    </div>
+
+                    <SpeedModeControls
+                      theme={theme}
+                      speedMode={speedMode}
+                      customModes={customSpeedModes}
+                      onSpeedModeChange={setSpeedMode}
+                      onCustomModesChange={setCustomSpeedModes}
+                    />
+
+                    <ProjectileMixControls theme={theme} mix={projectileMix} onChange={setProjectileMix} />
+
+                    {/* Collisions */}
                     <div>
                       <div className="flex justify-between text-xs mb-3 font-bold uppercase tracking-wider">
-                         <span>Object Speed</span>
+                         <span>Collisions</span>
                       </div>
                       <div className={`grid grid-cols-3 gap-2 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
-                         {(['slow', 'normal', 'fast'] as const).map((mode) => (
+                         {COLLISION_MODES.map((mode) => (
                             <button
                               key={mode}
-                              onClick={() => setSpeedMode(mode)}
+                              onClick={() => setCollisions(mode)}
+                              aria-pressed={collisions === mode}
                               className={`
                                 py-2 text-xs font-bold uppercase tracking-wider rounded-lg transition-all duration-300
-                                ${speedMode === mode 
+                                ${collisions === mode 
                                   ? (isDark ? 'bg-slate-700 text-white shadow-lg scale-105' : 'bg-white text-slate-900 shadow-lg scale-105') 
                                   : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
                               `}
@@ -257,13 +864,190 @@ const App = () => {
                             </button>
                          ))}
                       </div>
+                      <p className="text-[10px] opacity-50 mt-2">
+                        Bounce scatters clusters elastically; merge fuses colliding projectiles into heavier ones.
+                      </p>
+                    </div>
+
+                    {/* Technique Transition */}
+                    <div>
+                      <div className="flex justify-between text-xs mb-2 font-bold uppercase tracking-wider">
+                         <span>Transition</span>
+                         <span className={`font-display text-lg ${isDark ? 'text-sky-400' : 'text-sky-600'}`}>{transitionDuration.toFixed(1)}s</span>
+                      </div>
+                      <div className="relative flex items-center h-6">
+                        <input
+                          type="range" min="0" max="3" step="0.1"
+                          value={transitionDuration}
+                          aria-label="Transition"
+                          aria-valuetext={`${transitionDuration.toFixed(1)} seconds`}
+                          onChange={(e) => setTransitionDuration(parseFloat(e.target.value))}
+                          className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all"
+                        />
+                      </div>
+                      <p className="text-[10px] opacity-50 mt-2">
+                        Blends the barrier, effects and forces when switching techniques. Switching from Blue or Red to Purple fuses the two.
+                      </p>
+                    </div>
+
+                    {/* Sound */}
+                    <div>
+                      <div className="flex justify-between items-center text-xs mb-2 font-bold uppercase tracking-wider">
+                         <span>Sound</span>
+                         <button
+                           onClick={() => setIsMuted(prev => !prev)}
+                           className={`p-1.5 rounded-lg transition-colors ${isDark ? 'hover:bg-slate-700 text-slate-400 hover:text-white' : 'hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`}
+                           title={isMuted ? 'Unmute' : 'Mute'}
+                           aria-label={isMuted ? 'Unmute' : 'Mute'}
+                         >
+                           {isMuted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+                         </button>
+                      </div>
+                      <div className="relative flex items-center h-6">
+                        <input
+                          type="range" min="0" max="1" step="0.05"
+                          value={volume}
+                          disabled={isMuted}
+                          aria-label="Volume"
+                          onChange={(e) => setVolume(parseFloat(e.target.value))}
+                          className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                        />
+                      </div>
+                      <p className="text-[10px] opacity-50 mt-2">
+                        Generated from the simulation: a hum for Infinity, a rush for Blue, a thump per Red reflection and a swell as Purple erases.
+                      </p>
+                    </div>
+
+                    {/* Split Screen */}
+                    <div>
+                      <div className="flex justify-between text-xs mb-3 font-bold uppercase tracking-wider">
+                         <span>Viewports</span>
+                      </div>
+                      <div className={`grid grid-cols-3 gap-2 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+                         {([1, 2, 4] as const).map((count) => (
+                            <button
+                              key={count}
+                              onClick={() => changeViewportCount(count)}
+                              disabled={isPlaybackMode}
+                              aria-pressed={viewportCount === count}
+                              className={`
+                                py-2 text-xs font-bold uppercase tracking-wider rounded-lg transition-all duration-300 disabled:opacity-30 disabled:cursor-not-allowed
+                                ${viewportCount === count 
+                                  ? (isDark ? 'bg-slate-700 text-white shadow-lg scale-105' : 'bg-white text-slate-900 shadow-lg scale-105') 
+                                  : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
+                              `}
+                            >
+                              {count === 1 ? 'Single' : `${count} Split`}
+                            </button>
+                         ))}
+                      </div>
+                      <label className="flex justify-between items-center text-xs font-bold uppercase tracking-wider cursor-pointer mt-3">
+                        <span>Shared Camera</span>
+                        <input
+                          type="checkbox"
+                          checked={sharedCamera}
+                          disabled={viewportCount === 1}
+                          onChange={(e) => setSharedCamera(e.target.checked)}
+                          className="w-4 h-4 accent-sky-500 cursor-pointer disabled:opacity-30"
+                        />
+                      </label>
+                      <p className="text-[10px] opacity-50 mt-2">
+                        Runs the same attacks against a different technique in each viewport. Pick each viewport's technique at its top.
+                      </p>
+                    </div>
+
+                    {/* Seed */}
+                    <div>
+                      <div className="flex justify-between text-xs mb-3 font-bold uppercase tracking-wider">
+                         <span>Seed</span>
+                      </div>
+                      <div className="flex gap-2">
+                        <input
+                          type="number" min="0" max={MAX_SEED} step="1"
+                          value={seed}
+                          aria-label="Seed"
+                          onChange={(e) => setSeed(normalizeSeed(Number(e.target.value)))}
+                          className={`flex-1 min-w-0 px-3 py-2 rounded-xl font-mono text-sm outline-none border transition-colors ${isDark ? 'bg-slate-900 border-slate-700 focus:border-sky-500' : 'bg-white border-slate-200 focus:border-sky-500'}`}
+                        />
+                        <button
+                          onClick={() => setSeed(randomSeed())}
+                          className={`p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`}
+                          title="Random Seed"
+                          aria-label="Random Seed"
+                        >
+                          <Dices size={20} />
+                        </button>
+                        <button
+                          onClick={() => setRunId(prev => prev + 1)}
+                          className={`p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`}
+                          title="Restart Run"
+                          aria-label="Restart Run"
+                        >
+                          <RotateCcw size={20} />
+                        </button>
+                      </div>
+                    </div>
+
+                    <AdvancedControls
+                      theme={theme}
+                      technique={activeTech}
+                      params={activeParams}
+                      presets={paramPresets}
+                      onParamChange={setParam}
+                      onReset={resetParams}
+                      onSavePreset={(name) => setParamPresets(upsertParamPreset(paramPresets, { name, params: tunedParams }))}
+                      onLoadPreset={loadPreset}
+                      onDeletePreset={(name) => setParamPresets(deleteParamPreset(paramPresets, name))}
+                    />
+                 </div>
+              </section>
+
+              {/* ACCESSIBILITY */}
+              <section>
+                <h2 className={`text-sm font-display font-bold uppercase tracking-widest mb-4 flex items-center gap-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                   <Accessibility size={16} /> Accessibility
+                 </h2>
+                 <div className={`p-5 rounded-2xl border space-y-4 ${isDark ? 'bg-slate-800/40 border-slate-700/50' : 'bg-slate-50 border-slate-200'}`}>
+                    <div>
+                      <label className="flex justify-between items-center text-xs font-bold uppercase tracking-wider cursor-pointer">
+                        <span>Reduce Motion</span>
+                        <input
+                          type="checkbox"
+                          checked={reducedMotion}
+                          onChange={(e) => setReducedMotionSetting(e.target.checked)}
+                          aria-keyshortcuts="M"
+                          className="w-4 h-4 accent-sky-500 cursor-pointer"
+                        />
+                      </label>
+                      <p className="text-[10px] opacity-50 mt-2">
+                        Calms projectile shaking, the starfield and interface animations.{' '}
+                        {reducedMotionSetting === null ? (
+                          'Follows your system setting.'
+                        ) : (
+                          <button onClick={() => setReducedMotionSetting(null)} className="underline hover:opacity-100">
+                            Follow system setting
+                          </button>
+                        )}
+                      </p>
+                    </div>
+
+                    <div>
+                      <div className="text-xs mb-2 font-bold uppercase tracking-wider">Keyboard Shortcuts</div>
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-[11px]">
+                        {SHORTCUTS.map(shortcut => (
+                          <React.Fragment key={shortcut.keys}>
+                            <dt className="font-mono opacity-80">{shortcut.keys}</dt>
+                            <dd className="opacity-50">{shortcut.label}</dd>
+                          </React.Fragment>
+                        ))}
+                      </dl>
                     </div>
                  </div>
               </section>
 
               {/* EXPLANATION / ANALYSIS SECTION */}
               <section className={`p-6 rounded-2xl border relative overflow-hidden ${isDark ? 'bg-slate-800/30 border-slate-700/50' : 'bg-white border-slate-200 shadow-sm'}`}>
-                 <div className={`absolute top-0 right-0 p-4 opacity-10 font-display text-6xl pointer-events-none select-none ${activeTech.textClass}`}>
+                 <div className={`absolute top-0 right-0 p-4 opacity-10 font-display text-6xl pointer-events-none select-none ${activeTech.classes.text}`}>
                     {activeTech.label[0]}
                  </div>
 
@@ -306,17 +1090,163 @@ const App = () => {
       </div>
 
       {/* RIGHT PANEL: Simulation */}
-      <div className="flex-1 relative min-w-0 min-h-0 h-full bg-black/5">
-        <InfinityScene 
-          technique={currentTechnique} 
+      <div role="main" aria-label="Simulation" className="flex-1 relative min-w-0 min-h-0 h-full bg-black/5">
+        <div className={isComparing ? `absolute inset-0 grid gap-px ${viewportCount === 4 ? 'grid-cols-2 grid-rows-2' : 'grid-cols-2'} ${isDark ? 'bg-slate-700' : 'bg-slate-300'}` : 'absolute inset-0 grid'}>
+          <ComparisonPane
+            theme={theme}
+            techniques={techniques}
+            technique={sceneTechnique}
+            onTechniqueChange={setCurrentTechnique}
+            showPicker={isComparing}
+          >
+            <InfinityScene
+              {...sharedSceneProps}
+              technique={sceneTechnique}
+              params={tunedParams[sceneTechnique]}
+              onCameraChange={setCamera}
+              recorder={recorder}
+              playback={isPlaybackMode && session ? { session, time: playbackTime } : null}
+              exportJob={exportJob}
+              telemetry={telemetry}
+              probe={canSelect ? probe : null}
+              followProbe={isInspectorOpen && followProjectile}
+              purpleShot={isAimingPurple ? purpleShot : null}
+              purpleTally={purpleTally}
+              soundscape={soundscape}
+              game={game}
+            />
+          </ComparisonPane>
+
+          {isComparing && comparedTechniques.slice(0, viewportCount - 1).map((technique, i) => (
+            <ComparisonPane
+              key={i}
+              theme={theme}
+              techniques={techniques}
+              technique={technique}
+              onTechniqueChange={(next) => setComparedTechnique(i, next)}
+              showPicker
+            >
+              <InfinityScene {...sharedSceneProps} technique={technique} params={tunedParams[technique]} />
+            </ComparisonPane>
+          ))}
+        </div>
+
+        {urlWarnings.length > 0 && (
+          <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10 max-w-md flex items-start gap-3 px-4 py-3 rounded-xl text-xs bg-amber-500/90 text-slate-900 shadow-lg">
+            <div className="space-y-1">
+              <div className="font-bold uppercase tracking-wider">Some link settings were ignored</div>
+              {urlWarnings.map(warning => <div key={warning}>{warning}</div>)}
+            </div>
+            <button onClick={() => setUrlWarnings([])} title="Dismiss" aria-label="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        <SceneDescription
+          technique={sceneTech}
+          telemetry={telemetry}
           spawnRate={spawnRate}
-          minSpeed={minSpeed}
-          maxSpeed={maxSpeed}
+          speedLabel={activeSpeedMode.label}
+          patternLabel={getAttackPattern(pattern)?.label ?? pattern}
+          manualOnly={manualOnly}
+          isPlaybackMode={isPlaybackMode}
+          isPaused={!isPlaying}
+          game={game}
+          describeRequest={describeRequest}
+        />
+
+        {game && (
+          <GameHud
+            theme={theme}
+            game={game}
+            energyCost={sceneTech.energyCost ?? DEFAULT_ENERGY_COST}
+            bestRuns={bestRuns}
+            newRank={newRank}
+            onGameOver={finishGame}
+            onRestart={startGame}
+            onExit={() => setGame(null)}
+          />
+        )}
+
+        {scenarioCaption && (
+          <div aria-live="polite" className={`absolute bottom-24 left-1/2 -translate-x-1/2 z-10 max-w-xl px-5 py-3 rounded-2xl text-center text-sm leading-relaxed backdrop-blur pointer-events-none ${isDark ? 'bg-slate-900/80 text-white' : 'bg-white/90 text-slate-900 shadow-lg'}`}>
+            {scenarioCaption}
+          </div>
+        )}
+
+        <ExportPanel
+          theme={theme}
+          fileName={`limitless-${activeTech.label.toLowerCase()}`}
+          watermark={{ text: WATERMARK, color: isDark ? '#ffffff' : '#0f172a' }}
+          onExport={runExport}
+        />
+
+        <TelemetryPanel
+          theme={theme}
+          log={telemetry}
+          fileName={`limitless-telemetry-${seed}`}
+        />
+
+        <MathPanel
+          theme={theme}
+          technique={sceneTech}
+          params={sceneParams}
+          probe={probe}
+          isOpen={mathMode}
+          onToggle={() => setMathMode(prev => !prev)}
+        />
+
+        <InspectorPanel
+          theme={theme}
+          technique={sceneTech}
+          params={sceneParams}
+          probe={probe}
+          isOpen={isInspectorOpen}
+          onToggle={() => setIsInspectorOpen(prev => !prev)}
+          follow={followProjectile}
+          onFollowChange={setFollowProjectile}
+        />
+
+        {canFirePurple && (
+          <HollowPurplePanel
+            theme={theme}
+            tally={purpleTally}
+            options={purpleShot}
+            onOptionsChange={setPurpleShot}
+            aiming={isAimingPurple}
+            onAimingChange={setPurpleAiming}
+            canAim={!canSelect}
+          />
+        )}
+
+        <CameraPanel
+          theme={theme}
+          view={cameraView}
+          onViewChange={setCameraView}
+          techniqueLabel={sceneTech.label}
+        />
+
+        <SessionPanel
           theme={theme}
+          isRecording={recorder !== null}
+          session={session}
+          isPlaybackMode={isPlaybackMode}
+          isPlaying={isPlaying}
+          playbackTime={playbackTime}
+          playbackSpeed={playbackSpeed}
+          onStartRecording={startRecording}
+          onStopRecording={stopRecording}
+          onLoadSession={loadSession}
+          onEnterPlayback={enterPlayback}
+          onExitPlayback={exitPlayback}
+          onTogglePlay={togglePlay}
+          onSeek={setPlaybackTime}
+          onSpeedChange={setPlaybackSpeed}
         />
         
         <div className={`absolute bottom-8 right-8 pointer-events-none text-sm font-display uppercase tracking-[0.2em] opacity-40 ${isDark ? 'text-white' : 'text-slate-900'}`}>
-           Jujutsu Archive // V.2.1
+           {WATERMARK}
         </div>
       </div>
     </div>
@@ -0,0 +1,79 @@
+import { TechniqueDefinition } from '../techniques/registry';
+import { SoundFrame, TechniqueVoice } from './voices';
+
+// Plays the current technique's sound. Browsers only start audio after a user gesture,
+// so the AudioContext is created on the first pointer or key press; until then updates
+// are dropped. Switching techniques crossfades the old voice into the new one.
+
+export interface Soundscape {
+  setTechnique: (definition: TechniqueDefinition, fade: number) => void;
+  update: (frame: SoundFrame) => void;
+  setVolume: (volume: number) => void; // 0 to 1
+  setMuted: (muted: boolean) => void;
+  dispose: () => void;
+}
+
+const MIN_FADE = 0.3; // Seconds, so instant technique switches don't click
+const VOLUME_SMOOTHING = 0.05;
+
+export const createSoundscape = (): Soundscape => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let voice: TechniqueVoice | null = null;
+  let technique: TechniqueDefinition | null = null;
+  let volume = 0.5;
+  let muted = false;
+
+  const masterLevel = () => (muted ? 0 : volume);
+
+  const startVoice = (fade: number) => {
+    voice?.stop(Math.max(fade, MIN_FADE));
+    voice = context && master && technique?.sound ? technique.sound(context, master) : null;
+  };
+
+  const unlock = () => {
+    window.removeEventListener('pointerdown', unlock);
+    window.removeEventListener('keydown', unlock);
+    if (context) return;
+    const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    context = new AudioContextClass();
+    master = context.createGain();
+    master.gain.value = masterLevel();
+    master.connect(context.destination);
+    startVoice(0);
+  };
+
+  window.addEventListener('pointerdown', unlock);
+  window.addEventListener('keydown', unlock);
+
+  return {
+    setTechnique: (definition, fade) => {
+      if (definition === technique) return;
+      technique = definition;
+      startVoice(fade);
+    },
+    update: (frame) => {
+      if (!context || muted || context.state !== 'running') return;
+      voice?.update(frame);
+    },
+    setVolume: (next) => {
+      volume = Math.min(Math.max(next, 0), 1);
+      if (context && master) master.gain.setTargetAtTime(masterLevel(), context.currentTime, VOLUME_SMOOTHING);
+    },
+    setMuted: (next) => {
+      muted = next;
+      if (context && master) master.gain.setTargetAtTime(masterLevel(), context.currentTime, VOLUME_SMOOTHING);
+    },
+    dispose: () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+      voice?.stop(0);
+      voice = null;
+      context?.close();
+      context = null;
+      master = null;
+    }
+  };
+};
@@ -0,0 +1,214 @@
+// Procedural technique sounds. A technique's `sound` builds a voice on an AudioContext;
+// the soundscape (see soundscape.ts) feeds it what happened each frame and stops it with a
+// fade when the technique changes. Everything is synthesized, no samples are loaded.
+
+// What the projectile system saw since the last frame
+export interface SoundFrame {
+  delta: number; // Seconds
+  activeCount: number;
+  averageSpeed: number; // Mean speed of the active projectiles
+  approachSpeed: number; // Mean speed towards the core (negative when moving away)
+  reflections: number; // Projectiles turned back since the last frame
+  erasures: number; // Projectiles erased since the last frame
+}
+
+export interface TechniqueVoice {
+  update: (frame: SoundFrame) => void;
+  stop: (fade: number) => void; // Fades out over `fade` seconds, then releases its nodes
+}
+
+export type TechniqueSound = (context: AudioContext, output: AudioNode) => TechniqueVoice;
+
+const SMOOTHING = 0.15; // Time constant for parameter changes, in seconds
+
+// Gain node that fades in from silence
+const fadeIn = (context: AudioContext, output: AudioNode, level: number) => {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, context.currentTime);
+  gain.gain.setTargetAtTime(level, context.currentTime, SMOOTHING);
+  gain.connect(output);
+  return gain;
+};
+
+// Fades `gain` out, stopping the sources and disconnecting once the fade is over
+const release = (context: AudioContext, gain: GainNode, sources: AudioScheduledSourceNode[], fade: number) => {
+  const end = context.currentTime + Math.max(fade, 0.05);
+  gain.gain.cancelScheduledValues(context.currentTime);
+  gain.gain.setValueAtTime(gain.gain.value, context.currentTime);
+  gain.gain.linearRampToValueAtTime(0, end);
+  for (const source of sources) source.stop(end);
+  setTimeout(() => gain.disconnect(), (end - context.currentTime) * 1000 + 50);
+};
+
+const noiseBuffer = (context: AudioContext, seconds: number) => {
+  const buffer = context.createBuffer(1, Math.ceil(context.sampleRate * seconds), context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+// One second of white noise, looped
+const noiseSource = (context: AudioContext) => {
+  const source = context.createBufferSource();
+  source.buffer = noiseBuffer(context, 1);
+  source.loop = true;
+  return source;
+};
+
+// Louder with more projectiles in play, never quite silent
+const activity = (frame: SoundFrame) => Math.min(1, 0.3 + frame.activeCount / 20);
+
+/**
+ * A low drone whose pitch follows the average projectile speed, so it sinks as they slow.
+ */
+export const humSound = ({ frequency = 55, speedPitch = 3, level = 0.25 } = {}): TechniqueSound => (context, output) => {
+  const gain = fadeIn(context, output, level);
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = frequency * 6;
+  filter.connect(gain);
+
+  const low = context.createOscillator();
+  low.type = 'sawtooth';
+  const high = context.createOscillator();
+  high.type = 'sine';
+  high.detune.value = 7; // Slow beating between the two
+  for (const oscillator of [low, high]) {
+    oscillator.frequency.value = frequency;
+    oscillator.connect(filter);
+    oscillator.start();
+  }
+
+  return {
+    update: (frame) => {
+      const now = context.currentTime;
+      const pitch = frequency + frame.averageSpeed * speedPitch;
+      low.frequency.setTargetAtTime(pitch, now, SMOOTHING);
+      high.frequency.setTargetAtTime(pitch * 2, now, SMOOTHING);
+      gain.gain.setTargetAtTime(level * activity(frame), now, SMOOTHING);
+    },
+    stop: (fade) => release(context, gain, [low, high], fade)
+  };
+};
+
+/**
+ * Filtered noise that rises as projectiles are drawn in faster, over a falling undertone.
+ */
+export const rushSound = ({ frequency = 300, approachPitch = 60, level = 0.3 } = {}): TechniqueSound => (context, output) => {
+  const gain = fadeIn(context, output, level);
+
+  const noise = noiseSource(context);
+  const band = context.createBiquadFilter();
+  band.type = 'bandpass';
+  band.frequency.value = frequency;
+  band.Q.value = 4;
+  noise.connect(band).connect(gain);
+  noise.start();
+
+  // Undertone gliding down on a loop, like air pulled into a hole
+  const tone = context.createOscillator();
+  tone.type = 'triangle';
+  tone.frequency.value = 90;
+  const toneGain = context.createGain();
+  toneGain.gain.value = 0.4;
+  tone.connect(toneGain).connect(gain);
+  tone.start();
+  let sweep = 0;
+
+  return {
+    update: (frame) => {
+      const now = context.currentTime;
+      band.frequency.setTargetAtTime(frequency + Math.max(0, frame.approachSpeed) * approachPitch, now, SMOOTHING);
+      sweep = (sweep + frame.delta / 2) % 1;
+      tone.frequency.setTargetAtTime(90 - sweep * 50, now, SMOOTHING);
+      gain.gain.setTargetAtTime(level * activity(frame), now, SMOOTHING);
+    },
+    stop: (fade) => release(context, gain, [noise, tone], fade)
+  };
+};
+
+const THUMP_INTERVAL = 0.06; // Seconds between thumps; reflections in between make the next one louder
+
+/**
+ * A short falling sine with a burst of low noise for every reflected projectile.
+ */
+export const thumpSound = ({ level = 0.6 } = {}): TechniqueSound => (context, output) => {
+  const gain = fadeIn(context, output, 1);
+  const burst = noiseBuffer(context, 0.1);
+  let pending = 0;
+  let lastThump = -Infinity;
+
+  const thump = (strength: number) => {
+    const now = context.currentTime;
+    const peak = level * Math.min(1, 0.4 + strength * 0.2);
+
+    const body = context.createOscillator();
+    body.frequency.setValueAtTime(120, now);
+    body.frequency.exponentialRampToValueAtTime(38, now + 0.25);
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(peak, now);
+    envelope.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+    body.connect(envelope).connect(gain);
+    body.start(now);
+    body.stop(now + 0.3);
+    body.onended = () => envelope.disconnect();
+
+    const crack = context.createBufferSource();
+    crack.buffer = burst;
+    const crackFilter = context.createBiquadFilter();
+    crackFilter.type = 'lowpass';
+    crackFilter.frequency.value = 500;
+    const crackEnvelope = context.createGain();
+    crackEnvelope.gain.setValueAtTime(peak * 0.5, now);
+    crackEnvelope.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+    crack.connect(crackFilter).connect(crackEnvelope).connect(gain);
+    crack.start(now);
+    crack.onended = () => crackEnvelope.disconnect();
+  };
+
+  return {
+    update: (frame) => {
+      pending += frame.reflections;
+      if (pending > 0 && context.currentTime - lastThump >= THUMP_INTERVAL) {
+        thump(pending);
+        pending = 0;
+        lastThump = context.currentTime;
+      }
+    },
+    stop: (fade) => release(context, gain, [], fade)
+  };
+};
+
+/**
+ * A chord that swells with every erasure and ebbs away when nothing is being erased.
+ */
+export const crescendoSound = ({ frequency = 110, perErasure = 0.12, decay = 0.6, level = 0.35 } = {}): TechniqueSound => (context, output) => {
+  const gain = fadeIn(context, output, 0);
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 200;
+  filter.connect(gain);
+
+  // Root, fifth and octave
+  const oscillators = [1, 1.5, 2].map(ratio => {
+    const oscillator = context.createOscillator();
+    oscillator.type = 'triangle';
+    oscillator.frequency.value = frequency * ratio;
+    oscillator.connect(filter);
+    oscillator.start();
+    return oscillator;
+  });
+  let intensity = 0;
+
+  return {
+    update: (frame) => {
+      const now = context.currentTime;
+      intensity = Math.min(1, intensity * Math.exp(-decay * frame.delta) + frame.erasures * perErasure);
+      // Brighter and a little sharper as it builds
+      filter.frequency.setTargetAtTime(200 + intensity * 3000, now, SMOOTHING);
+      oscillators.forEach((oscillator, i) => oscillator.detune.setTargetAtTime(intensity * 100 + i * 4, now, SMOOTHING));
+      gain.gain.setTargetAtTime(level * intensity, now, SMOOTHING);
+    },
+    stop: (fade) => release(context, gain, oscillators, fade)
+  };
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ChevronDown, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { TechniqueDefinition, resolveParams } from '../techniques';
+import { TechniqueParams } from '../simulation/forces';
+import { ParamPreset } from '../state/paramPresets';
+import { ParamSlider } from './ParamSlider';
+
+interface AdvancedControlsProps {
+  theme: 'dark' | 'light';
+  technique: TechniqueDefinition;
+  params: TechniqueParams; // Tuned values for `technique`
+  presets: ParamPreset[];
+  onParamChange: (key: string, value: number) => void;
+  onReset: () => void;
+  onSavePreset: (name: string) => void;
+  onLoadPreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+export const AdvancedControls: React.FC<AdvancedControlsProps> = ({
+  theme,
+  technique,
+  params,
+  presets,
+  onParamChange,
+  onReset,
+  onSavePreset,
+  onLoadPreset,
+  onDeletePreset
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState('');
+
+  const isDark = theme === 'dark';
+  const values = resolveParams(technique, params);
+  const specs = technique.params ?? [];
+
+  const iconButtonClass = `p-2 rounded-xl transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`;
+  const fieldClass = `flex-1 min-w-0 px-3 py-2 rounded-xl text-sm outline-none border transition-colors ${isDark ? 'bg-slate-900 border-slate-700 focus:border-sky-500' : 'bg-white border-slate-200 focus:border-sky-500'}`;
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onSavePreset(name);
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center text-xs font-bold uppercase tracking-wider"
+      >
+        <span>Advanced</span>
+        <ChevronDown size={16} className={`transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <div className="flex justify-between items-center">
+            <span className={`font-display tracking-wider ${technique.classes.text}`}>{technique.label}</span>
+            <button onClick={onReset} disabled={Object.keys(params).length === 0} className={iconButtonClass} title="Reset to Defaults">
+              <RotateCcw size={16} />
+            </button>
+          </div>
+
+          {specs.length === 0 && (
+            <p className="text-xs opacity-50">This technique has no tunable parameters.</p>
+          )}
+
+          {specs.map(spec => (
+            <ParamSlider
+              key={spec.key}
+              theme={theme}
+              spec={spec}
+              value={values[spec.key]}
+              isTuned={params[spec.key] !== undefined}
+              onChange={(value) => onParamChange(spec.key, value)}
+            />
+          ))}
+
+          {/* Presets cover every technique's tuned values */}
+          <div className="space-y-2">
+            <div className="text-xs font-bold uppercase tracking-wider">Presets</div>
+            <div className="flex gap-2">
+              <select
+                value={selectedPreset}
+                onChange={(e) => setSelectedPreset(e.target.value)}
+                className={fieldClass}
+              >
+                <option value="">Select preset…</option>
+                {presets.map(preset => (
+                  <option key={preset.name} value={preset.name}>{preset.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onLoadPreset(selectedPreset)}
+                disabled={!selectedPreset}
+                className={`${iconButtonClass} text-xs font-bold uppercase`}
+              >
+                Load
+              </button>
+              <button
+                onClick={() => { onDeletePreset(selectedPreset); setSelectedPreset(''); }}
+                disabled={!selectedPreset}
+                className={iconButtonClass}
+                title="Delete Preset"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                placeholder="Preset name"
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                className={fieldClass}
+              />
+              <button onClick={handleSave} disabled={!presetName.trim()} className={iconButtonClass} title="Save Preset">
+                <Save size={16} />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
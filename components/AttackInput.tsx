@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { SimulationTarget } from '../simulation/simulationGroup';
+import { PurpleShotOptions } from '../simulation/hollowPurple';
+
+// Lets the user fire projectiles by clicking on the scene. The pointer is raycast onto a
+// camera-facing plane through the origin; a click launches a shot at the barrier from that
+// point, a drag launches it along the drag with speed proportional to its length. While
+// aiming Hollow Purple, the shot leaves the barrier towards wherever the pointer is released.
+
+const MANUAL_COLOR = '#fbbf24';
+const PURPLE_COLOR = '#a855f7';
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+const CLICK_THRESHOLD = 0.3; // Drags shorter than this count as a click
+const CLICK_SPEED = 8;
+const DRAG_SPEED_FACTOR = 3; // Speed per world unit dragged
+const MIN_SPEED = 1;
+const MAX_SPEED = 60;
+
+interface AttackInputProps {
+  simulation: SimulationTarget; // A single simulation, or a group of them compared side by side
+  enabled: boolean;
+  purpleShot?: PurpleShotOptions | null;
+}
+
+interface Aim {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+export const AttackInput = ({ simulation, enabled, purpleShot }: AttackInputProps) => {
+  const planeRef = useRef<THREE.Mesh>(null);
+  const [aim, setAim] = useState<Aim | null>(null);
+
+  // Keep the spawn plane facing the camera
+  useFrame(({ camera }) => {
+    planeRef.current?.quaternion.copy(camera.quaternion);
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    setAim({ start: purpleShot ? ORIGIN.clone() : e.point.clone(), end: e.point.clone() });
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!aim) return;
+    setAim({ start: aim.start, end: e.point.clone() });
+  };
+
+  const handlePointerUp = () => {
+    if (!aim) return;
+    const { start, end } = aim;
+    setAim(null);
+
+    if (purpleShot) {
+      if (end.lengthSq() > 0) simulation.firePurple(start, end, purpleShot);
+      return;
+    }
+
+    const drag = end.clone().sub(start);
+    const length = drag.length();
+    let velocity: THREE.Vector3;
+    if (length < CLICK_THRESHOLD) {
+      // Plain click: straight at the barrier
+      if (start.lengthSq() === 0) return;
+      velocity = start.clone().negate().setLength(CLICK_SPEED);
+    } else {
+      const speed = THREE.MathUtils.clamp(length * DRAG_SPEED_FACTOR, MIN_SPEED, MAX_SPEED);
+      velocity = drag.setLength(speed);
+    }
+
+    simulation.fire(start, velocity, { color: MANUAL_COLOR });
+  };
+
+  if (!enabled) return null;
+
+  return (
+    <group>
+      <mesh
+        ref={planeRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setAim(null)}
+      >
+        <planeGeometry args={[200, 200]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </mesh>
+
+      {/* Aim indicator while dragging */}
+      {aim && (
+        <Line points={[aim.start, aim.end]} color={purpleShot ? PURPLE_COLOR : MANUAL_COLOR} lineWidth={2} dashed dashSize={0.3} gapSize={0.15} />
+      )}
+    </group>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Video, X } from 'lucide-react';
+import { CAMERA_PRESETS, CameraView } from './CameraRig';
+
+interface CameraPanelProps {
+  theme: 'dark' | 'light';
+  view: CameraView;
+  onViewChange: (view: CameraView) => void;
+  techniqueLabel: string;
+}
+
+export const CameraPanel: React.FC<CameraPanelProps> = ({ theme, view, onViewChange, techniqueLabel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isDark = theme === 'dark';
+
+  const buttonClass = `p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+  const optionClass = (active: boolean) => `
+    px-2 py-1.5 text-xs font-bold rounded-lg transition-all duration-300
+    ${active
+      ? (isDark ? 'bg-slate-700 text-white shadow-lg' : 'bg-white text-slate-900 shadow-lg')
+      : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
+  `;
+
+  return (
+    <div className="absolute bottom-8 left-20 z-10 flex flex-col-reverse items-start gap-2">
+      <button onClick={() => setIsOpen(prev => !prev)} className={buttonClass} title={isOpen ? 'Close Camera' : 'Camera'}>
+        {isOpen ? <X size={20} /> : <Video size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className={`w-64 p-4 rounded-2xl border space-y-3 text-xs backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`}>
+          <div className="font-bold uppercase tracking-wider">Camera</div>
+
+          <div className={`grid grid-cols-2 gap-1 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+            {CAMERA_PRESETS.map(preset => (
+              <button key={preset.id} onClick={() => onViewChange(preset.id)} className={optionClass(view === preset.id)}>
+                {preset.label}
+              </button>
+            ))}
+            <button onClick={() => onViewChange('free')} className={optionClass(view === 'free')}>
+              Free
+            </button>
+            <button onClick={() => onViewChange('cinematic')} className={optionClass(view === 'cinematic')}>
+              Cinematic
+            </button>
+          </div>
+
+          <p className="text-[10px] opacity-50">
+            {view === 'cinematic'
+              ? `Playing the ${techniqueLabel} camera path; it follows the timeline during playback.`
+              : 'Right-drag to orbit, middle-drag or Shift + right-drag to pan, scroll to zoom.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { CameraPath, CameraPose } from '../techniques';
+import { ProjectileProbe } from '../simulation/probe';
+import { DrawnFrame } from './ProbeOverlay';
+import { ExportJob } from './SceneExporter';
+
+// Owns the scene camera. In the free view the user orbits (right drag), pans (middle or
+// shift + right drag) and zooms (wheel); the left button stays with the scene for firing
+// and picking. Static presets ease the camera into place and hand back to the orbit
+// controls, while the projectile-eye, follow and cinematic shots drive it every frame.
+
+export type CameraView = 'free' | 'front' | 'top' | 'closeup' | 'projectile' | 'cinematic';
+
+export interface CameraPreset {
+  id: CameraView;
+  label: string;
+  pose?: CameraPose; // Static presets only
+}
+
+export const CAMERA_PRESETS: CameraPreset[] = [
+  { id: 'front', label: 'Front', pose: { position: { x: 0, y: 0, z: 14 }, target: { x: 0, y: 0, z: 0 } } },
+  { id: 'top', label: 'Top-Down', pose: { position: { x: 0, y: 16, z: 0.01 }, target: { x: 0, y: 0, z: 0 } } },
+  { id: 'closeup', label: 'Close-Up', pose: { position: { x: 1.5, y: 1, z: 4.5 }, target: { x: 0, y: 0, z: 0 } } },
+  { id: 'projectile', label: 'Projectile Eye' }
+];
+
+// Free-camera pose shared by split-screen viewports. The viewport the user grabbed last
+// leads; the others copy its pose whenever it changes.
+export interface CameraSync {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  leader: symbol | null;
+  version: number; // Bumped on every change by the leader
+}
+
+export const createCameraSync = (): CameraSync => ({
+  position: new THREE.Vector3(),
+  target: new THREE.Vector3(),
+  leader: null,
+  version: 0
+});
+
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>;
+
+const SMOOTHING = 4; // Higher catches up faster
+const FOLLOW_OFFSET = new THREE.Vector3(0, 1.5, 6);
+const EYE_BACKOFF = 0.6; // Distance behind the ridden projectile, away from the core
+const SETTLE_DISTANCE_SQ = 1e-3;
+
+interface CameraRigProps {
+  view: CameraView;
+  path: CameraPath; // Cinematic path of the current technique
+  frame: React.MutableRefObject<DrawnFrame>;
+  follow: ProjectileProbe | null; // Chase the selected projectile
+  playbackTime: number | null; // Drives the cinematic path during playback
+  exportJob: ExportJob | null;
+  onViewChange: (view: CameraView) => void;
+  onCameraChange?: (position: [number, number, number]) => void;
+  sync?: CameraSync | null;
+}
+
+const pathTime = (path: CameraPath, t: number) =>
+  path.loop ? ((t % path.duration) + path.duration) % path.duration : Math.min(Math.max(t, 0), path.duration);
+
+// Rides the projectile heading for the core from furthest out, so the ride lasts
+const pickEyeProjectile = ({ particles }: DrawnFrame): number | null => {
+  let best: number | null = null;
+  let bestDistSq = 0;
+  for (let i = 0; i < particles.length; i++) {
+    const p = particles[i];
+    if (!p.active || p.x * p.vx + p.y * p.vy + p.z * p.vz >= 0) continue;
+    const distSq = p.x * p.x + p.y * p.y + p.z * p.z;
+    if (distSq > bestDistSq) {
+      best = i;
+      bestDistSq = distSq;
+    }
+  }
+  return best;
+};
+
+export const CameraRig = ({ view, path, frame, follow, playbackTime, exportJob, onViewChange, onCameraChange, sync }: CameraRigProps) => {
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const syncId = useMemo(() => Symbol('camera'), []);
+  const syncVersion = useRef(-1);
+
+  // Static preset being eased into
+  const transition = useRef<CameraPose | null>(null);
+  const cinematicStart = useRef<number | null>(null);
+  const eyeSlot = useRef<{ slot: number, age: number } | null>(null);
+  // Pose to restore once a cinematic export is done
+  const exportRestore = useRef<{ position: THREE.Vector3, target: THREE.Vector3 } | null>(null);
+  const wasDriven = useRef(false);
+
+  const goal = useMemo(() => ({ position: new THREE.Vector3(), target: new THREE.Vector3() }), []);
+
+  useEffect(() => {
+    transition.current = CAMERA_PRESETS.find(preset => preset.id === view)?.pose ?? null;
+    cinematicStart.current = null;
+    eyeSlot.current = null;
+  }, [view]);
+
+  // Restart the cinematic path when the technique changes
+  useEffect(() => {
+    cinematicStart.current = null;
+  }, [path]);
+
+  useFrame((state, rawDelta) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+    const { camera, clock } = state;
+    const blend = 1 - Math.exp(-SMOOTHING * Math.min(Math.max(rawDelta, 0), 0.1));
+
+    // Decide who drives the camera this frame; `exact` skips easing
+    let driven = true;
+    let exact = false;
+    const cinematicExport = exportJob?.settings.cinematic;
+
+    if (cinematicExport) {
+      // The export drives the clock from 0 in fixed steps, so the shot is reproducible
+      if (!exportRestore.current) exportRestore.current = { position: camera.position.clone(), target: controls.target.clone() };
+      const pose = path.at(pathTime(path, clock.elapsedTime));
+      goal.position.set(pose.position.x, pose.position.y, pose.position.z);
+      goal.target.set(pose.target.x, pose.target.y, pose.target.z);
+      exact = true;
+    } else if (follow && follow.slot !== null) {
+      goal.target.set(follow.position.x, follow.position.y, follow.position.z);
+      goal.position.copy(goal.target).add(FOLLOW_OFFSET);
+    } else if (view === 'cinematic') {
+      let t: number;
+      if (playbackTime !== null) {
+        t = playbackTime;
+      } else {
+        if (cinematicStart.current === null) cinematicStart.current = clock.elapsedTime;
+        t = clock.elapsedTime - cinematicStart.current;
+      }
+      const pose = path.at(pathTime(path, t));
+      goal.position.set(pose.position.x, pose.position.y, pose.position.z);
+      goal.target.set(pose.target.x, pose.target.y, pose.target.z);
+    } else if (view === 'projectile') {
+      const { particles } = frame.current;
+      const ridden = eyeSlot.current && particles[eyeSlot.current.slot];
+      if (!ridden || !ridden.active || ridden.age < eyeSlot.current!.age) {
+        const slot = pickEyeProjectile(frame.current);
+        eyeSlot.current = slot === null ? null : { slot, age: particles[slot].age };
+      } else {
+        eyeSlot.current!.age = ridden.age;
+      }
+
+      if (eyeSlot.current) {
+        const p = particles[eyeSlot.current.slot];
+        const backoff = EYE_BACKOFF / (Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z) || 1);
+        goal.position.set(p.x * (1 + backoff), p.y * (1 + backoff), p.z * (1 + backoff));
+        goal.target.set(0, 0, 0);
+      } else {
+        driven = false; // Nothing in flight, hold still
+      }
+    } else {
+      driven = false;
+    }
+
+    if (!cinematicExport && exportRestore.current) {
+      camera.position.copy(exportRestore.current.position);
+      controls.target.copy(exportRestore.current.target);
+      exportRestore.current = null;
+    }
+
+    controls.enabled = !driven;
+    if (driven) {
+      if (exact) {
+        camera.position.copy(goal.position);
+        controls.target.copy(goal.target);
+      } else {
+        camera.position.lerp(goal.position, blend);
+        controls.target.lerp(goal.target, blend);
+      }
+      camera.lookAt(controls.target);
+      wasDriven.current = true;
+      return;
+    }
+
+    // Back from a driven shot: ease into the selected preset again
+    if (wasDriven.current) {
+      wasDriven.current = false;
+      transition.current = CAMERA_PRESETS.find(preset => preset.id === view)?.pose ?? null;
+    }
+
+    const target = transition.current;
+    if (target) {
+      goal.position.set(target.position.x, target.position.y, target.position.z);
+      goal.target.set(target.target.x, target.target.y, target.target.z);
+      camera.position.lerp(goal.position, blend);
+      controls.target.lerp(goal.target, blend);
+      if (camera.position.distanceToSquared(goal.position) < SETTLE_DISTANCE_SQ && controls.target.distanceToSquared(goal.target) < SETTLE_DISTANCE_SQ) {
+        camera.position.copy(goal.position);
+        controls.target.copy(goal.target);
+        transition.current = null;
+        onCameraChange?.(camera.position.toArray());
+      }
+    }
+
+    if (sync) {
+      if (sync.leader === syncId) {
+        if (!camera.position.equals(sync.position) || !controls.target.equals(sync.target)) {
+          sync.position.copy(camera.position);
+          sync.target.copy(controls.target);
+          sync.version++;
+        }
+      } else if (sync.leader !== null && syncVersion.current !== sync.version) {
+        camera.position.copy(sync.position);
+        controls.target.copy(sync.target);
+        camera.lookAt(controls.target);
+      }
+      syncVersion.current = sync.version;
+    }
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      makeDefault
+      mouseButtons={{ MIDDLE: THREE.MOUSE.PAN, RIGHT: THREE.MOUSE.ROTATE }}
+      minDistance={1}
+      maxDistance={80}
+      onStart={() => {
+        // Grabbing the camera leaves any preset
+        transition.current = null;
+        if (sync) sync.leader = syncId;
+        if (view !== 'free') onViewChange('free');
+      }}
+      onEnd={() => onCameraChange?.(controlsRef.current!.object.position.toArray())}
+    />
+  );
+};
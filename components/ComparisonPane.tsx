@@ -0,0 +1,40 @@
+import React from 'react';
+import { TechniqueId } from '../types';
+import { TechniqueDefinition } from '../techniques';
+
+interface ComparisonPaneProps {
+  theme: 'dark' | 'light';
+  techniques: TechniqueDefinition[];
+  technique: TechniqueId;
+  onTechniqueChange: (technique: TechniqueId) => void;
+  showPicker: boolean; // Only while comparing; the sidebar picks the technique otherwise
+  children: React.ReactNode;
+}
+
+// One viewport of the split-screen comparison, with a technique picker on top
+export const ComparisonPane: React.FC<ComparisonPaneProps> = ({ theme, techniques, technique, onTechniqueChange, showPicker, children }) => {
+  const isDark = theme === 'dark';
+  const current = techniques.find(t => t.id === technique);
+
+  return (
+    <div className="relative min-w-0 min-h-0 overflow-hidden">
+      {children}
+
+      {showPicker && (
+        <div className={`absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1.5 px-2 py-1.5 rounded-xl border backdrop-blur ${isDark ? 'bg-slate-900/70 border-slate-700/50' : 'bg-white/80 border-slate-200 shadow'}`}>
+          {techniques.map(tech => (
+            <button
+              key={tech.id}
+              onClick={() => onTechniqueChange(tech.id)}
+              className={`w-4 h-4 rounded-full transition-all ${tech.classes.color} ${tech.id === technique ? `ring-2 ${isDark ? 'ring-white' : 'ring-slate-900'}` : 'opacity-40 hover:opacity-100'}`}
+              title={tech.label}
+            />
+          ))}
+          <span className="pl-1 text-[10px] font-bold uppercase tracking-wider whitespace-nowrap">
+            {current ? `${current.label} · ${current.subtitle}` : technique}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
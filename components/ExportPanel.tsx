@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Clapperboard, X } from 'lucide-react';
+import { ExportResult, ExportSettings } from './SceneExporter';
+import { GIF_MAX_WIDTH } from '../media/encoders';
+
+interface ExportPanelProps {
+  theme: 'dark' | 'light';
+  fileName: string;
+  watermark: { text: string; color: string };
+  onExport: (settings: ExportSettings, onProgress: (fraction: number) => void) => Promise<ExportResult>;
+}
+
+const RESOLUTIONS = [
+  { label: '480p', width: 854, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 }
+];
+const FRAME_RATES = [24, 30, 60];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ theme, fileName, watermark, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [duration, setDuration] = useState(5);
+  const [resolution, setResolution] = useState(RESOLUTIONS[1]);
+  const [fps, setFps] = useState(30);
+  const [webm, setWebm] = useState(true);
+  const [gif, setGif] = useState(true);
+  const [includeWatermark, setIncludeWatermark] = useState(true);
+  const [cinematic, setCinematic] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const isDark = theme === 'dark';
+  const isExporting = progress !== null;
+
+  const buttonClass = `p-2 rounded-xl transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+  const optionClass = (active: boolean) => `
+    px-2 py-1 text-xs font-bold rounded-lg transition-all duration-300
+    ${active
+      ? (isDark ? 'bg-slate-700 text-white shadow-lg' : 'bg-white text-slate-900 shadow-lg')
+      : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
+  `;
+
+  const handleExport = async () => {
+    setProgress(0);
+    setMessages([]);
+    try {
+      const result = await onExport({
+        duration,
+        width: resolution.width,
+        height: resolution.height,
+        fps,
+        webm,
+        gif,
+        watermark: includeWatermark ? watermark : null,
+        cinematic
+      }, setProgress);
+
+      if (result.webm) downloadBlob(result.webm, `${fileName}.webm`);
+      if (result.gif) downloadBlob(result.gif, `${fileName}.gif`);
+      setMessages(result.warnings);
+    } catch (err) {
+      setMessages([err instanceof Error ? err.message : 'Export failed']);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="absolute top-6 left-6 z-10 flex flex-col items-start gap-2">
+      <button onClick={() => setIsOpen(prev => !prev)} className={buttonClass} title={isOpen ? 'Close Export' : 'Export Video'} aria-label={isOpen ? 'Close Export' : 'Export Video'}>
+        {isOpen ? <X size={20} /> : <Clapperboard size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className={`w-72 p-4 rounded-2xl border space-y-4 text-xs backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`}>
+          <div>
+            <div className="flex justify-between mb-2 font-bold uppercase tracking-wider">
+              <span>Duration</span>
+              <span className={isDark ? 'text-sky-400' : 'text-sky-600'}>{duration}s</span>
+            </div>
+            <input
+              type="range" min="1" max="30" step="1"
+              value={duration}
+              aria-label="Duration"
+              aria-valuetext={`${duration} seconds`}
+              disabled={isExporting}
+              onChange={(e) => setDuration(parseInt(e.target.value))}
+              className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all"
+            />
+          </div>
+
+          <div>
+            <div className="mb-2 font-bold uppercase tracking-wider">Resolution</div>
+            <div className={`grid grid-cols-3 gap-1 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+              {RESOLUTIONS.map(r => (
+                <button key={r.label} disabled={isExporting} onClick={() => setResolution(r)} className={optionClass(resolution === r)}>
+                  {r.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 font-bold uppercase tracking-wider">Frame Rate</div>
+            <div className={`grid grid-cols-3 gap-1 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+              {FRAME_RATES.map(rate => (
+                <button key={rate} disabled={isExporting} onClick={() => setFps(rate)} className={optionClass(fps === rate)}>
+                  {rate} fps
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={webm} disabled={isExporting} onChange={(e) => setWebm(e.target.checked)} className="accent-sky-500" />
+              WebM video
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={gif} disabled={isExporting} onChange={(e) => setGif(e.target.checked)} className="accent-sky-500" />
+              Animated GIF <span className="opacity-50">(max {GIF_MAX_WIDTH}px wide)</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={includeWatermark} disabled={isExporting} onChange={(e) => setIncludeWatermark(e.target.checked)} className="accent-sky-500" />
+              Watermark
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={cinematic} disabled={isExporting} onChange={(e) => setCinematic(e.target.checked)} className="accent-sky-500" />
+              Cinematic camera path
+            </label>
+          </div>
+
+          {isExporting ? (
+            <div className="h-2 rounded-full overflow-hidden bg-slate-600">
+              <div className="h-full bg-sky-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={!webm && !gif}
+              className="w-full py-2 rounded-xl font-bold uppercase tracking-wider bg-sky-500 hover:bg-sky-400 text-white transition-colors disabled:opacity-30"
+            >
+              Export
+            </button>
+          )}
+
+          {messages.map(message => (
+            <div key={message} className="px-3 py-2 rounded-xl bg-red-500/90 text-white">{message}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
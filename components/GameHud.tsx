@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Heart, RotateCcw, Trophy, X, Zap } from 'lucide-react';
+import { GameState, MAX_ENERGY, MAX_HEALTH, WAVE_BREAK, WAVE_DURATION, isWaveBreak } from '../simulation/game';
+import { BestRun } from '../state/bestRuns';
+import { usePolledSnapshot } from './usePolledSnapshot';
+
+interface GameHudProps {
+  theme: 'dark' | 'light';
+  game: GameState;
+  energyCost: number; // Drain of the active technique, per second
+  bestRuns: BestRun[];
+  newRank: number | null; // Place of the finished run in `bestRuns`
+  onGameOver: (game: GameState) => void;
+  onRestart: () => void;
+  onExit: () => void;
+}
+
+const REFRESH_MS = 100;
+
+interface GameView {
+  status: GameState['status'];
+  energy: number;
+  health: number;
+  score: number;
+  wave: number;
+  breakLeft: number | null; // Seconds until the next wave, during breaks
+  barrierDown: boolean;
+  time: number;
+  hits: number;
+}
+
+const readGame = (game: GameState): GameView => ({
+  status: game.status,
+  energy: game.energy,
+  health: game.health,
+  score: game.score,
+  wave: game.wave,
+  breakLeft: isWaveBreak(game) ? WAVE_DURATION + WAVE_BREAK - game.waveTime : null,
+  barrierDown: game.barrierDown,
+  time: game.time,
+  hits: game.hits
+});
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+};
+
+const Meter = ({ value, max, color, isDark }: { value: number, max: number, color: string, isDark: boolean }) => (
+  <div className={`h-2 w-40 rounded-full overflow-hidden ${isDark ? 'bg-slate-800' : 'bg-slate-200'}`}>
+    <div className={`h-full rounded-full transition-[width] duration-100 ${color}`} style={{ width: `${(value / max) * 100}%` }} />
+  </div>
+);
+
+export const GameHud: React.FC<GameHudProps> = ({ theme, game, energyCost, bestRuns, newRank, onGameOver, onRestart, onExit }) => {
+  // The game is advanced by the render loop
+  const [view] = usePolledSnapshot(useCallback(() => readGame(game), [game]), REFRESH_MS);
+  const reported = useRef<GameState | null>(null);
+  const isDark = theme === 'dark';
+
+  // Checks the game itself: `view` may still be the last game's for a render after a restart
+  useEffect(() => {
+    if (game.status === 'over' && reported.current !== game) {
+      reported.current = game;
+      onGameOver(game);
+    }
+  }, [view, game, onGameOver]);
+
+  const cardClass = `rounded-2xl border backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`;
+  const buttonClass = `flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors ${isDark ? 'bg-slate-800 hover:bg-slate-700' : 'bg-slate-100 hover:bg-slate-200'}`;
+
+  return (
+    <>
+      <div className={`absolute top-6 left-1/2 -translate-x-1/2 z-10 px-5 py-3 flex items-center gap-6 text-xs ${cardClass}`}>
+        <div className="text-center">
+          <div className="opacity-60 uppercase tracking-wider">Wave</div>
+          <div className="font-display text-2xl">{view.wave}</div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Heart size={14} className="text-rose-500" />
+            <Meter value={view.health} max={MAX_HEALTH} color="bg-rose-500" isDark={isDark} />
+            <span className="font-mono w-8 text-right">{Math.ceil(view.health)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Zap size={14} className={view.barrierDown ? 'text-slate-500' : 'text-sky-400'} />
+            <Meter value={view.energy} max={MAX_ENERGY} color={view.barrierDown ? 'bg-slate-500 animate-pulse' : 'bg-sky-400'} isDark={isDark} />
+            <span className="font-mono w-8 text-right">{Math.floor(view.energy)}</span>
+          </div>
+        </div>
+
+        <div className="text-center">
+          <div className="opacity-60 uppercase tracking-wider">Score</div>
+          <div className="font-display text-2xl">{view.score}</div>
+        </div>
+
+        <div className="w-28 text-[10px] leading-tight">
+          {view.barrierDown ? (
+            <span className="font-bold uppercase tracking-wider text-rose-400">Barrier down — recovering</span>
+          ) : view.breakLeft !== null ? (
+            <span className="font-bold uppercase tracking-wider">Next wave in {Math.ceil(view.breakLeft)}s</span>
+          ) : (
+            <span className="opacity-60">Technique drains {energyCost} energy/s</span>
+          )}
+        </div>
+      </div>
+
+      {view.status === 'over' && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/40">
+          <div className={`w-80 p-6 space-y-5 text-center ${cardClass}`}>
+            <div>
+              <div className="font-display text-3xl tracking-widest">GAME OVER</div>
+              <div className="text-xs opacity-60 mt-1">
+                Wave {view.wave} · {formatTime(view.time)} survived · {view.hits} hits taken
+              </div>
+            </div>
+
+            <div>
+              <div className="text-xs opacity-60 uppercase tracking-wider">Score</div>
+              <div className="font-display text-4xl">{view.score}</div>
+              {newRank === 0 && <div className="text-xs font-bold uppercase tracking-wider text-amber-400 mt-1">New best!</div>}
+            </div>
+
+            {bestRuns.length > 0 && (
+              <div className="text-xs text-left">
+                <div className="flex items-center gap-2 font-bold uppercase tracking-wider mb-2">
+                  <Trophy size={14} /> Best Runs
+                </div>
+                <div className="grid grid-cols-[1.5rem_1fr_auto_auto] gap-x-3 gap-y-1 font-mono">
+                  {bestRuns.map((run, i) => (
+                    <React.Fragment key={`${run.date}-${i}`}>
+                      <span className={i === newRank ? 'text-amber-400' : 'opacity-60'}>{i + 1}.</span>
+                      <span className={i === newRank ? 'text-amber-400 font-bold' : ''}>{run.score}</span>
+                      <span className="opacity-60">wave {run.wave}</span>
+                      <span className="opacity-60">{formatTime(run.time)}</span>
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-center gap-2">
+              <button onClick={onRestart} className={buttonClass}>
+                <RotateCcw size={14} /> Play Again
+              </button>
+              <button onClick={onExit} className={buttonClass}>
+                <X size={14} /> Exit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useCallback, useState } from 'react';
+import { Zap, X } from 'lucide-react';
+import { PurpleShotOptions, PurpleTally } from '../simulation/hollowPurple';
+import { usePolledSnapshot } from './usePolledSnapshot';
+
+interface HollowPurplePanelProps {
+  theme: 'dark' | 'light';
+  tally: PurpleTally;
+  options: PurpleShotOptions;
+  onOptionsChange: (options: PurpleShotOptions) => void;
+  aiming: boolean; // Clicks in the scene fire Hollow Purple
+  onAimingChange: (aiming: boolean) => void;
+  canAim: boolean; // False while clicks select projectiles instead
+}
+
+const REFRESH_MS = 100;
+
+export const HollowPurplePanel: React.FC<HollowPurplePanelProps> = ({ theme, tally, options, onOptionsChange, aiming, onAimingChange, canAim }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The tally is updated from the render loop
+  const [counts] = usePolledSnapshot(useCallback((): PurpleTally => ({ projectiles: tally.projectiles, ambient: tally.ambient }), [tally]), REFRESH_MS, isOpen);
+  const isDark = theme === 'dark';
+
+  const buttonClass = `p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+
+  return (
+    <div className="absolute top-20 left-6 z-10 flex flex-col items-start gap-2">
+      <button onClick={() => setIsOpen(prev => !prev)} className={`${buttonClass} ${aiming ? 'ring-2 ring-purple-500' : ''}`} title={isOpen ? 'Close Hollow Purple' : 'Fire Hollow Purple'}>
+        {isOpen ? <X size={20} /> : <Zap size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className={`w-64 p-4 rounded-2xl border space-y-3 text-xs backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`}>
+          <div className="font-bold uppercase tracking-wider">Hollow Purple</div>
+
+          <button
+            onClick={() => onAimingChange(!aiming)}
+            disabled={!canAim}
+            className={`w-full py-2 rounded-xl font-bold uppercase tracking-wider transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${aiming ? 'bg-purple-500 text-white' : (isDark ? 'bg-slate-800 hover:bg-slate-700' : 'bg-slate-100 hover:bg-slate-200')}`}
+          >
+            {aiming ? 'Aiming — Click to Fire' : 'Aim'}
+          </button>
+
+          <label className="block space-y-1">
+            <div className="flex justify-between">
+              <span>Size</span>
+              <span className="font-mono">{options.radius.toFixed(1)}</span>
+            </div>
+            <input
+              type="range" min="0.5" max="4" step="0.1"
+              value={options.radius}
+              onChange={(e) => onOptionsChange({ ...options, radius: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <div className="flex justify-between">
+              <span>Speed</span>
+              <span className="font-mono">{options.speed.toFixed(0)} u/s</span>
+            </div>
+            <input
+              type="range" min="4" max="40" step="1"
+              value={options.speed}
+              onChange={(e) => onOptionsChange({ ...options, speed: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 font-mono">
+            <span className="opacity-60">Projectiles</span>
+            <span>{counts.projectiles}</span>
+            <span className="opacity-60">Particles</span>
+            <span>{counts.ambient}</span>
+            <span className="opacity-60">Total Erased</span>
+            <span className="text-purple-400 font-bold">{counts.projectiles + counts.ambient}</span>
+          </div>
+
+          <p className="text-[10px] opacity-50">
+            {canAim
+              ? 'While aiming, click or drag in the scene to fire from the barrier towards the pointer. Counts reset with the run.'
+              : 'Close Math Mode and the inspector to aim.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
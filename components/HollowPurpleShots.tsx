@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MAX_PURPLE_SHOTS } from '../simulation/hollowPurple';
+import { DrawnFrame } from './ProbeOverlay';
+
+// Draws fired Hollow Purple shots from the drawn frame: a glowing sphere at each shot and
+// the path it carved, which stays behind and fades once the shot has left the scene.
+// Meshes are pooled up front, so firing never mounts anything.
+
+export const CARVE_FADE = 6; // Seconds a carved path takes to fade after its shot is gone
+
+const CARVE_POOL = MAX_PURPLE_SHOTS * 2;
+const CARVE_OPACITY = 0.22;
+const UP = new THREE.Vector3(0, 1, 0);
+const _direction = new THREE.Vector3();
+
+interface Carve {
+  id: number;
+  origin: THREE.Vector3;
+  end: THREE.Vector3;
+  radius: number;
+  endedAt: number | null; // Clock time the shot disappeared
+}
+
+interface HollowPurpleShotsProps {
+  frame: React.MutableRefObject<DrawnFrame>;
+  theme: 'dark' | 'light';
+}
+
+export const HollowPurpleShots = ({ frame, theme }: HollowPurpleShotsProps) => {
+  // Additive glow washes out on the light background
+  const blending = theme === 'dark' ? THREE.AdditiveBlending : THREE.NormalBlending;
+
+  const pool = useMemo(() => {
+    const sphere = new THREE.SphereGeometry(1, 32, 32);
+    // Open-ended unit tube along +Y, from y = 0 to y = 1
+    const tube = new THREE.CylinderGeometry(1, 1, 1, 32, 1, true).translate(0, 0.5, 0);
+
+    const shots = Array.from({ length: MAX_PURPLE_SHOTS }, () => {
+      const group = new THREE.Group();
+      const core = new THREE.Mesh(sphere, new THREE.MeshBasicMaterial({ color: '#f5d0fe', toneMapped: false }));
+      core.scale.setScalar(0.55);
+      const halo = new THREE.Mesh(sphere, new THREE.MeshBasicMaterial({ color: '#a855f7', transparent: true, opacity: 0.45, depthWrite: false, toneMapped: false }));
+      group.add(core, halo);
+      group.visible = false;
+      return group;
+    });
+
+    const carves = Array.from({ length: CARVE_POOL }, () => {
+      const mesh = new THREE.Mesh(tube, new THREE.MeshBasicMaterial({ color: '#7e22ce', transparent: true, opacity: CARVE_OPACITY, side: THREE.DoubleSide, depthWrite: false, toneMapped: false }));
+      mesh.visible = false;
+      mesh.frustumCulled = false;
+      return mesh;
+    });
+
+    return { sphere, tube, shots, carves, active: [] as Carve[] };
+  }, []);
+
+  useEffect(() => () => {
+    pool.sphere.dispose();
+    pool.tube.dispose();
+    for (const group of pool.shots) group.children.forEach(child => ((child as THREE.Mesh).material as THREE.Material).dispose());
+    for (const mesh of pool.carves) (mesh.material as THREE.Material).dispose();
+  }, [pool]);
+
+  useEffect(() => {
+    for (const group of pool.shots) {
+      for (const child of group.children) {
+        const material = (child as THREE.Mesh).material as THREE.Material;
+        material.blending = blending;
+        material.needsUpdate = true;
+      }
+    }
+    for (const mesh of pool.carves) {
+      (mesh.material as THREE.Material).blending = blending;
+      (mesh.material as THREE.Material).needsUpdate = true;
+    }
+  }, [pool, blending]);
+
+  useFrame(({ clock }) => {
+    const now = clock.elapsedTime;
+    const shots = frame.current.shots;
+    const carves = pool.active;
+
+    // Match carves to the shots in flight; shots that are gone start fading
+    for (const carve of carves) {
+      if (carve.endedAt === null && !shots.some(shot => shot.id === carve.id)) carve.endedAt = now;
+    }
+    for (const shot of shots) {
+      let carve = carves.find(c => c.id === shot.id && c.endedAt === null);
+      if (!carve) {
+        if (carves.length >= CARVE_POOL) carves.shift(); // Oldest first
+        carve = { id: shot.id, origin: new THREE.Vector3(shot.origin.x, shot.origin.y, shot.origin.z), end: new THREE.Vector3(), radius: shot.radius, endedAt: null };
+        carves.push(carve);
+      }
+      carve.end.set(shot.x, shot.y, shot.z);
+    }
+    for (let i = carves.length - 1; i >= 0; i--) {
+      const endedAt = carves[i].endedAt;
+      if (endedAt !== null && now - endedAt > CARVE_FADE) carves.splice(i, 1);
+    }
+
+    pool.shots.forEach((group, i) => {
+      const shot = shots[i];
+      group.visible = !!shot;
+      if (!shot) return;
+      group.position.set(shot.x, shot.y, shot.z);
+      group.scale.setScalar(shot.radius * (1 + Math.sin(now * 20) * 0.06));
+    });
+
+    pool.carves.forEach((mesh, i) => {
+      const carve = carves[i];
+      const length = carve ? carve.end.distanceTo(carve.origin) : 0;
+      mesh.visible = length > 0;
+      if (!carve || length === 0) return;
+      mesh.position.copy(carve.origin);
+      mesh.quaternion.setFromUnitVectors(UP, _direction.copy(carve.end).sub(carve.origin).normalize());
+      mesh.scale.set(carve.radius, length, carve.radius);
+      const fade = carve.endedAt === null ? 1 : 1 - (now - carve.endedAt) / CARVE_FADE;
+      (mesh.material as THREE.MeshBasicMaterial).opacity = CARVE_OPACITY * Math.max(0, fade);
+    });
+  });
+
+  return (
+    <group>
+      {pool.carves.map((mesh, i) => <primitive key={`carve-${i}`} object={mesh} />)}
+      {pool.shots.map((group, i) => <primitive key={`shot-${i}`} object={group} />)}
+    </group>
+  );
+};
@@ -1,94 +1,157 @@
-import React, { useRef, useMemo, useState, Suspense, useEffect } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useState, Suspense, useEffect, useLayoutEffect } from 'react';
+import { Canvas, ThreeEvent, useFrame } from '@react-three/fiber';
 import { Stars, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { TechniqueType } from '../types';
+import { TechniqueId } from '../types';
+import { getTechnique, getTechniques, resolveBarrierScale, resolveCameraPath, resolveParams, TechniqueDefinition, useTechniques } from '../techniques';
+import { TechniqueParams } from '../simulation/forces';
+import { AttackPatternId } from '../simulation/patterns';
+import { CollisionMode } from '../simulation/collisions';
+import { PROJECTILE_KINDS, ProjectileKind, ProjectileMix, ProjectileShape, getProjectileKind } from '../simulation/projectileKinds';
+import { createParticlePool, MAX_PROJECTILES } from '../simulation/engine';
+import { SimulationClient, createSimulationClient } from '../simulation/workerClient';
+import { SimulationGroup } from '../simulation/simulationGroup';
+import { SessionFile, SessionRecorder, captureFrame, readFrame } from '../simulation/recording';
+import { TelemetryLog, recordTelemetry } from '../simulation/telemetry';
+import { ProjectileProbe, selectParticle, updateProbe } from '../simulation/probe';
+import { PurpleShot, PurpleShotOptions, PurpleTally, segmentDistanceSq } from '../simulation/hollowPurple';
+import { SceneExporter, ExportJob } from './SceneExporter';
+import { AttackInput } from './AttackInput';
+import { MathRings } from './MathOverlay';
+import { DrawnFrame, PROJECTILE_USER_DATA, ProbeOverlay } from './ProbeOverlay';
+import { CameraRig, CameraSync, CameraView } from './CameraRig';
+import { CARVE_FADE, HollowPurpleShots } from './HollowPurpleShots';
+import { Soundscape } from '../audio/soundscape';
+import { SoundFrame } from '../audio/voices';
+import { DEFAULT_ENERGY_COST, GameState, advanceGame, getGameConfig } from '../simulation/game';
 
 interface InfinitySceneProps {
-  technique: TechniqueType;
+  technique: TechniqueId;
   spawnRate: number; // Attacks per second
+  autoSpawn?: boolean; // False for manual-only mode (click/drag to fire)
+  pattern?: AttackPatternId;
+  patternParams?: TechniqueParams; // Tuned values for the current pattern
+  projectileMix?: ProjectileMix; // Spawn weights per projectile kind
+  collisions?: CollisionMode;
   minSpeed: number;
   maxSpeed: number;
   theme: 'dark' | 'light';
+  params?: TechniqueParams; // Tuned physics values for the current technique
+  seed: number;
+  runId?: number; // Bump to restart the run with the same seed
+  cameraPosition?: [number, number, number];
+  recorder?: SessionRecorder | null;
+  playback?: PlaybackState | null;
+  exportJob?: ExportJob | null;
+  telemetry?: TelemetryLog | null; // Sampled while the live simulation runs
+  probe?: ProjectileProbe | null; // Set while projectiles can be selected (Math Mode or the inspector)
+  showMath?: boolean; // Math Mode radius rings
+  followProbe?: boolean; // Lock the camera to the selected projectile
+  cameraView?: CameraView;
+  onCameraViewChange?: (view: CameraView) => void;
+  onCameraChange?: (position: [number, number, number]) => void; // After the user moves the camera
+  transitionDuration?: number; // Seconds to blend the barrier, visuals and forces when switching technique
+  purpleShot?: PurpleShotOptions | null; // While set, clicks fire Hollow Purple from the barrier instead of projectiles
+  purpleTally?: PurpleTally | null; // Objects erased by fired Hollow Purple this run
+  soundscape?: Soundscape | null; // Fed the projectile events of every drawn frame
+  group?: SimulationGroup | null; // Viewports compared side by side; manual attacks go to all of them
+  cameraSync?: CameraSync | null; // Shares the free camera with the other viewports
+  game?: GameState | null; // Challenge mode in progress; overrides the attack settings with its waves
+  reducedMotion?: boolean; // Tones down projectile shaking, the starfield and other decorative motion
 }
 
-// Data structure for a single projectile (not a React component state)
-interface ProjectileInstance {
-  active: boolean;
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  color: THREE.Color;
-  scale: number;
-  age: number;
+// When set, projectiles are read from a recorded session instead of simulated
+export interface PlaybackState {
+  session: SessionFile;
+  time: number;
 }
 
-const MAX_PROJECTILES = 1000; // Hard cap, but InstancedMesh handles this easily
+// Eases in and out of technique switches
+const smoothstep = (t: number) => {
+  const x = Math.min(Math.max(t, 0), 1);
+  return x * x * (3 - 2 * x);
+};
 
-// --- SPECIALIZED VISUALS FOR HOLLOW PURPLE ---
-const PurpleVortex = ({ theme }: { theme: 'dark' | 'light' }) => {
-  const particlesRef = useRef<THREE.Points>(null);
+const BARRIER_FLARE = 0.8; // Extra emissive intensity halfway through a switch
+const BARRIER_DOWN_SCALE = 0.3; // Share of its size a barrier keeps while down for lack of energy
+const REDUCED_MOTION = 0.15; // Share of shaking and decorative motion kept in reduced-motion mode
 
-  const particleGeo = useMemo(() => {
-    const geo = new THREE.BufferGeometry();
-    const count = 300;
-    const positions = new Float32Array(count * 3);
-    for (let i = 0; i < count; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const radius = 2.0 + Math.random() * 3;
-      positions[i * 3] = Math.cos(angle) * radius;
-      positions[i * 3 + 1] = (Math.random() - 0.5) * 1.0;
-      positions[i * 3 + 2] = Math.sin(angle) * radius;
-    }
-    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    return geo;
-  }, []);
+interface BarrierLook {
+  color: THREE.Color;
+  scale: number;
+  emissive: number;
+}
 
-  useFrame((state) => {
-    const t = state.clock.elapsedTime;
-    if (particlesRef.current) {
-      particlesRef.current.rotation.y = t * 2.0;
+const Barrier = ({ technique, params, theme, transitionDuration, game, motion }: { technique: TechniqueDefinition, params: TechniqueParams, theme: 'dark' | 'light', transitionDuration: number, game?: GameState | null, motion: number }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const shellRef = useRef<THREE.MeshPhysicalMaterial>(null);
+  const coreRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  const color = technique.barrier.color[theme];
+  const scaleBase = resolveBarrierScale(technique, params);
+  const emissiveIntensity = theme === 'dark' ? 0.5 : 0.2;
+
+  // What was last drawn, and where a technique switch started blending from
+  const shown = useMemo<BarrierLook>(() => ({ color: new THREE.Color(color), scale: scaleBase, emissive: emissiveIntensity }), []);
+  const blend = useRef<{ from: BarrierLook, start: number | null } | null>(null);
+  const targetColor = useMemo(() => new THREE.Color(), []);
+  const lastTechnique = useRef(technique);
+  const down = useRef(0); // Eases to 1 while the game has the barrier down
+
+  if (technique !== lastTechnique.current) {
+    lastTechnique.current = technique;
+    blend.current = transitionDuration > 0
+      ? { from: { color: shown.color.clone(), scale: shown.scale, emissive: shown.emissive }, start: null }
+      : null;
+  }
+
+  useFrame((state, delta) => {
+    targetColor.set(color);
+    const current = blend.current;
+    if (current) {
+      // Tuned values and theme changes mid-switch are picked up, since only the start is fixed
+      if (current.start === null) current.start = state.clock.elapsedTime;
+      const progress = Math.min(1, (state.clock.elapsedTime - current.start) / transitionDuration);
+      const k = smoothstep(progress);
+      shown.color.copy(current.from.color).lerp(targetColor, k);
+      shown.scale = current.from.scale + (scaleBase - current.from.scale) * k;
+      shown.emissive = current.from.emissive + (emissiveIntensity - current.from.emissive) * k + Math.sin(progress * Math.PI) * BARRIER_FLARE;
+      if (progress >= 1) blend.current = null;
+    } else {
+      shown.color.copy(targetColor);
+      shown.scale = scaleBase;
+      shown.emissive = emissiveIntensity;
     }
-  });
 
-  return (
-    <points ref={particlesRef} geometry={particleGeo}>
-      <pointsMaterial color={theme === 'dark' ? "#d8b4fe" : "#7e22ce"} size={0.08} transparent opacity={0.6} sizeAttenuation={true} />
-    </points>
-  );
-};
+    down.current += ((game?.barrierDown ? 1 : 0) - down.current) * Math.min(1, delta * 6);
+    const downScale = 1 - down.current * (1 - BARRIER_DOWN_SCALE);
 
-const Barrier = ({ technique, theme }: { technique: TechniqueType, theme: 'dark' | 'light' }) => {
-  const meshRef = useRef<THREE.Mesh>(null);
+    if (shellRef.current) {
+      shellRef.current.color.copy(shown.color);
+      shellRef.current.emissive.copy(shown.color);
+      shellRef.current.emissiveIntensity = shown.emissive * (1 - down.current);
+    }
+    coreRef.current?.color.copy(shown.color);
 
-  useFrame((state, delta) => {
     if (meshRef.current) {
-      meshRef.current.rotation.y += delta * 0.2;
-      meshRef.current.rotation.z += delta * 0.1;
+      meshRef.current.rotation.y += delta * 0.2 * motion;
+      meshRef.current.rotation.z += delta * 0.1 * motion;
 
-      const scaleBase = technique === TechniqueType.RED ? 1.8 : 1.5;
-      const scale = scaleBase + Math.sin(state.clock.elapsedTime * 2) * 0.05;
+      const scale = (shown.scale + Math.sin(state.clock.elapsedTime * 2) * 0.05 * motion) * downScale;
       meshRef.current.scale.set(scale, scale, scale);
     }
   });
 
-  const color = useMemo(() => {
-    switch (technique) {
-      case TechniqueType.BLUE: return '#0ea5e9';
-      case TechniqueType.RED: return '#ef4444';
-      case TechniqueType.PURPLE: return '#a855f7';
-      default: return theme === 'dark' ? '#ffffff' : '#334155';
-    }
-  }, [technique, theme]);
-
   return (
     <group>
       <mesh ref={meshRef}>
         <icosahedronGeometry args={[1, 2]} />
         <meshPhysicalMaterial
+          ref={shellRef}
           color={color}
           wireframe
           emissive={color}
-          emissiveIntensity={theme === 'dark' ? 0.5 : 0.2}
+          emissiveIntensity={emissiveIntensity}
           transparent
           opacity={0.3}
           roughness={0}
@@ -97,326 +160,474 @@ const Barrier = ({ technique, theme }: { technique: TechniqueType, theme: 'dark'
       </mesh>
       <mesh scale={[0.5, 0.5, 0.5]}>
         <sphereGeometry args={[1, 32, 32]} />
-        <meshBasicMaterial color={color} transparent opacity={0.8} />
+        <meshBasicMaterial ref={coreRef} color={color} transparent opacity={0.8} />
       </mesh>
-      {technique === TechniqueType.PURPLE && <PurpleVortex theme={theme} />}
     </group>
   );
 };
 
+// Scales the opacity of every material inside towards 0 while hidden and back to 1 while
+// visible. Each material remembers the opacity it was given, so prop updates still apply.
+const fadeMaterial = (material: THREE.Material, presence: number) => {
+  const data = material.userData;
+  if (data.fadeTransparent === undefined) data.fadeTransparent = material.transparent;
+  if (data.fadeBase === undefined || material.opacity !== data.fadeApplied) data.fadeBase = material.opacity;
+
+  material.opacity = data.fadeBase * presence;
+  data.fadeApplied = material.opacity;
+  const transparent = data.fadeTransparent || presence < 1;
+  if (material.transparent !== transparent) {
+    material.transparent = transparent;
+    material.needsUpdate = true;
+  }
+};
+
+const FadeGroup = ({ visible, duration, children }: { visible: boolean, duration: number, children: React.ReactNode }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const presence = useRef(duration > 0 ? 0 : 1);
+  const applied = useRef<number | null>(null);
+
+  const apply = () => {
+    if (presence.current === applied.current || !groupRef.current) return;
+    applied.current = presence.current;
+    groupRef.current.traverse(object => {
+      const material = (object as THREE.Mesh).material;
+      if (!material) return;
+      for (const m of Array.isArray(material) ? material : [material]) fadeMaterial(m, presence.current);
+    });
+  };
+
+  // Hide the children before their first frame when fading in
+  useLayoutEffect(apply, []);
+
+  useFrame((_, delta) => {
+    const target = visible ? 1 : 0;
+    // Without a duration nothing fades, so exit animations stay visible
+    presence.current = duration > 0
+      ? (target > presence.current ? Math.min(target, presence.current + delta / duration) : Math.max(target, presence.current - delta / duration))
+      : 1;
+    apply();
+  });
+
+  return <group ref={groupRef}>{children}</group>;
+};
+
+// Renders the technique's extra visuals, fading them in and out over the transition. When
+// switching away, the previous technique's visuals stay mounted as inactive for its exit
+// duration (or the transition, if longer) so they can animate out. Techniques with an
+// entrance effect for the one being left play it on top.
+const TechniqueVisuals = ({ technique, params, theme, transitionDuration, motion }: { technique: TechniqueDefinition, params: TechniqueParams, theme: 'dark' | 'light', transitionDuration: number, motion: number }) => {
+  const [current, setCurrent] = useState({ technique, params });
+  const [exiting, setExiting] = useState<{ technique: TechniqueDefinition, params: TechniqueParams, duration: number } | null>(null);
+  const [entrance, setEntrance] = useState<{ technique: TechniqueDefinition, from: TechniqueDefinition, key: number } | null>(null);
+
+  // Derived during render so the outgoing visuals never unmount in between
+  if (technique !== current.technique) {
+    const { Visuals, visualsExitDuration } = current.technique;
+    const exitDuration = Math.max(visualsExitDuration ?? 0, transitionDuration);
+    setExiting(Visuals && exitDuration > 0 ? { ...current, duration: exitDuration } : null);
+    setCurrent({ technique, params });
+    const plays = transitionDuration > 0 && technique.entrance?.from.includes(current.technique.id);
+    setEntrance(plays ? { technique, from: current.technique, key: (entrance?.key ?? 0) + 1 } : null);
+  } else if (params !== current.params) {
+    setCurrent({ technique, params });
+  }
+
+  useEffect(() => {
+    if (!exiting) return;
+    const timer = setTimeout(() => setExiting(null), exiting.duration * 1000);
+    return () => clearTimeout(timer);
+  }, [exiting]);
+
+  useEffect(() => {
+    if (!entrance) return;
+    const timer = setTimeout(() => setEntrance(null), entrance.technique.entrance!.duration * 1000);
+    return () => clearTimeout(timer);
+  }, [entrance]);
+
+  // Keyed siblings in one array, so a technique's visuals keep their state when they start exiting
+  const layers: React.ReactNode[] = [];
+  const ExitingVisuals = exiting?.technique.Visuals;
+  if (exiting && ExitingVisuals && exiting.technique !== technique) {
+    layers.push(
+      <FadeGroup key={exiting.technique.id} visible={false} duration={transitionDuration}>
+        <ExitingVisuals theme={theme} params={exiting.params} active={false} motion={motion} />
+      </FadeGroup>
+    );
+  }
+  const Visuals = technique.Visuals;
+  if (Visuals) {
+    layers.push(
+      <FadeGroup key={technique.id} visible duration={transitionDuration}>
+        <Visuals theme={theme} params={params} active motion={motion} />
+      </FadeGroup>
+    );
+  }
+  const Effect = entrance?.technique.entrance?.Effect;
+  if (entrance && Effect && entrance.technique === technique) {
+    layers.push(<Effect key={`entrance-${entrance.key}`} theme={theme} from={entrance.from} duration={technique.entrance!.duration} />);
+  }
+
+  return <>{layers}</>;
+};
+
+const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+const NO_SHOTS: PurpleShot[] = [];
+
+interface KindMeshes {
+  main: THREE.InstancedMesh | null;
+  trail1: THREE.InstancedMesh | null;
+  trail2: THREE.InstancedMesh | null;
+}
+
+// Geometry for a projectile shape, sized by the kind's radius. Elongated shapes run along +Y.
+const createProjectileGeometry = (shape: ProjectileShape, radius: number): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'shard':
+      return new THREE.OctahedronGeometry(radius, 0).scale(0.6, 1.8, 0.6);
+    case 'boulder':
+      return new THREE.DodecahedronGeometry(radius, 0);
+    case 'bullet':
+      return new THREE.CapsuleGeometry(radius, radius * 4, 4, 8);
+    case 'orb':
+      return new THREE.IcosahedronGeometry(radius, 1);
+    default:
+      return new THREE.SphereGeometry(radius, 16, 16);
+  }
+};
+
+// Instanced meshes for one projectile kind: the projectiles plus two ghost trails.
+// Instance indices are particle slots, so a raycast hit names the projectile directly.
+const ProjectileKindMeshes = ({ kind, meshes, onPick }: { kind: ProjectileKind, meshes: KindMeshes, onPick?: (slot: number) => void }) => {
+  const geometries = useMemo(() => {
+    const main = createProjectileGeometry(kind.shape, kind.radius);
+    return {
+      main,
+      trail1: main.clone().scale(0.9, 0.9, 0.9),
+      trail2: main.clone().scale(0.8, 0.8, 0.8)
+    };
+  }, [kind]);
+
+  const mainRef = useRef<THREE.InstancedMesh>(null);
+  const trailRef1 = useRef<THREE.InstancedMesh>(null);
+  const trailRef2 = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    // Instances start as identity matrices; hide them all so growing the draw count never reveals one
+    for (const mesh of [mainRef.current, trailRef1.current, trailRef2.current]) {
+      if (!mesh) continue;
+      for (let i = 0; i < MAX_PROJECTILES; i++) mesh.setMatrixAt(i, HIDDEN_MATRIX);
+      mesh.count = 0;
+    }
+    meshes.main = mainRef.current;
+    meshes.trail1 = trailRef1.current;
+    meshes.trail2 = trailRef2.current;
+    return () => {
+      meshes.main = meshes.trail1 = meshes.trail2 = null;
+    };
+  }, [meshes, geometries]);
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (e.button !== 0 || e.instanceId === undefined || !onPick) return;
+    e.stopPropagation();
+    onPick(e.instanceId);
+  };
+
+  useEffect(() => () => {
+    geometries.main.dispose();
+    geometries.trail1.dispose();
+    geometries.trail2.dispose();
+  }, [geometries]);
+
+  return (
+    <>
+      {/* Ghost Trails */}
+      <instancedMesh ref={trailRef2} args={[geometries.trail2, undefined, MAX_PROJECTILES]} frustumCulled={false}>
+        <meshBasicMaterial transparent opacity={0.1} toneMapped={false} />
+      </instancedMesh>
+      <instancedMesh ref={trailRef1} args={[geometries.trail1, undefined, MAX_PROJECTILES]} frustumCulled={false}>
+        <meshBasicMaterial transparent opacity={0.25} toneMapped={false} />
+      </instancedMesh>
+
+      {/* Main Projectiles */}
+      <instancedMesh
+        ref={mainRef}
+        args={[geometries.main, undefined, MAX_PROJECTILES]}
+        frustumCulled={false}
+        userData={PROJECTILE_USER_DATA}
+        onPointerDown={onPick ? handlePointerDown : undefined}
+      >
+        <meshStandardMaterial emissiveIntensity={2} toneMapped={false} />
+      </instancedMesh>
+    </>
+  );
+};
+
 const ProjectileSystem = ({
+  simulation,
   technique,
   spawnRate,
+  autoSpawn,
+  pattern,
+  patternParams,
+  projectileMix,
+  collisions,
   minSpeed,
   maxSpeed,
-  theme
+  theme,
+  params,
+  seed,
+  runId,
+  recorder,
+  playback,
+  telemetry,
+  probe,
+  frame,
+  transitionDuration,
+  purpleShot,
+  purpleTally,
+  soundscape,
+  group,
+  game,
+  jitterScale
 }: {
-  technique: TechniqueType,
+  simulation: SimulationClient,
+  technique: TechniqueId,
   spawnRate: number,
+  autoSpawn?: boolean,
+  pattern?: AttackPatternId,
+  patternParams?: TechniqueParams,
+  projectileMix?: ProjectileMix,
+  collisions?: CollisionMode,
   minSpeed: number,
   maxSpeed: number,
-  theme: 'dark' | 'light'
+  theme: 'dark' | 'light',
+  params?: TechniqueParams,
+  seed: number,
+  runId?: number,
+  recorder?: SessionRecorder | null,
+  playback?: PlaybackState | null,
+  telemetry?: TelemetryLog | null,
+  probe?: ProjectileProbe | null,
+  frame: React.MutableRefObject<DrawnFrame>,
+  transitionDuration: number,
+  purpleShot?: PurpleShotOptions | null,
+  purpleTally?: PurpleTally | null,
+  soundscape?: Soundscape | null,
+  group?: SimulationGroup | null,
+  game?: GameState | null,
+  jitterScale: number
 }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
-  const trailRef1 = useRef<THREE.InstancedMesh>(null);
-  const trailRef2 = useRef<THREE.InstancedMesh>(null);
-
-  const timeSinceLastSpawn = useRef(0);
-  const nextSpawnInterval = useRef(0);
-
-  // The pool of projectile data
-  const instances = useRef<ProjectileInstance[]>([]);
-
-  // Initialize pool
-  useMemo(() => {
-    instances.current = [];
-    for (let i = 0; i < MAX_PROJECTILES; i++) {
-      instances.current.push({
-        active: false,
-        position: new THREE.Vector3(),
-        velocity: new THREE.Vector3(),
-        color: new THREE.Color(),
-        scale: 1,
-        age: 0
-      });
-    }
+  // Main mesh and ghost trails for every projectile kind
+  const meshes = useMemo(() => {
+    const entries = PROJECTILE_KINDS.map(kind => [kind.id, { main: null, trail1: null, trail2: null } as KindMeshes]);
+    return Object.fromEntries(entries) as Record<string, KindMeshes>;
   }, []);
+  // Highest instance slot used so far; meshes only draw up to here
+  const instanceCount = useRef(0);
+
+  const projectileColor = theme === 'dark' ? '#ffffff' : '#1e293b';
+
+  // The game's waves replace the attack settings; the frame loop pushes its later changes
+  const pushedGameVersion = useRef(-1);
+  useEffect(() => {
+    simulation.configure({
+      technique, spawnRate, autoSpawn, pattern, patternParams, projectileMix, collisions, minSpeed, maxSpeed, projectileColor, params, transitionDuration,
+      jitterScale, barrierDown: false, coreRadius: 0,
+      ...(game ? getGameConfig(game) : {})
+    }, group?.syncTime());
+    pushedGameVersion.current = game ? game.version : -1;
+  }, [simulation, technique, spawnRate, autoSpawn, pattern, patternParams, projectileMix, collisions, minSpeed, maxSpeed, projectileColor, params, transitionDuration, jitterScale, game, group]);
+
+  // A new seed (or an explicit restart) starts a fresh, reproducible run
+  useEffect(() => {
+    simulation.reset(seed);
+    if (purpleTally) purpleTally.ambient = 0;
+  }, [simulation, seed, runId]);
+
+  // Only what happens from here on is scored. After the reset above, so a game started with
+  // a restart counts from the new run's empty totals
+  useEffect(() => {
+    if (game) game.seen = { erasedCount: simulation.snapshot.erasedCount, reflectedCount: simulation.snapshot.reflectedCount, coreHits: simulation.snapshot.coreHits };
+  }, [simulation, game]);
+
+  // Separate pool for recorded projectiles so playback never touches the live run
+  const playbackParticles = useMemo(() => createParticlePool(), []);
+  const playbackRef = useRef(playback);
+  playbackRef.current = playback;
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
+  const telemetryRef = useRef(telemetry);
+  telemetryRef.current = telemetry;
+  const probeRef = useRef(probe);
+  probeRef.current = probe;
+  const tallyRef = useRef(purpleTally);
+  tallyRef.current = purpleTally;
+  const soundscapeRef = useRef(soundscape);
+  soundscapeRef.current = soundscape;
+  const gameRef = useRef(game);
+  gameRef.current = game;
+  const energyCost = getTechnique(technique)?.energyCost ?? DEFAULT_ENERGY_COST;
+  const energyCostRef = useRef(energyCost);
+  energyCostRef.current = energyCost;
+  // Event totals at the last sound update, and the time since
+  const heard = useRef({ reflected: 0, erased: 0, delta: 0 });
+  const pickSlot = (slot: number) => {
+    if (probe) selectParticle(probe, frame.current.particles, slot, frame.current.time);
+  };
 
   // Reusable objects to avoid GC
   const dummy = useMemo(() => new THREE.Object3D(), []);
-  const _position = useMemo(() => new THREE.Vector3(), []);
-  const _velocity = useMemo(() => new THREE.Vector3(), []);
   const _color = useMemo(() => new THREE.Color(), []);
-
-  if (nextSpawnInterval.current === 0) {
-    nextSpawnInterval.current = 1 / (spawnRate || 1);
-  }
+  const _direction = useMemo(() => new THREE.Vector3(), []);
+  const soundFrame = useMemo<SoundFrame>(() => ({ delta: 0, activeCount: 0, averageSpeed: 0, approachSpeed: 0, reflections: 0, erasures: 0 }), []);
 
   useFrame((state, delta) => {
-    if (!meshRef.current || !trailRef1.current || !trailRef2.current) return;
-
-    const safeDelta = Math.min(delta, 0.1);
-    const now = state.clock.elapsedTime;
-
-    // --- Update Trails (Shift History) ---
-    // Copy Trail 1 -> Trail 2
-    trailRef2.current.instanceMatrix.array.set(trailRef1.current.instanceMatrix.array);
-    // Copy Main -> Trail 1
-    trailRef1.current.instanceMatrix.array.set(meshRef.current.instanceMatrix.array);
-
-    trailRef2.current.instanceMatrix.needsUpdate = true;
-    trailRef1.current.instanceMatrix.needsUpdate = true;
-
-    // Copy colors if needed (though they are static per instance usually)
-    if (meshRef.current.instanceColor && trailRef1.current.instanceColor && trailRef2.current.instanceColor) {
-      trailRef2.current.instanceColor.array.set(trailRef1.current.instanceColor.array);
-      trailRef1.current.instanceColor.array.set(meshRef.current.instanceColor.array);
-      trailRef2.current.instanceColor.needsUpdate = true;
-      trailRef1.current.instanceColor.needsUpdate = true;
-    }
-
-    // --- Spawning ---
-    if (spawnRate > 0) {
-      timeSinceLastSpawn.current += safeDelta;
-      if (timeSinceLastSpawn.current >= nextSpawnInterval.current) {
-        // Find first inactive slot
-        const slot = instances.current.find(p => !p.active);
-        if (slot) {
-          const angle = Math.random() * Math.PI * 2;
-          const radius = 14;
-
-          slot.active = true;
-          slot.position.set(
-            Math.cos(angle) * radius,
-            (Math.random() - 0.5) * 12,
-            Math.sin(angle) * radius
-          );
-
-          const direction = new THREE.Vector3(0, 0, 0).sub(slot.position).normalize();
-          const speed = minSpeed + Math.random() * (maxSpeed - minSpeed);
-
-          slot.velocity.copy(direction.multiplyScalar(speed));
-
-          // UPDATED COLOR LOGIC
-          slot.color.set(theme === 'dark' ? '#ffffff' : '#1e293b');
-
-          slot.scale = 1;
-          slot.age = 0;
+    const kindMeshes = PROJECTILE_KINDS.map(kind => meshes[kind.id]);
+    if (kindMeshes.some(m => !m.main || !m.trail1 || !m.trail2)) return;
+
+    // Never negative: a clock moved back (e.g. by a video export) would wind the simulation back
+    const safeDelta = Math.min(Math.max(delta, 0), 0.1);
+    heard.current.delta += safeDelta;
+
+    let particles = simulation.snapshot.particles;
+    let time: number;
+    const currentPlayback = playbackRef.current;
+    if (currentPlayback) {
+      readFrame(currentPlayback.session, currentPlayback.time, playbackParticles);
+      particles = playbackParticles;
+      time = currentPlayback.time;
+    } else {
+      const changed = simulation.update(safeDelta);
+      // Every rendered frame counts towards FPS, even when the worker is still stepping
+      if (telemetryRef.current) recordTelemetry(telemetryRef.current, delta, simulation.snapshot);
+      const currentGame = gameRef.current;
+      if (currentGame) {
+        advanceGame(currentGame, safeDelta, energyCostRef.current, simulation.snapshot);
+        if (currentGame.version !== pushedGameVersion.current) {
+          simulation.configure(getGameConfig(currentGame));
+          pushedGameVersion.current = currentGame.version;
         }
-
-        const baseInterval = 1 / spawnRate;
-        const variation = baseInterval * 0.3;
-        nextSpawnInterval.current = baseInterval + (Math.random() * variation * 2 - variation);
-        timeSinceLastSpawn.current = 0;
       }
+      // Nothing to draw until the worker has delivered a new frame
+      if (!changed) return;
+      if (recorderRef.current) captureFrame(recorderRef.current, simulation.snapshot);
+      if (tallyRef.current) tallyRef.current.projectiles = simulation.snapshot.purpleErasedCount;
+      time = simulation.snapshot.time;
     }
 
-    // --- Physics & Update ---
-    let trappedCount = 0;
-    let activeCount = 0;
+    frame.current.particles = particles;
+    frame.current.time = time;
+    frame.current.shots = currentPlayback ? NO_SHOTS : simulation.snapshot.purpleShots;
+    if (probeRef.current) updateProbe(probeRef.current, particles, time);
 
-    // First pass: count active and trapped (for Blue technique)
-    for (let i = 0; i < MAX_PROJECTILES; i++) {
-      if (instances.current[i].active) {
-        activeCount++;
-        if (technique === TechniqueType.BLUE && instances.current[i].position.lengthSq() < 6.25) {
-          trappedCount++;
-        }
+    // --- Update Trails (Shift History) ---
+    // Only the slots in use are copied, the rest stay hidden
+    const matrixLength = instanceCount.current * 16;
+    const colorLength = instanceCount.current * 3;
+    for (const m of kindMeshes) {
+      const main = m.main!, trail1 = m.trail1!, trail2 = m.trail2!;
+      // Copy Trail 1 -> Trail 2, Main -> Trail 1
+      trail2.instanceMatrix.array.set(trail1.instanceMatrix.array.subarray(0, matrixLength));
+      trail1.instanceMatrix.array.set(main.instanceMatrix.array.subarray(0, matrixLength));
+      trail2.instanceMatrix.needsUpdate = true;
+      trail1.instanceMatrix.needsUpdate = true;
+
+      if (main.instanceColor && trail1.instanceColor && trail2.instanceColor) {
+        trail2.instanceColor.array.set(trail1.instanceColor.array.subarray(0, colorLength));
+        trail1.instanceColor.array.set(main.instanceColor.array.subarray(0, colorLength));
+        trail2.instanceColor.needsUpdate = true;
+        trail1.instanceColor.needsUpdate = true;
       }
     }
 
-    const isCrowded = activeCount > 40;
-
-    // Second pass: Update physics and matrices
-    for (let i = 0; i < MAX_PROJECTILES; i++) {
-      const p = instances.current[i];
+    for (let i = particles.length - 1; i >= instanceCount.current; i--) {
+      if (particles[i].active) {
+        instanceCount.current = i + 1;
+        break;
+      }
+    }
+    const count = instanceCount.current;
 
-      if (!p.active) {
-        // Hide inactive instances
-        dummy.position.set(0, 0, 0);
-        dummy.scale.set(0, 0, 0);
+    // --- Sync instances from simulation ---
+    let speedTotal = 0;
+    let drawnCount = 0;
+    for (let i = 0; i < count; i++) {
+      const p = particles[i];
+
+      if (p.active) {
+        speedTotal += p.speed;
+        drawnCount++;
+        dummy.position.set(p.x, p.y, p.z);
+        dummy.scale.set(p.scale, p.scale, p.scale);
+        // Point elongated shapes along the direction of travel
+        _direction.set(p.vx, p.vy, p.vz);
+        if (_direction.lengthSq() > 0) dummy.quaternion.setFromUnitVectors(THREE.Object3D.DEFAULT_UP, _direction.normalize());
+        else dummy.quaternion.identity();
         dummy.updateMatrix();
-        meshRef.current.setMatrixAt(i, dummy.matrix);
-        continue;
+        _color.set(currentPlayback ? (getProjectileKind(p.kind)?.color ?? projectileColor) : p.color);
       }
 
-      // Physics Logic (Ported from original)
-      const distSq = p.position.lengthSq();
-      const dist = Math.sqrt(distSq);
-
-      // Clone velocity for calculations
-      _velocity.copy(p.velocity);
-      let moveVec = _velocity.clone().multiplyScalar(safeDelta);
-
-      if (technique === TechniqueType.NEUTRAL) {
-        const interactionRadius = 3.5;
-        const stoppingRadius = 1.35;
-
-        if (dist < interactionRadius) {
-          const d = Math.max(0, dist - stoppingRadius);
-          const range = interactionRadius - stoppingRadius;
-          const ratio = d / range;
-          const speedFactor = Math.pow(ratio, 3);
-
-          moveVec.multiplyScalar(Math.max(0.0001, speedFactor));
-
-          if (ratio < 0.3 && ratio > 0.0) {
-            const vibrationIntensity = 0.08 * (1 - (ratio / 0.3));
-            moveVec.add(new THREE.Vector3(
-              (Math.random() - 0.5) * vibrationIntensity,
-              (Math.random() - 0.5) * vibrationIntensity,
-              (Math.random() - 0.5) * vibrationIntensity
-            ));
-          }
-
-          if (isCrowded) {
-            if (ratio < 0.5) p.scale *= 0.90;
-          } else {
-            if (ratio < 0.1) p.scale *= 0.995;
-          }
-        }
-      } else if (technique === TechniqueType.BLUE) {
-        const coreRadius = 2.0;
-        const attractionRadius = 15.0;
-
-        if (dist < attractionRadius) {
-          const pullDir = dist > 0.1 ? p.position.clone().normalize().negate() : new THREE.Vector3(0, 0, 0);
-          const pullStrength = 20;
-          _velocity.add(pullDir.multiplyScalar(pullStrength * safeDelta));
-        }
-
-        if (dist < coreRadius + 1.0) {
-          _velocity.multiplyScalar(0.85);
-          const range = coreRadius + 1.0;
-          const closeness = Math.max(0, 1 - (dist / range));
-          const shakeIntensity = 0.05 + Math.pow(closeness, 4) * 0.6;
-          moveVec.add(new THREE.Vector3(
-            (Math.random() - 0.5) * shakeIntensity,
-            (Math.random() - 0.5) * shakeIntensity,
-            (Math.random() - 0.5) * shakeIntensity
-          ));
-        }
-
-        const shrinkThreshold = 8;
-        if (trappedCount > shrinkThreshold && dist < coreRadius + 0.5) {
-          const excess = trappedCount - shrinkThreshold;
-          const shrinkFactor = 0.99 - (Math.min(excess, 50) * 0.005);
-          p.scale *= Math.max(0.8, shrinkFactor);
+      for (const kind of PROJECTILE_KINDS) {
+        const mesh = meshes[kind.id].main!;
+        if (p.active && p.kind === kind.id) {
+          mesh.setMatrixAt(i, dummy.matrix);
+          mesh.setColorAt(i, _color);
+        } else {
+          // Hide instances that are inactive or belong to another kind
+          mesh.setMatrixAt(i, HIDDEN_MATRIX);
         }
-
-        moveVec = _velocity.clone().multiplyScalar(safeDelta);
-        if (p.scale < 0.1) p.active = false;
-
-      } else if (technique === TechniqueType.RED) {
-        const repulsionRadius = 4.5;
-        const coreRadius = 1.5;
-
-        if (dist < repulsionRadius) {
-          const dirOut = dist > 0.01 ? p.position.clone().normalize() : new THREE.Vector3(1, 0, 0);
-          const approachSpeed = -_velocity.dot(dirOut);
-          const rawDepth = Math.max(0, (dist - coreRadius) / (repulsionRadius - coreRadius));
-          const depth = 1 - rawDepth;
-
-          const intensity = Math.pow(depth, 3);
-          const staticForce = 80 * intensity;
-
-          let reflectionForce = 0;
-          if (approachSpeed > 0) {
-            reflectionForce = approachSpeed * (1 + 40 * intensity);
-          }
-
-          const totalForce = (staticForce + reflectionForce) * safeDelta;
-
-          if (!isNaN(totalForce) && isFinite(totalForce)) {
-            _velocity.add(dirOut.multiplyScalar(totalForce));
-            moveVec = _velocity.clone().multiplyScalar(safeDelta);
-          }
-
-          if (dist < coreRadius + 0.2) {
-            const pushOut = dirOut.multiplyScalar(coreRadius + 0.2);
-            moveVec.add(pushOut.sub(p.position));
-
-            if (approachSpeed > 0) {
-              const currentSpeed = _velocity.length();
-              _velocity.copy(dirOut.multiplyScalar(currentSpeed * 0.8));
-            }
-          }
-        }
-      } else if (technique === TechniqueType.PURPLE) {
-        const inward = p.position.clone().normalize().negate();
-        const up = new THREE.Vector3(0, 1, 0);
-        let tangent = new THREE.Vector3().crossVectors(up, p.position).normalize();
-        if (tangent.lengthSq() < 0.001) tangent = new THREE.Vector3(1, 0, 0);
-
-        const factor = Math.max(1, 15 - dist);
-        const speed = 15 + factor * 2;
-
-        const curveRatio = 0.25;
-        const direction = inward.clone().multiplyScalar(1 - curveRatio)
-          .add(tangent.multiplyScalar(curveRatio))
-          .normalize();
-
-        _velocity.copy(direction.multiplyScalar(speed));
-
-        const shakeIntensity = 0.5 + (10 - dist) * 0.2;
-        const jitter = new THREE.Vector3(
-          (Math.random() - 0.5) * shakeIntensity,
-          (Math.random() - 0.5) * shakeIntensity,
-          (Math.random() - 0.5) * shakeIntensity
-        );
-
-        moveVec = _velocity.clone().multiplyScalar(safeDelta).add(jitter);
-
-        if (dist < 3.0) p.scale *= 0.85;
-        if (p.scale < 0.05 || dist < 0.2) p.active = false;
       }
+    }
 
-      // Apply updates
-      p.velocity.copy(_velocity);
-      p.position.add(moveVec);
-      p.age += safeDelta;
-
-      // Bounds check
-      if (p.position.length() > 30 || p.scale < 0.01 || isNaN(p.position.x)) {
-        p.active = false;
-        continue;
-      }
-
-      // Update Matrix
-      dummy.position.copy(p.position);
-      dummy.scale.set(p.scale, p.scale, p.scale);
-      dummy.updateMatrix();
-
-      meshRef.current.setMatrixAt(i, dummy.matrix);
-      meshRef.current.setColorAt(i, p.color);
+    for (const m of kindMeshes) {
+      m.main!.count = m.trail1!.count = m.trail2!.count = count;
+      m.main!.instanceMatrix.needsUpdate = true;
+      if (m.main!.instanceColor) m.main!.instanceColor.needsUpdate = true;
+      // Raycasts test the cached bounds first; drop them so they follow the projectiles
+      if (probeRef.current) m.main!.boundingSphere = null;
     }
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
-    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+    const sound = soundscapeRef.current;
+    if (sound) {
+      const last = heard.current;
+      const { reflectedCount, erasedCount, approachSpeed } = simulation.snapshot;
+      // Recordings carry no events, only what is on screen
+      const live = !currentPlayback;
+      soundFrame.delta = last.delta;
+      soundFrame.activeCount = drawnCount;
+      soundFrame.averageSpeed = drawnCount > 0 ? speedTotal / drawnCount : 0;
+      soundFrame.approachSpeed = live ? approachSpeed : 0;
+      // Totals restart with the run, so a total going down means everything is new
+      soundFrame.reflections = live ? (reflectedCount >= last.reflected ? reflectedCount - last.reflected : reflectedCount) : 0;
+      soundFrame.erasures = live ? (erasedCount >= last.erased ? erasedCount - last.erased : erasedCount) : 0;
+      sound.update(soundFrame);
+      last.reflected = reflectedCount;
+      last.erased = erasedCount;
+      last.delta = 0;
+    }
   });
 
   return (
     <group>
-      {/* Ghost Trails */}
-      <instancedMesh ref={trailRef2} args={[undefined, undefined, MAX_PROJECTILES]}>
-        <sphereGeometry args={[0.12, 16, 16]} />
-        <meshBasicMaterial transparent opacity={0.1} toneMapped={false} />
-      </instancedMesh>
-      <instancedMesh ref={trailRef1} args={[undefined, undefined, MAX_PROJECTILES]}>
-        <sphereGeometry args={[0.135, 16, 16]} />
-        <meshBasicMaterial transparent opacity={0.25} toneMapped={false} />
-      </instancedMesh>
-
-      {/* Main Projectiles */}
-      <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_PROJECTILES]}>
-        <sphereGeometry args={[0.15, 16, 16]} />
-        <meshStandardMaterial emissiveIntensity={2} toneMapped={false} />
-      </instancedMesh>
+      {PROJECTILE_KINDS.map(kind => (
+        <ProjectileKindMeshes key={kind.id} kind={kind} meshes={meshes[kind.id]} onPick={probe ? pickSlot : undefined} />
+      ))}
+
+      {/* While selecting, clicks pick projectiles instead of firing */}
+      {probe ? (
+        <ProbeOverlay probe={probe} frame={frame} />
+      ) : (
+        <AttackInput simulation={group ?? simulation} enabled={!playback && !game} purpleShot={purpleShot} />
+      )}
     </group>
   );
 };
 
-const FloatingParticles = ({ theme }: { theme: 'dark' | 'light' }) => {
+const AMBIENT_RADIUS = 0.2;
+const AMBIENT_REGROW = 1; // Seconds an erased particle takes to grow back once its carve has faded
+
+const FloatingParticles = ({ theme, color, opacity: opacityOverride, frame, tally, motion }: { theme: 'dark' | 'light', color?: string, opacity?: number, frame: React.MutableRefObject<DrawnFrame>, tally?: PurpleTally | null, motion: number }) => {
   const count = theme === 'dark' ? 100 : 30;
   const mesh = useRef<THREE.InstancedMesh>(null);
   const dummy = useMemo(() => new THREE.Object3D(), []);
@@ -430,23 +641,48 @@ const FloatingParticles = ({ theme }: { theme: 'dark' | 'light' }) => {
       const x = (Math.random() - 0.5) * 50;
       const y = (Math.random() - 0.5) * 50;
       const z = (Math.random() - 0.5) * 50;
-      temp.push({ t, factor, speed, x, y, z });
+      temp.push({ t, factor, speed, x, y, z, erasedAt: null as number | null });
     }
     return temp;
   }, []);
+  const sweepStart = useMemo(() => ({ x: 0, y: 0, z: 0 }), []);
 
-  useFrame(() => {
+  useFrame(({ clock }, delta) => {
     if (!mesh.current) return;
+    const now = clock.elapsedTime;
+    const shots = frame.current.shots;
     particles.slice(0, count).forEach((particle, i) => {
-      particle.t += particle.speed / 2;
+      particle.t += (particle.speed / 2) * motion;
       const t = particle.t;
       const { factor, x, y, z } = particle;
-      const s = Math.cos(t);
+      let s = Math.cos(t);
       dummy.position.set(
         x + Math.cos((t / 10) * factor) + (Math.sin(t * 1) * factor) / 10,
         y + Math.sin((t / 10) * factor) + (Math.cos(t * 2) * factor) / 10,
         z + Math.cos((t / 10) * factor) + (Math.sin(t * 3) * factor) / 10
       );
+
+      // Fired Hollow Purple erases what it sweeps through; erased particles return with the carve gone
+      if (particle.erasedAt === null) {
+        for (const shot of shots) {
+          const travel = shot.speed * Math.max(delta, 1 / 30);
+          sweepStart.x = shot.x - shot.direction.x * travel;
+          sweepStart.y = shot.y - shot.direction.y * travel;
+          sweepStart.z = shot.z - shot.direction.z * travel;
+          const reach = shot.radius + AMBIENT_RADIUS;
+          if (segmentDistanceSq(dummy.position.x, dummy.position.y, dummy.position.z, sweepStart, shot.direction, travel) < reach * reach) {
+            particle.erasedAt = now;
+            if (tally) tally.ambient++;
+            break;
+          }
+        }
+      }
+      if (particle.erasedAt !== null) {
+        const regrow = (now - particle.erasedAt - CARVE_FADE) / AMBIENT_REGROW;
+        if (regrow >= 1) particle.erasedAt = null;
+        else s *= Math.max(0, regrow);
+      }
+
       dummy.scale.set(s, s, s);
       dummy.rotation.set(s * 5, s * 5, s * 5);
       dummy.updateMatrix();
@@ -455,8 +691,8 @@ const FloatingParticles = ({ theme }: { theme: 'dark' | 'light' }) => {
     mesh.current.instanceMatrix.needsUpdate = true;
   });
 
-  const particleColor = theme === 'dark' ? '#203050' : '#94a3b8';
-  const opacity = theme === 'dark' ? 0.5 : 0.15;
+  const particleColor = color ?? (theme === 'dark' ? '#203050' : '#94a3b8');
+  const opacity = opacityOverride ?? (theme === 'dark' ? 0.5 : 0.15);
 
   return (
     <instancedMesh ref={mesh} args={[undefined, undefined, count]}>
@@ -469,36 +705,115 @@ const FloatingParticles = ({ theme }: { theme: 'dark' | 'light' }) => {
 export const InfinityScene: React.FC<InfinitySceneProps> = ({
   technique,
   spawnRate,
+  autoSpawn = true,
+  pattern,
+  patternParams,
+  projectileMix,
+  collisions = 'off',
   minSpeed,
   maxSpeed,
-  theme
+  theme,
+  params,
+  seed,
+  runId,
+  cameraPosition = [0, 0, 14],
+  recorder,
+  playback,
+  exportJob,
+  telemetry,
+  probe,
+  showMath,
+  followProbe,
+  cameraView = 'free',
+  onCameraViewChange,
+  onCameraChange,
+  transitionDuration = 0,
+  purpleShot,
+  purpleTally,
+  soundscape,
+  group,
+  cameraSync,
+  game,
+  reducedMotion = false
 }) => {
+  const definition = getTechnique(technique) ?? getTechniques()[0];
   const bgColor = theme === 'dark' ? '#050510' : '#f8fafc';
-  const textColor = theme === 'dark' ? 'white' : '#0f172a';
+  const environment = definition.environment;
+  const techniqueParams = useMemo(() => resolveParams(definition, params), [definition, params]);
+  const textColor = environment?.textColor ?? (theme === 'dark' ? 'white' : '#0f172a');
+  const motion = reducedMotion ? REDUCED_MOTION : 1;
+
+  // The simulation runs in a worker. The client is created in an effect so it is torn
+  // down with the scene; props are applied by ProjectileSystem once it exists. A technique
+  // registered later may need the main-thread client, so registrations start a new one.
+  const techniques = useTechniques();
+  const [simulation, setSimulation] = useState<SimulationClient | null>(null);
+  useEffect(() => {
+    const client = createSimulationClient({ technique, spawnRate, minSpeed, maxSpeed, projectileColor: '#ffffff' }, { seed });
+    setSimulation(client);
+    return () => client.dispose();
+  }, [techniques]);
+
+  useEffect(() => {
+    if (group && simulation) return group.add(simulation);
+  }, [group, simulation]);
+
+  // Shared by picking and the camera, which both need what is on screen right now
+  const drawnFrame = useRef<DrawnFrame>({ particles: [], time: 0, shots: NO_SHOTS });
 
   return (
     <div className="absolute inset-0 z-0">
-      <Canvas camera={{ position: [0, 0, 14], fov: 45 }} resize={{ scroll: false }} dpr={[1, 2]}>
+      <Canvas camera={{ position: cameraPosition, fov: 45 }} resize={{ scroll: false }} dpr={[1, 2]}>
         <color attach="background" args={[bgColor]} />
         <ambientLight intensity={theme === 'dark' ? 0.5 : 0.8} />
         <pointLight position={[10, 10, 10]} intensity={1} />
-        <pointLight position={[-10, -10, -10]} intensity={0.5} color={technique === TechniqueType.RED ? "#ff0000" : "#0000ff"} />
+        <pointLight position={[-10, -10, -10]} intensity={0.5} color={definition.lightColor} />
 
         {theme === 'dark' && (
-          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={motion} />
         )}
 
-        <FloatingParticles theme={theme} />
+        <FloatingParticles theme={theme} color={environment?.particleColor} opacity={environment?.particleOpacity} frame={drawnFrame} tally={purpleTally} motion={motion} />
+
+        <Barrier technique={definition} params={techniqueParams} theme={theme} transitionDuration={transitionDuration} game={game} motion={motion} />
+        <TechniqueVisuals technique={definition} params={techniqueParams} theme={theme} transitionDuration={transitionDuration} motion={motion} />
+
+        {simulation && (
+          <ProjectileSystem
+            simulation={simulation}
+            technique={technique}
+            spawnRate={spawnRate}
+            autoSpawn={autoSpawn}
+            pattern={pattern}
+            patternParams={patternParams}
+            projectileMix={projectileMix}
+            collisions={collisions}
+            minSpeed={minSpeed}
+            maxSpeed={maxSpeed}
+            theme={theme}
+            params={params}
+            seed={seed}
+            runId={runId}
+            recorder={recorder}
+            playback={playback}
+            telemetry={telemetry}
+            probe={probe}
+            frame={drawnFrame}
+            transitionDuration={transitionDuration}
+            purpleShot={purpleShot}
+            purpleTally={purpleTally}
+            soundscape={soundscape}
+            group={group}
+            game={game}
+            jitterScale={motion}
+          />
+        )}
 
-        <Barrier technique={technique} theme={theme} />
+        <HollowPurpleShots frame={drawnFrame} theme={theme} />
 
-        <ProjectileSystem
-          technique={technique}
-          spawnRate={spawnRate}
-          minSpeed={minSpeed}
-          maxSpeed={maxSpeed}
-          theme={theme}
-        />
+        {showMath && definition.math && (
+          <MathRings math={definition.math} params={techniqueParams} theme={theme} />
+        )}
 
         <Suspense fallback={null}>
           <Text
@@ -509,9 +824,23 @@ export const InfinityScene: React.FC<InfinitySceneProps> = ({
             anchorY="middle"
             font="https://fonts.gstatic.com/s/zenantique/v5/K2FjfZRStk_uX5frg3-p91R9.woff"
           >
-            {technique.toUpperCase()}
+            {definition.name.toUpperCase()}
           </Text>
         </Suspense>
+
+        <CameraRig
+          view={cameraView}
+          path={resolveCameraPath(definition)}
+          frame={drawnFrame}
+          follow={followProbe && probe ? probe : null}
+          playbackTime={playback ? playback.time : null}
+          exportJob={exportJob ?? null}
+          onViewChange={(view) => onCameraViewChange?.(view)}
+          onCameraChange={onCameraChange}
+          sync={cameraSync ?? null}
+        />
+
+        <SceneExporter job={exportJob ?? null} beforeFrame={simulation?.settled} />
       </Canvas>
     </div>
   );
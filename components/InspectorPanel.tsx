@@ -0,0 +1,104 @@
+import React, { useCallback } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { TechniqueDefinition, resolveBarrierScale } from '../techniques';
+import { TechniqueParams } from '../simulation/forces';
+import { ProjectileProbe, clearSelection } from '../simulation/probe';
+import { getProjectileKind } from '../simulation/projectileKinds';
+import { usePolledSnapshot } from './usePolledSnapshot';
+
+interface InspectorPanelProps {
+  theme: 'dark' | 'light';
+  technique: TechniqueDefinition;
+  params: TechniqueParams; // Resolved values the scene is using
+  probe: ProjectileProbe;
+  isOpen: boolean;
+  onToggle: () => void;
+  follow: boolean;
+  onFollowChange: (follow: boolean) => void;
+}
+
+interface Stats {
+  kind: string;
+  mass: number;
+  age: number;
+  speed: number;
+  distance: number;
+  force: number;
+  points: number;
+}
+
+const REFRESH_MS = 100;
+
+export const InspectorPanel: React.FC<InspectorPanelProps> = ({ theme, technique, params, probe, isOpen, onToggle, follow, onFollowChange }) => {
+  // The probe is refreshed from the render loop
+  const [stats, refreshStats] = usePolledSnapshot(useCallback((): Stats | null => (probe.slot === null ? null : {
+    kind: probe.kind,
+    mass: probe.mass,
+    age: probe.age,
+    speed: probe.speed,
+    distance: probe.distance,
+    force: probe.force,
+    points: probe.historyLength
+  }), [probe]), REFRESH_MS, isOpen);
+  const isDark = theme === 'dark';
+
+  const buttonClass = `p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+  const barrierRadius = resolveBarrierScale(technique, params);
+  const curve = technique.math?.curves[0];
+
+  const handleClear = () => {
+    clearSelection(probe);
+    refreshStats();
+  };
+
+  return (
+    <div className="absolute top-20 right-6 z-10 flex flex-col items-end gap-2">
+      <button onClick={onToggle} className={buttonClass} title={isOpen ? 'Close Inspector' : 'Inspect Projectiles'}>
+        {isOpen ? <X size={20} /> : <Crosshair size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className={`w-64 p-4 rounded-2xl border space-y-3 text-xs backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`}>
+          <div className="font-bold uppercase tracking-wider">Inspector</div>
+
+          {stats ? (
+            <>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1 font-mono">
+                <span className="opacity-60">Kind</span>
+                <span>{getProjectileKind(stats.kind)?.label ?? stats.kind}</span>
+                <span className="opacity-60">Mass</span>
+                <span>{stats.mass.toFixed(2)}</span>
+                <span className="opacity-60">Age</span>
+                <span>{stats.age.toFixed(2)}s</span>
+                <span className="opacity-60">Speed</span>
+                <span>{stats.speed.toFixed(2)} u/s</span>
+                <span className="opacity-60">To Barrier</span>
+                <span>{Math.max(0, stats.distance - barrierRadius).toFixed(2)}</span>
+                <span className="opacity-60">Force</span>
+                <span>{stats.force.toFixed(2)}</span>
+                {curve && (
+                  <>
+                    <span className="opacity-60 truncate" title={curve.label}>{curve.label}</span>
+                    <span>{curve.value(stats.distance, params).toFixed(3)}</span>
+                  </>
+                )}
+                <span className="opacity-60">Trajectory</span>
+                <span>{stats.points} pts</span>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={follow} onChange={(e) => onFollowChange(e.target.checked)} className="accent-sky-500" />
+                  Follow with camera
+                </label>
+                <button onClick={handleClear} className="opacity-60 hover:opacity-100 underline">Clear</button>
+              </div>
+            </>
+          ) : (
+            <p className="opacity-60">Click a projectile in the scene to inspect it.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { Billboard, Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { TechniqueMath } from '../techniques';
+import { TechniqueParams } from '../simulation/forces';
+
+// Math Mode overlay inside the scene: rings at the radii where the technique's behaviour
+// changes. Following a projectile is handled by ProbeOverlay.
+
+const RING_SEGMENTS = 96;
+
+const circlePoints = (radius: number) => {
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i <= RING_SEGMENTS; i++) {
+    const angle = (i / RING_SEGMENTS) * Math.PI * 2;
+    points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
+  }
+  return points;
+};
+
+// Rings face the camera, so each one traces the silhouette of a sphere of that radius
+export const MathRings = ({ math, params, theme }: { math: TechniqueMath, params: TechniqueParams, theme: 'dark' | 'light' }) => {
+  const rings = useMemo(
+    () => math.rings(params).map(ring => ({ ...ring, points: circlePoints(ring.radius) })),
+    [math, params]
+  );
+  const isDark = theme === 'dark';
+
+  return (
+    <Billboard>
+      {rings.map(ring => (
+        <group key={ring.label}>
+          <Line points={ring.points} color={isDark ? '#94a3b8' : '#475569'} lineWidth={1} dashed dashSize={0.15} gapSize={0.1} transparent opacity={0.7} />
+          <Html position={[ring.radius * Math.SQRT1_2, ring.radius * Math.SQRT1_2, 0]} style={{ pointerEvents: 'none' }}>
+            <div className={`text-[10px] font-mono whitespace-nowrap ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+              {ring.label} {ring.radius.toFixed(2)}
+            </div>
+          </Html>
+        </group>
+      ))}
+    </Billboard>
+  );
+};
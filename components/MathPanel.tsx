@@ -0,0 +1,162 @@
+import React, { useCallback, useMemo } from 'react';
+import { Sigma, X } from 'lucide-react';
+import { TechniqueDefinition } from '../techniques';
+import { TechniqueParams } from '../simulation/forces';
+import { ProjectileProbe } from '../simulation/probe';
+import { getProjectileKind } from '../simulation/projectileKinds';
+import { usePolledSnapshot } from './usePolledSnapshot';
+
+interface MathPanelProps {
+  theme: 'dark' | 'light';
+  technique: TechniqueDefinition;
+  params: TechniqueParams; // Resolved values the scene is using
+  probe: ProjectileProbe;
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+interface Readout {
+  kind: string;
+  mass: number;
+  distance: number;
+  speed: number;
+  force: number;
+}
+
+const REFRESH_MS = 100;
+const CURVE_SAMPLES = 120;
+
+// Plot area inside the SVG
+const WIDTH = 288;
+const HEIGHT = 150;
+const PAD_LEFT = 36;
+const PAD_RIGHT = 8;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 18;
+
+const formatValue = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : Math.abs(value) >= 1 ? value.toFixed(2) : value.toFixed(3));
+
+export const MathPanel: React.FC<MathPanelProps> = ({ theme, technique, params, probe, isOpen, onToggle }) => {
+  // The probe is refreshed from the render loop
+  const [readout] = usePolledSnapshot(useCallback((): Readout | null => (probe.slot === null ? null : {
+    kind: probe.kind,
+    mass: probe.mass,
+    distance: probe.distance,
+    speed: probe.speed,
+    force: probe.force
+  }), [probe]), REFRESH_MS, isOpen);
+  const isDark = theme === 'dark';
+  const math = technique.math;
+
+  const plot = useMemo(() => {
+    if (!math) return null;
+    const range = math.range(params);
+    const distances = Array.from({ length: CURVE_SAMPLES }, (_, i) => (i / (CURVE_SAMPLES - 1)) * range);
+    const series = math.curves.map(curve => distances.map(d => curve.value(d, params)));
+
+    let min = 0;
+    let max = 0;
+    for (const values of series) {
+      for (const value of values) {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+    if (max - min < 1e-6) max = min + 1;
+    const headroom = (max - min) * 0.05;
+    max += headroom;
+    if (min < 0) min -= headroom;
+
+    const x = (d: number) => PAD_LEFT + (d / range) * (WIDTH - PAD_LEFT - PAD_RIGHT);
+    const y = (v: number) => PAD_TOP + (1 - (v - min) / (max - min)) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+    const lines = series.map(values => values.map((v, i) => `${x(distances[i]).toFixed(1)},${y(v).toFixed(1)}`).join(' '));
+
+    return { range, min, max, x, y, lines, rings: math.rings(params) };
+  }, [math, params]);
+
+  const buttonClass = `p-2 rounded-xl transition-colors ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+  const axisColor = isDark ? '#475569' : '#cbd5e1';
+  const labelColor = isDark ? '#94a3b8' : '#64748b';
+
+  // Where the followed projectile sits on the primary curve
+  const marker = plot && math && readout && readout.distance <= plot.range
+    ? { cx: plot.x(readout.distance), cy: plot.y(math.curves[0].value(readout.distance, params)) }
+    : null;
+
+  return (
+    <div className="absolute bottom-16 right-6 z-10 flex flex-col-reverse items-end gap-2">
+      <button onClick={onToggle} className={buttonClass} title={isOpen ? 'Exit Math Mode' : 'Math Mode'}>
+        {isOpen ? <X size={20} /> : <Sigma size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className={`w-80 p-4 rounded-2xl border space-y-3 text-xs backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`}>
+          <div className="flex justify-between items-baseline font-bold uppercase tracking-wider">
+            <span>Math Mode</span>
+            <span className={`normal-case font-normal ${technique.classes.text}`}>{technique.label}</span>
+          </div>
+
+          {!math || !plot ? (
+            <p className="opacity-60">This technique has no distance profile to plot.</p>
+          ) : (
+            <>
+              <svg width={WIDTH} height={HEIGHT} className="block">
+                <line x1={PAD_LEFT} y1={PAD_TOP} x2={PAD_LEFT} y2={HEIGHT - PAD_BOTTOM} stroke={axisColor} />
+                <line x1={PAD_LEFT} y1={plot.y(0)} x2={WIDTH - PAD_RIGHT} y2={plot.y(0)} stroke={axisColor} />
+                {plot.rings.map(ring => ring.radius <= plot.range && (
+                  <line
+                    key={ring.label}
+                    x1={plot.x(ring.radius)} y1={PAD_TOP}
+                    x2={plot.x(ring.radius)} y2={HEIGHT - PAD_BOTTOM}
+                    stroke={labelColor} strokeDasharray="3 3" opacity={0.6}
+                  >
+                    <title>{`${ring.label} (${ring.radius.toFixed(2)})`}</title>
+                  </line>
+                ))}
+                {plot.lines.map((points, i) => (
+                  <polyline key={math.curves[i].label} points={points} fill="none" stroke={math.curves[i].color} strokeWidth={2} strokeLinejoin="round" />
+                ))}
+                {marker && <circle cx={marker.cx} cy={marker.cy} r={4} fill="#facc15" stroke={isDark ? '#0f172a' : '#ffffff'} />}
+
+                <text x={PAD_LEFT - 4} y={PAD_TOP + 8} textAnchor="end" fontSize={9} fill={labelColor}>{formatValue(plot.max)}</text>
+                <text x={PAD_LEFT - 4} y={HEIGHT - PAD_BOTTOM} textAnchor="end" fontSize={9} fill={labelColor}>{formatValue(plot.min)}</text>
+                <text x={PAD_LEFT} y={HEIGHT - 4} fontSize={9} fill={labelColor}>0</text>
+                <text x={WIDTH - PAD_RIGHT} y={HEIGHT - 4} textAnchor="end" fontSize={9} fill={labelColor}>distance {formatValue(plot.range)}</text>
+              </svg>
+
+              <div className="space-y-1">
+                {math.curves.map(curve => (
+                  <div key={curve.label} className="flex items-center gap-2">
+                    <span className="w-3 h-0.5 rounded" style={{ backgroundColor: curve.color }} />
+                    <span>{curve.label}</span>
+                    <span className="opacity-50">({math.unit})</span>
+                  </div>
+                ))}
+                <div className="font-mono opacity-70 break-words">{math.formula}</div>
+              </div>
+
+              <div className={`p-3 rounded-xl ${isDark ? 'bg-slate-800/60' : 'bg-slate-100'}`}>
+                {readout ? (
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 font-mono">
+                    <span className="opacity-60">Kind</span>
+                    <span>{getProjectileKind(readout.kind)?.label ?? readout.kind} (m {readout.mass.toFixed(1)})</span>
+                    <span className="opacity-60">Distance</span>
+                    <span>{readout.distance.toFixed(2)}</span>
+                    <span className="opacity-60">Speed</span>
+                    <span>{readout.speed.toFixed(2)} u/s</span>
+                    <span className="opacity-60">Force</span>
+                    <span>{readout.force.toFixed(2)}</span>
+                    <span className="opacity-60">{math.curves[0].label}</span>
+                    <span>{formatValue(math.curves[0].value(readout.distance, params))}</span>
+                  </div>
+                ) : (
+                  <p className="opacity-60">Click a projectile in the scene to follow its live readout.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
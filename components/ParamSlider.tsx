@@ -0,0 +1,36 @@
+import React from 'react';
+import { TechniqueParamSpec } from '../techniques';
+
+interface ParamSliderProps {
+  theme: 'dark' | 'light';
+  spec: TechniqueParamSpec;
+  value: number;
+  isTuned: boolean; // Highlights values that differ from the default
+  onChange: (value: number) => void;
+}
+
+export const ParamSlider: React.FC<ParamSliderProps> = ({ theme, spec, value, isTuned, onChange }) => {
+  const isDark = theme === 'dark';
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-2 font-bold uppercase tracking-wider">
+        <span>{spec.label}</span>
+        <span className={`font-mono ${isTuned ? (isDark ? 'text-sky-400' : 'text-sky-600') : 'opacity-50'}`}>
+          {value}
+        </span>
+      </div>
+      <input
+        type="range" min={spec.min} max={spec.max} step={spec.step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all"
+      />
+      <div className="flex justify-between text-[10px] opacity-40 font-mono mt-1">
+        <span>{spec.min}</span>
+        <span>default {spec.default}</span>
+        <span>{spec.max}</span>
+      </div>
+    </div>
+  );
+};
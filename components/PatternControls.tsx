@@ -0,0 +1,77 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { resolveParams } from '../techniques';
+import { TechniqueParams } from '../simulation/forces';
+import { ATTACK_PATTERNS, AttackPatternId, getAttackPattern, DEFAULT_PATTERN } from '../simulation/patterns';
+import { ParamSlider } from './ParamSlider';
+
+interface PatternControlsProps {
+  theme: 'dark' | 'light';
+  pattern: AttackPatternId;
+  params: TechniqueParams; // Tuned values for `pattern`
+  disabled?: boolean;
+  onPatternChange: (pattern: AttackPatternId) => void;
+  onParamChange: (key: string, value: number) => void;
+  onReset: () => void;
+}
+
+export const PatternControls: React.FC<PatternControlsProps> = ({
+  theme,
+  pattern,
+  params,
+  disabled,
+  onPatternChange,
+  onParamChange,
+  onReset
+}) => {
+  const isDark = theme === 'dark';
+  const definition = getAttackPattern(pattern) ?? getAttackPattern(DEFAULT_PATTERN)!;
+  const values = resolveParams(definition, params);
+  const specs = definition.params ?? [];
+
+  return (
+    <div className={`space-y-4 ${disabled ? 'opacity-30 pointer-events-none' : ''}`}>
+      <div>
+        <div className="flex justify-between items-center text-xs mb-3 font-bold uppercase tracking-wider">
+          <span>Attack Pattern</span>
+          <button
+            onClick={onReset}
+            disabled={Object.keys(params).length === 0}
+            className={`p-1 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'text-slate-400 hover:text-white' : 'text-slate-500 hover:text-slate-900'}`}
+            title="Reset Pattern Settings"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+        <div className={`grid grid-cols-2 gap-1 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+          {ATTACK_PATTERNS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => onPatternChange(p.id)}
+              className={`
+                py-2 text-[10px] font-bold uppercase tracking-wider rounded-lg transition-all duration-300
+                ${definition.id === p.id
+                  ? (isDark ? 'bg-slate-700 text-white shadow-lg' : 'bg-white text-slate-900 shadow-lg')
+                  : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
+              `}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] opacity-50 mt-2">{definition.description}</p>
+      </div>
+
+      {specs.map(spec => (
+        <ParamSlider
+          key={spec.key}
+          theme={theme}
+          spec={spec}
+          value={values[spec.key]}
+          isTuned={params[spec.key] !== undefined}
+          onChange={(value) => onParamChange(spec.key, value)}
+        />
+      ))}
+    </div>
+  );
+};
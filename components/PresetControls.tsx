@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, Download, Pencil, Save, Trash2, Upload } from 'lucide-react';
+import { ControlPreset, parseControlPresets, serializeControlPresets } from '../state/controlPresets';
+
+interface PresetControlsProps {
+  theme: 'dark' | 'light';
+  presets: ControlPreset[];
+  onSave: (name: string) => void; // Snapshots the current controls
+  onApply: (preset: ControlPreset) => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (name: string) => void;
+  onImport: (presets: ControlPreset[]) => void;
+}
+
+export const PresetControls: React.FC<PresetControlsProps> = ({ theme, presets, onSave, onApply, onRename, onDelete, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const isDark = theme === 'dark';
+  const selectedPreset = presets.find(p => p.name === selected);
+  const trimmedName = name.trim();
+
+  const iconButtonClass = `p-2 rounded-xl transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`;
+  const fieldClass = `flex-1 min-w-0 px-3 py-2 rounded-xl text-sm outline-none border transition-colors ${isDark ? 'bg-slate-900 border-slate-700 focus:border-sky-500' : 'bg-white border-slate-200 focus:border-sky-500'}`;
+
+  const handleSave = () => {
+    if (!trimmedName) return;
+    onSave(trimmedName);
+    setSelected(trimmedName);
+    setName('');
+    setMessage(null);
+  };
+
+  const handleRename = () => {
+    if (!selectedPreset || !trimmedName) return;
+    onRename(selectedPreset.name, trimmedName);
+    setSelected(trimmedName);
+    setName('');
+    setMessage(null);
+  };
+
+  const handleDelete = () => {
+    if (!selectedPreset) return;
+    onDelete(selectedPreset.name);
+    setSelected('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeControlPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'limitless-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseControlPresets(await file.text());
+      onImport(imported);
+      setMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not import presets', isError: true });
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center text-xs font-bold uppercase tracking-wider"
+      >
+        <span>Control Presets</span>
+        <ChevronDown size={16} className={`transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-2">
+          <div className="flex gap-2">
+            <select value={selected} onChange={(e) => setSelected(e.target.value)} className={fieldClass}>
+              <option value="">Select preset…</option>
+              {presets.map(preset => (
+                <option key={preset.name} value={preset.name}>{preset.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => selectedPreset && onApply(selectedPreset)}
+              disabled={!selectedPreset}
+              className={`${iconButtonClass} text-xs font-bold uppercase`}
+            >
+              Load
+            </button>
+            <button onClick={handleDelete} disabled={!selectedPreset} className={iconButtonClass} title="Delete Preset">
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              placeholder={selectedPreset ? 'New name, or name to save as' : 'Preset name'}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              className={fieldClass}
+            />
+            <button onClick={handleSave} disabled={!trimmedName} className={iconButtonClass} title="Save Current Controls">
+              <Save size={16} />
+            </button>
+            <button onClick={handleRename} disabled={!selectedPreset || !trimmedName} className={iconButtonClass} title="Rename Selected Preset">
+              <Pencil size={16} />
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={`${iconButtonClass} flex-1 flex items-center justify-center gap-2 text-xs font-bold uppercase`}>
+              <Upload size={14} /> Import
+            </button>
+            <button onClick={handleExport} disabled={presets.length === 0} className={`${iconButtonClass} flex-1 flex items-center justify-center gap-2 text-xs font-bold uppercase`}>
+              <Download size={14} /> Export
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+
+          {message && (
+            <p className={`text-[10px] ${message.isError ? 'text-red-400' : 'opacity-50'}`}>{message.text}</p>
+          )}
+          <p className="text-[10px] opacity-50">
+            Presets keep the technique, attack pattern, rate, speed, projectile mix, collisions and transition. Saving under an existing name replaces it.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Billboard } from '@react-three/drei';
+import * as THREE from 'three';
+import { ParticleState } from '../types';
+import { ProjectileProbe, pickParticle, selectParticle } from '../simulation/probe';
+import { PurpleShot } from '../simulation/hollowPurple';
+
+// Selection overlay for the projectile inspector and Math Mode. Projectiles are picked by
+// raycasting their instanced meshes (see ProjectileSystem); a transparent camera-facing
+// plane catches near misses and picks the projectile closest to the pointer ray instead.
+// The selected projectile gets a highlight ring and a line along its trajectory; following
+// it with the camera is up to CameraRig.
+
+const PICK_TOLERANCE = 0.4; // World units around a projectile that still count as a near miss
+const HIGHLIGHT_COLOR = '#facc15';
+
+// The frame currently drawn by the projectile system (live or playback)
+export interface DrawnFrame {
+  particles: ParticleState[];
+  time: number;
+  shots: PurpleShot[]; // Hollow Purple shots in flight (none during playback)
+}
+
+// Marks the instanced meshes whose instances are projectiles
+export const PROJECTILE_USER_DATA = { projectile: true };
+
+const isProjectileHit = (object: THREE.Object3D) => object.userData.projectile === true;
+
+interface ProbeOverlayProps {
+  probe: ProjectileProbe;
+  frame: React.MutableRefObject<DrawnFrame>;
+}
+
+export const ProbeOverlay = ({ probe, frame }: ProbeOverlayProps) => {
+  const planeRef = useRef<THREE.Mesh>(null);
+  const markerRef = useRef<THREE.Group>(null);
+  const uploadedVersion = useRef(-1);
+
+  // The trajectory line draws straight from the probe's history buffer
+  const trajectory = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(probe.history, 3));
+    geometry.setDrawRange(0, 0);
+    const line = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: HIGHLIGHT_COLOR, transparent: true, opacity: 0.7 }));
+    line.frustumCulled = false;
+    return line;
+  }, [probe]);
+
+  useEffect(() => () => {
+    trajectory.geometry.dispose();
+    (trajectory.material as THREE.Material).dispose();
+  }, [trajectory]);
+
+  useFrame(({ camera, clock }) => {
+    planeRef.current?.quaternion.copy(camera.quaternion);
+    const selected = probe.slot !== null;
+
+    const marker = markerRef.current;
+    if (marker) {
+      marker.visible = selected;
+      marker.position.set(probe.position.x, probe.position.y, probe.position.z);
+      marker.scale.setScalar(1 + Math.sin(clock.elapsedTime * 6) * 0.15);
+    }
+
+    trajectory.visible = selected;
+    if (uploadedVersion.current !== probe.historyVersion) {
+      uploadedVersion.current = probe.historyVersion;
+      trajectory.geometry.setDrawRange(0, probe.historyLength);
+      trajectory.geometry.attributes.position.needsUpdate = true;
+    }
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (e.button !== 0) return;
+    // A projectile under the pointer is picked by its own mesh's handler
+    if (e.intersections.some(hit => isProjectileHit(hit.object))) return;
+    e.stopPropagation();
+
+    const { particles, time } = frame.current;
+    const slot = pickParticle(particles, e.ray.origin, e.ray.direction, PICK_TOLERANCE);
+    if (slot !== null) selectParticle(probe, particles, slot, time);
+  };
+
+  return (
+    <group>
+      <mesh ref={planeRef} onPointerDown={handlePointerDown}>
+        <planeGeometry args={[200, 200]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </mesh>
+
+      <primitive object={trajectory} />
+
+      <group ref={markerRef} visible={false}>
+        <Billboard>
+          <mesh>
+            <ringGeometry args={[0.35, 0.42, 32]} />
+            <meshBasicMaterial color={HIGHLIGHT_COLOR} transparent opacity={0.9} depthTest={false} toneMapped={false} />
+          </mesh>
+        </Billboard>
+      </group>
+    </group>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { TechniqueParamSpec } from '../techniques';
+import { DEFAULT_MIX, PROJECTILE_KINDS, ProjectileMix } from '../simulation/projectileKinds';
+import { ParamSlider } from './ParamSlider';
+
+interface ProjectileMixControlsProps {
+  theme: 'dark' | 'light';
+  mix: ProjectileMix;
+  onChange: (mix: ProjectileMix) => void;
+}
+
+// One weight slider per kind; weights are relative, so only their ratios matter
+const MIX_SPECS: TechniqueParamSpec[] = PROJECTILE_KINDS.map(kind => ({
+  key: kind.id,
+  label: `${kind.label} (mass ${kind.mass})`,
+  default: DEFAULT_MIX[kind.id] ?? 0,
+  min: 0,
+  max: 10,
+  step: 1
+}));
+
+export const ProjectileMixControls: React.FC<ProjectileMixControlsProps> = ({ theme, mix, onChange }) => {
+  const isDark = theme === 'dark';
+  const total = MIX_SPECS.reduce((sum, spec) => sum + (mix[spec.key] ?? 0), 0);
+  const isDefault = MIX_SPECS.every(spec => (mix[spec.key] ?? 0) === spec.default);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-xs font-bold uppercase tracking-wider">
+        <span>Projectile Mix</span>
+        <button
+          onClick={() => onChange(DEFAULT_MIX)}
+          disabled={isDefault}
+          className={`p-1 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'text-slate-400 hover:text-white' : 'text-slate-500 hover:text-slate-900'}`}
+          title="Reset Projectile Mix"
+        >
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      {MIX_SPECS.map(spec => (
+        <ParamSlider
+          key={spec.key}
+          theme={theme}
+          spec={spec}
+          value={mix[spec.key] ?? 0}
+          isTuned={(mix[spec.key] ?? 0) !== spec.default}
+          onChange={(value) => onChange({ ...mix, [spec.key]: value })}
+        />
+      ))}
+
+      {total === 0 && (
+        <p className="text-[10px] opacity-50">All weights are zero — standard projectiles are used.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { Download, Pause, Play, SkipForward, Square, Upload } from 'lucide-react';
+import { Scenario, ScenarioIssue, ScenarioSource, formatScenarioIssue, parseScenario, serializeScenario } from '../state/scenario';
+
+interface ScenarioControlsProps {
+  theme: 'dark' | 'light';
+  builtins: ScenarioSource[];
+  scenario: Scenario | null;
+  applied: number; // Steps run so far
+  time: number; // Seconds into the scenario
+  isRunning: boolean;
+  disabled?: boolean; // While a recorded session plays back
+  onLoad: (scenario: Scenario) => void;
+  onToggleRun: () => void;
+  onStep: () => void;
+  onStop: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+export const ScenarioControls: React.FC<ScenarioControlsProps> = ({
+  theme,
+  builtins,
+  scenario,
+  applied,
+  time,
+  isRunning,
+  disabled,
+  onLoad,
+  onToggleRun,
+  onStep,
+  onStop
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState('');
+  const [issues, setIssues] = useState<ScenarioIssue[]>([]);
+  const isDark = theme === 'dark';
+
+  const iconButtonClass = `p-2 rounded-xl transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-500 hover:text-slate-900'}`;
+  const fieldClass = `flex-1 min-w-0 px-3 py-2 rounded-xl text-sm outline-none border transition-colors ${isDark ? 'bg-slate-900 border-slate-700 focus:border-sky-500' : 'bg-white border-slate-200 focus:border-sky-500'}`;
+
+  const load = (input: string | ScenarioSource) => {
+    const parsed = parseScenario(input);
+    setIssues(parsed.issues);
+    if (parsed.scenario) onLoad(parsed.scenario);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    load(await file.text());
+  };
+
+  const handleDownload = () => {
+    if (!scenario) return;
+    const blob = new Blob([serializeScenario(scenario)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `limitless-scenario-${scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isFinished = scenario !== null && applied >= scenario.steps.length;
+
+  return (
+    <div className={`space-y-4 ${disabled ? 'opacity-30 pointer-events-none' : ''}`}>
+      <div className="flex gap-2">
+        <select value={selected} onChange={(e) => setSelected(e.target.value)} className={fieldClass}>
+          <option value="">Built-in scenario…</option>
+          {builtins.map((source, i) => (
+            <option key={source.name} value={i}>{source.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => load(builtins[Number(selected)])}
+          disabled={!selected}
+          className={`${iconButtonClass} text-xs font-bold uppercase`}
+        >
+          Load
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Upload Scenario">
+          <Upload size={16} />
+        </button>
+        <button onClick={handleDownload} disabled={!scenario} className={iconButtonClass} title="Download Scenario">
+          <Download size={16} />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleUpload} />
+      </div>
+
+      {issues.length > 0 && (
+        <div className="px-3 py-2 rounded-xl text-xs bg-red-500/90 text-white space-y-1">
+          <div className="font-bold uppercase tracking-wider">Scenario not loaded</div>
+          {issues.map((issue, i) => <div key={i}>{formatScenarioIssue(issue)}</div>)}
+        </div>
+      )}
+
+      {scenario && (
+        <div className="space-y-3">
+          <div>
+            <div className="text-xs font-bold uppercase tracking-wider">{scenario.name}</div>
+            {scenario.description && <p className="text-[10px] opacity-50 mt-1">{scenario.description}</p>}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={onToggleRun} disabled={isFinished} className={iconButtonClass} title={isRunning ? 'Pause Scenario' : 'Run Scenario'}>
+              {isRunning ? <Pause size={16} /> : <Play size={16} />}
+            </button>
+            <button onClick={onStep} disabled={isFinished} className={iconButtonClass} title="Next Step">
+              <SkipForward size={16} />
+            </button>
+            <button onClick={onStop} disabled={applied === 0 && time === 0} className={iconButtonClass} title="Stop and Rewind">
+              <Square size={16} />
+            </button>
+            <div className="flex-1 text-right text-xs font-mono opacity-70">
+              <div>Step {applied} / {scenario.steps.length}</div>
+              <div>{formatTime(Math.min(time, scenario.duration))} / {formatTime(scenario.duration)}</div>
+            </div>
+          </div>
+
+          <div className={`h-1 rounded-full overflow-hidden ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+            <div className="h-full bg-sky-500 transition-all" style={{ width: `${scenario.duration > 0 ? Math.min(time / scenario.duration, 1) * 100 : (isFinished ? 100 : 0)}%` }} />
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] opacity-50">
+        Scripted timelines of technique and control changes with captions. Download a loaded scenario to use it as a template.
+      </p>
+    </div>
+  );
+};
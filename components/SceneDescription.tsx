@@ -0,0 +1,93 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { TechniqueDefinition } from '../techniques/registry';
+import { TelemetryLog } from '../simulation/telemetry';
+import { GameState } from '../simulation/game';
+import { usePolledSnapshot } from './usePolledSnapshot';
+
+interface SceneDescriptionProps {
+  technique: TechniqueDefinition;
+  telemetry: TelemetryLog; // Latest sample gives the projectile counts
+  spawnRate: number;
+  speedLabel: string;
+  patternLabel: string;
+  manualOnly: boolean;
+  isPlaybackMode: boolean;
+  isPaused: boolean; // Playback paused
+  game: GameState | null;
+  describeRequest: number; // Bumped to read out the full description, counts included
+}
+
+// Refresh of the non-live counts; only read when the user reaches them or asks for them
+const REFRESH_MS = 5000;
+// Gap between emptying the live region and refilling it, so repeated text is read out again
+const REANNOUNCE_MS = 100;
+
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+
+// What the user controls; announced whenever it changes
+const describeSettings = ({ technique, spawnRate, speedLabel, patternLabel, manualOnly, isPlaybackMode, isPaused, game }: SceneDescriptionProps) => {
+  const parts = [`${technique.name} is active.`];
+
+  if (isPlaybackMode) {
+    parts.push(isPaused ? 'Recorded session paused.' : 'Playing back a recorded session.');
+  } else if (game) {
+    parts.push('Challenge mode.');
+  } else if (manualOnly) {
+    parts.push('Attacks are fired by clicking the scene.');
+  } else {
+    parts.push(`${patternLabel}: ${count(spawnRate, 'attack')} per second at ${speedLabel.toLowerCase()} speed.`);
+  }
+  return parts.join(' ');
+};
+
+// What the simulation is doing; changes on its own, so never announced unprompted
+const describeCounts = ({ telemetry, isPlaybackMode, game }: Pick<SceneDescriptionProps, 'telemetry' | 'isPlaybackMode' | 'game'>) => {
+  const parts: string[] = [];
+
+  if (game && !isPlaybackMode) {
+    parts.push(game.status === 'over'
+      ? `Challenge over with a score of ${game.score}.`
+      : `Wave ${game.wave}: health ${Math.ceil(game.health)}, cursed energy ${Math.floor(game.energy)}${game.barrierDown ? ', barrier down' : ''}.`);
+  }
+
+  const sample = telemetry.samples[telemetry.samples.length - 1];
+  if (sample && !isPlaybackMode) {
+    parts.push(`${count(sample.active, 'projectile')} in the scene, ${sample.trapped} near the barrier.`);
+    parts.push(`${sample.erased} erased and ${sample.escaped} escaped so far.`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Visually hidden scene description for screen readers. Setting changes go to a
+ * polite live region; the running counts sit in a plain element and only join the
+ * announcement when asked for (the D shortcut).
+ */
+export const SceneDescription: React.FC<SceneDescriptionProps> = (props) => {
+  const settings = describeSettings(props);
+  const { telemetry, isPlaybackMode, game, describeRequest } = props;
+  const [counts] = usePolledSnapshot(useCallback(() => describeCounts({ telemetry, isPlaybackMode, game }), [telemetry, isPlaybackMode, game]), REFRESH_MS);
+  const [announcement, setAnnouncement] = useState(settings);
+
+  useEffect(() => {
+    setAnnouncement(settings);
+  }, [settings]);
+
+  // Read when the request is served, so it describes the scene as it is by then
+  const describe = useRef<() => string>(() => '');
+  describe.current = () => `${settings} ${describeCounts({ telemetry, isPlaybackMode, game })}`.trim();
+
+  useEffect(() => {
+    if (describeRequest === 0) return;
+    setAnnouncement('');
+    const id = window.setTimeout(() => setAnnouncement(describe.current()), REANNOUNCE_MS);
+    return () => window.clearTimeout(id);
+  }, [describeRequest]);
+
+  return (
+    <div className="sr-only">
+      <div role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+      <p>{counts}</p>
+    </div>
+  );
+};
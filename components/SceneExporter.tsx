@@ -0,0 +1,134 @@
+import { useEffect, useRef } from 'react';
+import { useThree, advance, RootState } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FrameEncoder, createGifEncoder, createWebmEncoder, supportsWebm } from '../media/encoders';
+
+export interface ExportSettings {
+  duration: number; // Seconds
+  width: number;
+  height: number;
+  fps: number;
+  webm: boolean;
+  gif: boolean;
+  watermark: { text: string; color: string } | null;
+  cinematic: boolean; // Film the technique's camera path instead of the current view
+}
+
+export interface ExportResult {
+  webm?: Blob;
+  gif?: Blob;
+  warnings: string[];
+}
+
+export interface ExportJob {
+  settings: ExportSettings;
+  onProgress: (fraction: number) => void;
+  resolve: (result: ExportResult) => void;
+  reject: (error: Error) => void;
+}
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, watermark: NonNullable<ExportSettings['watermark']>, width: number, height: number) => {
+  const fontSize = Math.round(height * 0.025);
+  const margin = Math.round(height * 0.045);
+  ctx.save();
+  ctx.globalAlpha = 0.4;
+  ctx.fillStyle = watermark.color;
+  ctx.font = `${fontSize}px Shojumaru, serif`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(watermark.text.toUpperCase(), width - margin, height - margin);
+  ctx.restore();
+};
+
+const setViewport = (state: RootState, width: number, height: number, pixelRatio: number) => {
+  state.gl.setPixelRatio(pixelRatio);
+  state.gl.setSize(width, height, false);
+  if (state.camera instanceof THREE.PerspectiveCamera) {
+    state.camera.aspect = width / height;
+    state.camera.updateProjectionMatrix();
+  }
+};
+
+/**
+ * Renders the scene frame by frame at a fixed resolution and frame rate. The render
+ * loop is paused for the duration and every frame is driven through `advance`,
+ * so the output is independent of how fast the machine can actually render.
+ */
+const renderExport = async (get: () => RootState, job: ExportJob, beforeFrame?: () => Promise<void>): Promise<ExportResult> => {
+  const { duration, width, height, fps, watermark } = job.settings;
+  const frameCount = Math.max(1, Math.round(duration * fps));
+  const warnings: string[] = [];
+
+  const composite = document.createElement('canvas');
+  composite.width = width;
+  composite.height = height;
+  const ctx = composite.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas for export');
+
+  let webmEncoder: FrameEncoder | null = null;
+  if (job.settings.webm) {
+    if (supportsWebm()) webmEncoder = await createWebmEncoder(width, height, fps);
+    else warnings.push('WebM export needs WebCodecs, which this browser does not support.');
+  }
+  const gifEncoder = job.settings.gif ? createGifEncoder(width, height, fps) : null;
+  const encoders = [webmEncoder, gifEncoder].filter((e): e is FrameEncoder => e !== null);
+
+  const initial = get();
+  const { width: viewWidth, height: viewHeight } = initial.size;
+  const viewPixelRatio = initial.gl.getPixelRatio();
+
+  // With the loop paused, R3F takes each frame's delta from the timestamp passed to
+  // `advance`, so frames are timed from the clock's current reading rather than from 0
+  const startTime = initial.clock.elapsedTime;
+  initial.setFrameloop('never');
+  setViewport(initial, width, height, 1);
+
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      // Let asynchronous work (the simulation worker) catch up before rendering
+      if (beforeFrame) await beforeFrame();
+      advance(startTime + i / fps, true, get());
+
+      ctx.drawImage(get().gl.domElement, 0, 0, width, height);
+      if (watermark) drawWatermark(ctx, watermark, width, height);
+
+      for (const encoder of encoders) {
+        await encoder.addFrame(composite, i);
+      }
+
+      job.onProgress((i + 1) / frameCount);
+      // Yield so the progress bar can repaint
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return {
+      webm: webmEncoder ? await webmEncoder.finish() : undefined,
+      gif: gifEncoder ? await gifEncoder.finish() : undefined,
+      warnings
+    };
+  } finally {
+    const state = get();
+    setViewport(state, viewWidth, viewHeight, viewPixelRatio);
+    // Paused, R3F left the clock's wall-clock reference in seconds of export time; measure
+    // the next live frame from now instead
+    state.clock.oldTime = performance.now();
+    state.setFrameloop('always');
+  }
+};
+
+// Lives inside the <Canvas> so it can take over the render loop while a job runs
+export const SceneExporter = ({ job, beforeFrame }: { job: ExportJob | null, beforeFrame?: () => Promise<void> }) => {
+  const get = useThree(state => state.get);
+  const startedJob = useRef<ExportJob | null>(null);
+
+  useEffect(() => {
+    // Guard against effects re-running (e.g. StrictMode) for a job that is already underway
+    if (!job || startedJob.current === job) return;
+    startedJob.current = job;
+    renderExport(get, job, beforeFrame).then(job.resolve, (err) => {
+      job.reject(err instanceof Error ? err : new Error(String(err)));
+    });
+  }, [job, get, beforeFrame]);
+
+  return null;
+};
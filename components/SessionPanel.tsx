@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { Circle, Square, Download, Upload, Film, Play, Pause, X } from 'lucide-react';
+import { SessionFile, parseSession, serializeSession } from '../simulation/recording';
+
+interface SessionPanelProps {
+  theme: 'dark' | 'light';
+  isRecording: boolean;
+  session: SessionFile | null;
+  isPlaybackMode: boolean;
+  isPlaying: boolean;
+  playbackTime: number;
+  playbackSpeed: number;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onLoadSession: (session: SessionFile) => void;
+  onEnterPlayback: () => void;
+  onExitPlayback: () => void;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({
+  theme,
+  isRecording,
+  session,
+  isPlaybackMode,
+  isPlaying,
+  playbackTime,
+  playbackSpeed,
+  onStartRecording,
+  onStopRecording,
+  onLoadSession,
+  onEnterPlayback,
+  onExitPlayback,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isDark = theme === 'dark';
+
+  const buttonClass = `p-2 rounded-xl transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+
+  const handleDownload = () => {
+    if (!session) return;
+    const blob = new Blob([serializeSession(session)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `limitless-session-${session.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoadSession(parseSession(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load session');
+    }
+  };
+
+  return (
+    <>
+      {/* Recorder toolbar */}
+      <div className="absolute top-6 right-6 z-10 flex flex-col items-end gap-2">
+        <div className="flex gap-2">
+          {isRecording ? (
+            <button onClick={onStopRecording} className={buttonClass} title="Stop Recording" aria-label="Stop Recording">
+              <Square size={20} className="text-red-500 fill-red-500 animate-pulse" />
+            </button>
+          ) : (
+            <button onClick={onStartRecording} disabled={isPlaybackMode} className={buttonClass} title="Record Session" aria-label="Record Session">
+              <Circle size={20} className="text-red-500" />
+            </button>
+          )}
+          <button onClick={handleDownload} disabled={!session || isRecording} className={buttonClass} title="Download Session" aria-label="Download Session">
+            <Download size={20} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isRecording} className={buttonClass} title="Upload Session" aria-label="Upload Session">
+            <Upload size={20} />
+          </button>
+          <button onClick={isPlaybackMode ? onExitPlayback : onEnterPlayback} disabled={!session || isRecording} className={buttonClass} title={isPlaybackMode ? 'Exit Playback' : 'Play Session'} aria-label={isPlaybackMode ? 'Exit Playback' : 'Play Session'}>
+            {isPlaybackMode ? <X size={20} /> : <Film size={20} />}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleUpload} />
+        </div>
+        {error && (
+          <div className="max-w-xs px-3 py-2 rounded-xl text-xs bg-red-500/90 text-white">{error}</div>
+        )}
+      </div>
+
+      {/* Playback transport */}
+      {isPlaybackMode && session && (
+        <div className={`absolute left-6 right-6 bottom-20 z-10 p-4 rounded-2xl border flex items-center gap-4 backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/80 border-slate-200 shadow-lg'}`}>
+          <button onClick={onTogglePlay} className={buttonClass} title={isPlaying ? 'Pause' : 'Play'} aria-label={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+          </button>
+
+          <input
+            type="range" min="0" max={session.duration} step={1 / session.sampleRate}
+            value={Math.min(playbackTime, session.duration)}
+            aria-label="Playback Position"
+            aria-valuetext={`${formatTime(playbackTime)} of ${formatTime(session.duration)}`}
+            onChange={(e) => onSeek(parseFloat(e.target.value))}
+            className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400 transition-all"
+          />
+
+          <span className="font-mono text-xs whitespace-nowrap opacity-70">
+            {formatTime(playbackTime)} / {formatTime(session.duration)}
+          </span>
+
+          <div className={`flex gap-1 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+            {PLAYBACK_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => onSpeedChange(speed)}
+                className={`
+                  px-2 py-1 text-xs font-bold rounded-lg transition-all duration-300
+                  ${playbackSpeed === speed
+                    ? (isDark ? 'bg-slate-700 text-white shadow-lg' : 'bg-white text-slate-900 shadow-lg')
+                    : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
+                `}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
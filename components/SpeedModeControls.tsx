@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { SpeedMode } from '../types';
+import { BUILTIN_SPEED_MODES, DEFAULT_SPEED_MODE, MAX_CUSTOM_SPEED_MODES, SPEED_RANGE, SpeedModeDefinition, createSpeedModeId, resolveSpeedMode, upsertSpeedMode, validateSpeedMode } from '../state/speedModes';
+
+interface SpeedModeControlsProps {
+  theme: 'dark' | 'light';
+  speedMode: SpeedMode;
+  customModes: SpeedModeDefinition[];
+  onSpeedModeChange: (mode: SpeedMode) => void;
+  onCustomModesChange: (modes: SpeedModeDefinition[]) => void;
+}
+
+interface Draft {
+  id: SpeedMode | null; // Null while adding a new mode
+  label: string;
+  min: string;
+  max: string;
+}
+
+export const SpeedModeControls: React.FC<SpeedModeControlsProps> = ({ theme, speedMode, customModes, onSpeedModeChange, onCustomModesChange }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const isDark = theme === 'dark';
+  const current = resolveSpeedMode(speedMode, customModes);
+  const isCustom = customModes.some(mode => mode.id === current.id);
+
+  const iconButtonClass = `p-1 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'text-slate-400 hover:text-white' : 'text-slate-500 hover:text-slate-900'}`;
+  const fieldClass = `min-w-0 px-2 py-1.5 rounded-lg text-xs outline-none border transition-colors ${isDark ? 'bg-slate-900 border-slate-700 focus:border-sky-500' : 'bg-white border-slate-200 focus:border-sky-500'}`;
+
+  const parsedDraft = draft && { label: draft.label.trim(), min: parseFloat(draft.min), max: parseFloat(draft.max) };
+  const draftError = parsedDraft ? validateSpeedMode(parsedDraft) : null;
+
+  const saveDraft = () => {
+    if (!draft || !parsedDraft || draftError) return;
+    const mode = { id: draft.id ?? createSpeedModeId(customModes), ...parsedDraft };
+    onCustomModesChange(upsertSpeedMode(customModes, mode));
+    onSpeedModeChange(mode.id);
+    setDraft(null);
+  };
+
+  const deleteCurrent = () => {
+    onCustomModesChange(customModes.filter(mode => mode.id !== current.id));
+    onSpeedModeChange(DEFAULT_SPEED_MODE);
+  };
+
+  const modeButton = (mode: SpeedModeDefinition) => (
+    <button
+      key={mode.id}
+      onClick={() => onSpeedModeChange(mode.id)}
+      className={`
+        py-2 px-1 text-xs font-bold uppercase tracking-wider rounded-lg transition-all duration-300 truncate
+        ${current.id === mode.id
+          ? (isDark ? 'bg-slate-700 text-white shadow-lg scale-105' : 'bg-white text-slate-900 shadow-lg scale-105')
+          : (isDark ? 'text-slate-500 hover:text-slate-300' : 'text-slate-500 hover:text-slate-700')}
+      `}
+      title={`${mode.label}: ${mode.min}–${mode.max} u/s`}
+    >
+      {mode.label}
+    </button>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center text-xs mb-3 font-bold uppercase tracking-wider">
+        <span>Object Speed</span>
+        <div className="flex items-center gap-1">
+          {isCustom && (
+            <>
+              <button
+                onClick={() => setDraft({ id: current.id, label: current.label, min: String(current.min), max: String(current.max) })}
+                className={iconButtonClass}
+                title="Edit Speed Mode"
+              >
+                <Pencil size={14} />
+              </button>
+              <button onClick={deleteCurrent} className={iconButtonClass} title="Delete Speed Mode">
+                <Trash2 size={14} />
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setDraft({ id: null, label: '', min: String(current.min), max: String(current.max) })}
+            disabled={customModes.length >= MAX_CUSTOM_SPEED_MODES}
+            className={iconButtonClass}
+            title="Add Speed Mode"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-3 gap-2 p-1 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-slate-200'}`}>
+        {BUILTIN_SPEED_MODES.map(modeButton)}
+        {customModes.map(modeButton)}
+      </div>
+
+      {draft && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draft.label}
+              placeholder="Name"
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') saveDraft(); }}
+              className={`${fieldClass} flex-1`}
+            />
+            <input
+              type="number" min={SPEED_RANGE.min} max={SPEED_RANGE.max} step="0.5"
+              value={draft.min}
+              onChange={(e) => setDraft({ ...draft, min: e.target.value })}
+              className={`${fieldClass} w-16 font-mono`}
+              title="Minimum Speed"
+            />
+            <input
+              type="number" min={SPEED_RANGE.min} max={SPEED_RANGE.max} step="0.5"
+              value={draft.max}
+              onChange={(e) => setDraft({ ...draft, max: e.target.value })}
+              className={`${fieldClass} w-16 font-mono`}
+              title="Maximum Speed"
+            />
+            <button onClick={saveDraft} disabled={draftError !== null} className={iconButtonClass} title="Save Speed Mode">
+              <Check size={16} />
+            </button>
+            <button onClick={() => setDraft(null)} className={iconButtonClass} title="Cancel">
+              <X size={16} />
+            </button>
+          </div>
+          {draftError && draft.label.trim() !== '' && <p className="text-[10px] text-red-400">{draftError}</p>}
+        </div>
+      )}
+
+      <p className="text-[10px] opacity-50 mt-2 font-mono">
+        {current.min}–{current.max} u/s
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useCallback, useState } from 'react';
+import { Gauge, Download, Trash2, X } from 'lucide-react';
+import { TelemetryLog, TelemetryMetric, TelemetrySample, clearTelemetry, telemetryToCsv } from '../simulation/telemetry';
+import { usePolledSnapshot } from './usePolledSnapshot';
+
+interface TelemetryPanelProps {
+  theme: 'dark' | 'light';
+  log: TelemetryLog;
+  fileName: string;
+}
+
+const REFRESH_MS = 250;
+const SPARKLINE_SAMPLES = 120; // 30s at the default sampling interval
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 24;
+
+const METRICS: { key: TelemetryMetric; label: string; color: string; format: (value: number) => string }[] = [
+  { key: 'fps', label: 'FPS', color: '#22c55e', format: v => v.toFixed(0) },
+  { key: 'active', label: 'Active', color: '#38bdf8', format: v => v.toFixed(0) },
+  { key: 'trapped', label: 'Trapped', color: '#a855f7', format: v => v.toFixed(0) },
+  { key: 'approachSpeed', label: 'Approach Speed', color: '#f59e0b', format: v => v.toFixed(2) },
+  { key: 'erased', label: 'Erased', color: '#ef4444', format: v => v.toFixed(0) },
+  { key: 'escaped', label: 'Escaped', color: '#94a3b8', format: v => v.toFixed(0) }
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const sparklinePoints = (samples: TelemetrySample[], key: TelemetryMetric) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const sample of samples) {
+    min = Math.min(min, sample[key]);
+    max = Math.max(max, sample[key]);
+  }
+  const range = max - min || 1;
+  const step = SPARKLINE_WIDTH / Math.max(1, SPARKLINE_SAMPLES - 1);
+  // Right-aligned, so a short history grows in from the right edge
+  const offset = SPARKLINE_WIDTH - (samples.length - 1) * step;
+
+  return samples
+    .map((sample, i) => `${(offset + i * step).toFixed(1)},${(SPARKLINE_HEIGHT - 1 - ((sample[key] - min) / range) * (SPARKLINE_HEIGHT - 2)).toFixed(1)}`)
+    .join(' ');
+};
+
+export const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ theme, log, fileName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The log is filled from the render loop
+  const [samples, refreshSamples] = usePolledSnapshot(useCallback(() => log.samples.slice(-SPARKLINE_SAMPLES), [log]), REFRESH_MS, isOpen);
+  const isDark = theme === 'dark';
+
+  const buttonClass = `p-2 rounded-xl transition-colors disabled:opacity-30 disabled:pointer-events-none ${isDark ? 'bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white' : 'bg-white/80 hover:bg-slate-100 text-slate-600 hover:text-slate-900 shadow'}`;
+  const latest = samples[samples.length - 1];
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([telemetryToCsv(log)], { type: 'text/csv' }), `${fileName}.csv`);
+  };
+
+  const handleClear = () => {
+    clearTelemetry(log);
+    refreshSamples();
+  };
+
+  return (
+    <div className="absolute bottom-8 left-6 z-10 flex flex-col-reverse items-start gap-2">
+      <button onClick={() => setIsOpen(prev => !prev)} className={buttonClass} title={isOpen ? 'Close Telemetry' : 'Show Telemetry'}>
+        {isOpen ? <X size={20} /> : <Gauge size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className={`w-72 p-4 rounded-2xl border space-y-3 text-xs backdrop-blur ${isDark ? 'bg-slate-900/80 border-slate-700/50' : 'bg-white/90 border-slate-200 shadow-lg'}`}>
+          <div className="flex justify-between items-center font-bold uppercase tracking-wider">
+            <span>Telemetry</span>
+            <div className="flex gap-1">
+              <button onClick={handleDownload} disabled={samples.length === 0} className={buttonClass} title="Download CSV">
+                <Download size={14} />
+              </button>
+              <button onClick={handleClear} disabled={samples.length === 0} className={buttonClass} title="Clear Telemetry">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+
+          {METRICS.map(metric => (
+            <div key={metric.key} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="opacity-60 truncate">{metric.label}</div>
+                <div className="font-mono font-bold" style={{ color: metric.color }}>
+                  {latest ? metric.format(latest[metric.key]) : '–'}
+                </div>
+              </div>
+              <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="shrink-0">
+                {samples.length > 1 && (
+                  <polyline points={sparklinePoints(samples, metric.key)} fill="none" stroke={metric.color} strokeWidth={1.5} strokeLinejoin="round" />
+                )}
+              </svg>
+            </div>
+          ))}
+
+          <p className="text-[10px] opacity-50">
+            Sampled every {log.interval}s; the last {SPARKLINE_SAMPLES} samples are charted, the CSV has up to {log.maxSamples}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Reads something the render loop updates in place (the probe, the telemetry log, the
+ * game state) every `ms`, instead of re-rendering every frame. Pass a memoized `read`;
+ * a new one is read at once. Nothing is polled while `enabled` is false. Also returns a
+ * function reading it right away, e.g. after clearing it.
+ */
+export const usePolledSnapshot = <T>(read: () => T, ms: number, enabled = true): [T, () => void] => {
+  const [value, setValue] = useState(read);
+  const refresh = useCallback(() => setValue(read()), [read]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refresh();
+    const id = window.setInterval(refresh, ms);
+    return () => window.clearInterval(id);
+  }, [refresh, ms, enabled]);
+
+  return [value, refresh];
+};
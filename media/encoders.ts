@@ -0,0 +1,91 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+
+// Offline frame encoders. Frames are pushed one at a time with an explicit index,
+// so timing comes from the frame rate rather than from wall-clock capture.
+
+export interface FrameEncoder {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+export const GIF_MAX_WIDTH = 640;
+
+const VP9_CODEC = 'vp09.00.10.08';
+const VP8_CODEC = 'vp8';
+const MAX_ENCODE_QUEUE = 8;
+
+export const supportsWebm = () => typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+
+export const createWebmEncoder = async (width: number, height: number, fps: number): Promise<FrameEncoder> => {
+  const base = { width, height, framerate: fps, bitrate: Math.round(width * height * fps * 0.15) };
+
+  let codec = VP9_CODEC;
+  const { supported } = await VideoEncoder.isConfigSupported({ ...base, codec });
+  if (!supported) codec = VP8_CODEC;
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: codec === VP9_CODEC ? 'V_VP9' : 'V_VP8', width, height, frameRate: fps }
+  });
+
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; }
+  });
+  encoder.configure({ ...base, codec });
+
+  const frameDuration = 1e6 / fps; // Microseconds
+
+  return {
+    addFrame: async (canvas, index) => {
+      if (encodeError) throw encodeError;
+
+      // Let the encoder catch up instead of queueing the whole clip in memory
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+    },
+    finish: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (encodeError) throw encodeError;
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    }
+  };
+};
+
+export const createGifEncoder = (width: number, height: number, fps: number): FrameEncoder => {
+  // GIF quantization is expensive, so large exports are scaled down
+  const scale = Math.min(1, GIF_MAX_WIDTH / width);
+  const gifWidth = Math.round(width * scale);
+  const gifHeight = Math.round(height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = gifWidth;
+  canvas.height = gifHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not create a 2D canvas for GIF encoding');
+
+  const gif = GIFEncoder();
+  const delay = 1000 / fps;
+
+  return {
+    addFrame: async (source) => {
+      ctx.drawImage(source, 0, 0, gifWidth, gifHeight);
+      const { data } = ctx.getImageData(0, 0, gifWidth, gifHeight);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), gifWidth, gifHeight, { palette, delay });
+    },
+    finish: async () => {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: 'image/gif' });
+    }
+  };
+};
@@ -0,0 +1,20 @@
+// Minimal typings for the parts of gifenc we use (the package ships none)
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface GIFEncoderInstance {
+    writeFrame(index: Uint8Array, width: number, height: number, opts?: {
+      palette?: Palette;
+      delay?: number; // Milliseconds
+      repeat?: number; // -1 = once, 0 = forever
+      transparent?: boolean;
+      transparentIndex?: number;
+    }): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(opts?: { initialCapacity?: number; auto?: boolean }): GIFEncoderInstance;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, opts?: { format?: 'rgb565' | 'rgb444' | 'rgba4444' }): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: 'rgb565' | 'rgb444' | 'rgba4444'): Uint8Array;
+}
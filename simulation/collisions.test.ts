@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleState } from '../types';
+import { createSpatialHash, resolveCollisions } from './collisions';
+import { createParticlePool } from './engine';
+import { createRandom } from './random';
+
+const place = (p: ParticleState, values: Partial<ParticleState>) =>
+  Object.assign(p, { active: true, vx: 0, vy: 0, vz: 0, mass: 1, radius: 0.15, scale: 1 }, values);
+
+const setup = (count: number) => {
+  const particles = createParticlePool(count);
+  return { particles, hash: createSpatialHash(particles.length) };
+};
+
+describe('projectile collisions', () => {
+  it('bounces equal masses apart, swapping their velocities', () => {
+    const { particles, hash } = setup(2);
+    const [a, b] = particles;
+    place(a, { x: -0.1, vx: 2 });
+    place(b, { x: 0.1, vx: -1 });
+
+    expect(resolveCollisions(hash, particles, 'bounce')).toBe(1);
+    expect(a.vx).toBeCloseTo(-1);
+    expect(b.vx).toBeCloseTo(2);
+    expect(b.x - a.x).toBeCloseTo(0.3); // Pushed apart until they touch
+  });
+
+  it('merges into the heavier projectile, keeping momentum and volume', () => {
+    const { particles, hash } = setup(2);
+    const [a, b] = particles;
+    place(a, { x: 0, mass: 3, vx: 1 });
+    place(b, { x: 0.2, mass: 1, vx: -1, vy: 4 });
+
+    expect(resolveCollisions(hash, particles, 'merge')).toBe(1);
+    expect(b.active).toBe(false);
+    expect(a).toMatchObject({ mass: 4, vx: 0.5, vy: 1, x: 0.05 });
+    expect(a.radius * a.scale).toBeCloseTo(Math.cbrt(2 * 0.15 ** 3));
+  });
+
+  it('leaves projectiles alone while apart or with collisions off', () => {
+    const { particles, hash } = setup(2);
+    place(particles[0], { x: 0 });
+    place(particles[1], { x: 0.31 });
+    expect(resolveCollisions(hash, particles, 'bounce')).toBe(0);
+
+    particles[1].x = 0.2;
+    expect(resolveCollisions(hash, particles, 'off')).toBe(0);
+  });
+
+  it('reaches projectiles grown larger than a cell', () => {
+    const { particles, hash } = setup(2);
+    place(particles[0], { x: 0, radius: 0.32, scale: 4 });
+    place(particles[1], { x: 2.4, radius: 0.32, scale: 4 });
+    expect(resolveCollisions(hash, particles, 'bounce')).toBe(1);
+  });
+
+  it('tests oversized projectiles against the small ones they reach, whichever comes first', () => {
+    const { particles, hash } = setup(4);
+    place(particles[0], { x: -1.3 }); // Two cells from the big one's cell
+    place(particles[1], { x: 0.05, radius: 0.32, scale: 4 });
+    place(particles[2], { x: 1.45 });
+    place(particles[3], { x: 3 }); // Out of reach
+    expect(resolveCollisions(hash, particles, 'bounce')).toBe(2);
+    expect(hash.oversizedCount).toBe(1);
+  });
+
+  it('finds every touching pair wherever it falls in the grid', () => {
+    const random = createRandom(11);
+    const { particles, hash } = setup(400);
+    for (let i = 0; i < particles.length; i += 2) {
+      // Pairs far apart from each other, straddling cell borders at random, negative coordinates included
+      const x = (i % 20) * 3 - 30 + random();
+      const y = Math.floor(i / 20) * 3 - 30 + random();
+      const z = random() * 4 - 2;
+      place(particles[i], { x, y, z });
+      place(particles[i + 1], { x: x + 0.15 * random(), y: y + 0.15 * random(), z: z + 0.15 * random() }); // Under 0.3 apart
+    }
+    expect(resolveCollisions(hash, particles, 'bounce')).toBe(particles.length / 2);
+  });
+});
@@ -0,0 +1,209 @@
+import { ParticleState } from '../types';
+
+// Projectile-to-projectile collisions. Active projectiles are bucketed into a uniform
+// grid (hashed into a fixed-size table) each step, so a projectile is only tested against
+// the ones in its own and the 26 neighbouring cells. Merged projectiles that have outgrown
+// that are kept out of the grid in a short list of their own; each of them searches as far
+// out as it reaches. All buffers are allocated up front.
+
+export type CollisionMode = 'off' | 'bounce' | 'merge';
+
+export const COLLISION_MODES: CollisionMode[] = ['off', 'bounce', 'merge'];
+
+const CELL_SIZE = 1; // Larger than the biggest projectile diameter at scale 1, so neighbours suffice for all but merged ones
+const TABLE_SIZE = 4096; // Power of two
+const MAX_MERGE_SCALE = 4; // Merged projectiles stop growing past this scale
+
+export interface SpatialHash {
+  cellSize: number;
+  bucketStart: Int32Array; // Start of each bucket in `entries` (TABLE_SIZE + 1 items)
+  entries: Int32Array; // Particle indices, grouped by bucket
+  bucketOf: Int32Array; // Bucket of each particle, -1 when inactive or oversized
+  oversized: Int32Array; // Particles reaching further than half a cell, in index order
+  oversizedCount: number;
+}
+
+export const createSpatialHash = (capacity: number, cellSize: number = CELL_SIZE): SpatialHash => ({
+  cellSize,
+  bucketStart: new Int32Array(TABLE_SIZE + 1),
+  entries: new Int32Array(capacity),
+  bucketOf: new Int32Array(capacity),
+  oversized: new Int32Array(capacity),
+  oversizedCount: 0
+});
+
+const hashCell = (cx: number, cy: number, cz: number) =>
+  (Math.imul(cx, 73856093) ^ Math.imul(cy, 19349663) ^ Math.imul(cz, 83492791)) & (TABLE_SIZE - 1);
+
+/**
+ * Buckets all active particles that fit in a cell (counting sort, no allocations) and
+ * lists the oversized ones.
+ */
+export const buildSpatialHash = (hash: SpatialHash, particles: ParticleState[]) => {
+  const { bucketStart, entries, bucketOf, oversized, cellSize } = hash;
+  bucketStart.fill(0);
+
+  let activeCount = 0;
+  let oversizedCount = 0;
+  for (let i = 0; i < particles.length; i++) {
+    const p = particles[i];
+    if (!p.active || p.radius * p.scale > cellSize / 2) {
+      bucketOf[i] = -1;
+      if (p.active) oversized[oversizedCount++] = i;
+      continue;
+    }
+    const bucket = hashCell(Math.floor(p.x / cellSize), Math.floor(p.y / cellSize), Math.floor(p.z / cellSize));
+    bucketOf[i] = bucket;
+    bucketStart[bucket + 1]++;
+    activeCount++;
+  }
+  hash.oversizedCount = oversizedCount;
+
+  // Prefix sum: bucketStart[b + 1] is now the end of bucket b
+  for (let b = 0; b < TABLE_SIZE; b++) bucketStart[b + 1] += bucketStart[b];
+
+  // Filling backwards from each end leaves bucketStart[b + 1] at the start of bucket b
+  for (let i = particles.length - 1; i >= 0; i--) {
+    const bucket = bucketOf[i];
+    if (bucket < 0) continue;
+    entries[--bucketStart[bucket + 1]] = i;
+  }
+  for (let b = 0; b < TABLE_SIZE; b++) bucketStart[b] = bucketStart[b + 1];
+  bucketStart[TABLE_SIZE] = activeCount;
+};
+
+// Buckets to search for the current particle (distinct cells can share a bucket), and the
+// particle each bucket was last listed for so none is listed twice
+const neighbourBuckets = new Int32Array(TABLE_SIZE);
+const listedFor = new Int32Array(TABLE_SIZE).fill(-1);
+
+const collide = (a: ParticleState, b: ParticleState, mode: CollisionMode): boolean => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  const distSq = dx * dx + dy * dy + dz * dz;
+  const ra = a.radius * a.scale;
+  const rb = b.radius * b.scale;
+  const reach = ra + rb;
+  if (distSq >= reach * reach) return false;
+
+  if (mode === 'merge') {
+    // The heavier projectile absorbs the lighter one, conserving momentum and volume
+    const [big, small] = a.mass >= b.mass ? [a, b] : [b, a];
+    const mass = big.mass + small.mass;
+    big.vx = (big.vx * big.mass + small.vx * small.mass) / mass;
+    big.vy = (big.vy * big.mass + small.vy * small.mass) / mass;
+    big.vz = (big.vz * big.mass + small.vz * small.mass) / mass;
+    big.x = (big.x * big.mass + small.x * small.mass) / mass;
+    big.y = (big.y * big.mass + small.y * small.mass) / mass;
+    big.z = (big.z * big.mass + small.z * small.mass) / mass;
+    const radius = Math.cbrt(ra * ra * ra + rb * rb * rb);
+    big.scale = Math.min(MAX_MERGE_SCALE, radius / big.radius);
+    big.mass = mass;
+    small.active = false;
+    return true;
+  }
+
+  const dist = Math.sqrt(distSq);
+  let nx = 1, ny = 0, nz = 0;
+  if (dist > 1e-6) {
+    nx = dx / dist;
+    ny = dy / dist;
+    nz = dz / dist;
+  }
+  const invA = 1 / a.mass;
+  const invB = 1 / b.mass;
+
+  // Separate the overlap, moving the lighter projectile further
+  const overlap = (reach - dist) / (invA + invB);
+  a.x += nx * overlap * invA;
+  a.y += ny * overlap * invA;
+  a.z += nz * overlap * invA;
+  b.x -= nx * overlap * invB;
+  b.y -= ny * overlap * invB;
+  b.z -= nz * overlap * invB;
+
+  // Elastic impulse along the contact normal, only while approaching
+  const approach = (a.vx - b.vx) * nx + (a.vy - b.vy) * ny + (a.vz - b.vz) * nz;
+  if (approach < 0) {
+    const impulse = (-2 * approach) / (invA + invB);
+    a.vx += nx * impulse * invA;
+    a.vy += ny * impulse * invA;
+    a.vz += nz * impulse * invA;
+    b.vx -= nx * impulse * invB;
+    b.vy -= ny * impulse * invB;
+    b.vz -= nz * impulse * invB;
+  }
+  return true;
+};
+
+// Lists the buckets of the cells within `range` of the particle's cell into
+// `neighbourBuckets`, each once; returns how many there are
+const listBuckets = (hash: SpatialHash, p: ParticleState, index: number, range: number): number => {
+  const { cellSize } = hash;
+  const cx = Math.floor(p.x / cellSize);
+  const cy = Math.floor(p.y / cellSize);
+  const cz = Math.floor(p.z / cellSize);
+  let count = 0;
+  for (let ox = -range; ox <= range; ox++) {
+    for (let oy = -range; oy <= range; oy++) {
+      for (let oz = -range; oz <= range; oz++) {
+        const bucket = hashCell(cx + ox, cy + oy, cz + oz);
+        if (listedFor[bucket] === index) continue;
+        listedFor[bucket] = index;
+        neighbourBuckets[count++] = bucket;
+      }
+    }
+  }
+  return count;
+};
+
+/**
+ * Resolves overlapping projectiles in place. Returns the number of collisions.
+ */
+export const resolveCollisions = (hash: SpatialHash, particles: ParticleState[], mode: CollisionMode): number => {
+  if (mode === 'off') return 0;
+  buildSpatialHash(hash, particles);
+
+  const { bucketStart, entries, bucketOf, oversized, oversizedCount, cellSize } = hash;
+  let collisions = 0;
+  listedFor.fill(-1);
+
+  // Tests `a` against the bucketed projectiles in the listed buckets, or only the later ones
+  const collideListed = (a: ParticleState, i: number, bucketCount: number, laterOnly: boolean) => {
+    for (let k = 0; k < bucketCount && a.active; k++) {
+      const bucket = neighbourBuckets[k];
+      for (let e = bucketStart[bucket]; e < bucketStart[bucket + 1]; e++) {
+        const j = entries[e];
+        // Skip projectiles merged away earlier in this pass
+        if ((laterOnly && j <= i) || !particles[j].active) continue;
+        if (collide(a, particles[j], mode)) {
+          collisions++;
+          if (!a.active) break;
+        }
+      }
+    }
+  };
+
+  // Projectiles that fit in a cell can only touch others in the neighbouring cells; each pair once
+  for (let i = 0; i < particles.length; i++) {
+    if (bucketOf[i] < 0 || !particles[i].active) continue;
+    collideListed(particles[i], i, listBuckets(hash, particles[i], i, 1), true);
+  }
+
+  // Oversized ones search as far as they reach (the projectiles in the grid reach half a
+  // cell at most), then test the later oversized ones directly
+  for (let k = 0; k < oversizedCount; k++) {
+    const i = oversized[k];
+    const a = particles[i];
+    if (!a.active) continue;
+    const range = Math.ceil((a.radius * a.scale + cellSize / 2) / cellSize);
+    collideListed(a, i, listBuckets(hash, a, i, range), false);
+    for (let m = k + 1; m < oversizedCount && a.active; m++) {
+      const b = particles[oversized[m]];
+      if (b.active && collide(a, b, mode)) collisions++;
+    }
+  }
+
+  return collisions;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import '../techniques/physics';
+import { TechniqueType } from '../types';
+import { FIXED_TIMESTEP, SimulationConfig, SimulationState, advance, createSimulation, resetSimulation, scheduleInput, step } from './engine';
+
+const config: SimulationConfig = {
+  technique: TechniqueType.NEUTRAL,
+  spawnRate: 8,
+  minSpeed: 8,
+  maxSpeed: 15,
+  projectileColor: '#ffffff',
+  collisions: 'bounce'
+};
+
+const run = (state: SimulationState, steps: number) => {
+  for (let i = 0; i < steps; i++) step(state, FIXED_TIMESTEP);
+  return state;
+};
+
+// Everything a run can differ in, for comparing two of them
+const snapshot = (state: SimulationState) => ({
+  time: state.time,
+  particles: state.particles.filter(p => p.active).map(({ id, x, y, z, vx, vy, vz, kind, scale }) => ({ id, x, y, z, vx, vy, vz, kind, scale })),
+  erased: state.erasedCount,
+  escaped: state.escapedCount,
+  collisions: state.collisionCount
+});
+
+describe('simulation engine', () => {
+  it.each(Object.values(TechniqueType))('replays %s identically from the same seed', (technique) => {
+    const a = run(createSimulation({ ...config, technique }, { capacity: 500, seed: 42 }), 300);
+    const b = run(createSimulation({ ...config, technique }, { capacity: 500, seed: 42 }), 300);
+    expect(a.activeCount).toBeGreaterThan(0);
+    expect(snapshot(b)).toEqual(snapshot(a));
+  });
+
+  it('gives different runs for different seeds', () => {
+    const a = run(createSimulation(config, { capacity: 500, seed: 1 }), 120);
+    const b = run(createSimulation(config, { capacity: 500, seed: 2 }), 120);
+    expect(snapshot(b)).not.toEqual(snapshot(a));
+  });
+
+  it('replays a fresh run after a reset', () => {
+    const reference = snapshot(run(createSimulation(config, { capacity: 500, seed: 9 }), 240));
+    const state = run(createSimulation(config, { capacity: 500, seed: 3 }), 100);
+    resetSimulation(state, 9);
+    expect(snapshot(run(state, 240))).toEqual(reference);
+  });
+
+  it('applies a scheduled input on the first step at or after its time', () => {
+    const state = createSimulation({ ...config, autoSpawn: false }, { capacity: 10, seed: 5 });
+    // Steps start at multiples of 1/60 s: the 32nd is the first at or after 0.51 s
+    scheduleInput(state, { at: 0.51, type: 'fire', position: { x: 20, y: 0, z: 0 }, velocity: { x: -1, y: 0, z: 0 } });
+
+    run(state, 31);
+    expect(state.particles.some(p => p.active)).toBe(false);
+    run(state, 1);
+    expect(state.particles.filter(p => p.active)).toHaveLength(1);
+    expect(state.scheduled).toHaveLength(0);
+  });
+
+  it('counts core hits only while the barrier is down', () => {
+    // Blue pulls projectiles right into the core, but a raised barrier still makes it immune
+    const core = { ...config, technique: TechniqueType.BLUE, coreRadius: 1 };
+    const raised = createSimulation(core, { capacity: 200, seed: 11 });
+    let reachedCore = false;
+    for (let i = 0; i < 600; i++) {
+      step(raised, FIXED_TIMESTEP);
+      reachedCore ||= raised.particles.some(p => p.active && Math.hypot(p.x, p.y, p.z) < 1);
+    }
+    expect(reachedCore).toBe(true);
+    expect(raised.coreHits).toBe(0);
+
+    const dropped = run(createSimulation({ ...core, barrierDown: true }, { capacity: 200, seed: 11 }), 600);
+    expect(dropped.coreHits).toBeGreaterThan(0);
+  });
+
+  it('ignores frame deltas that are not positive', () => {
+    const state = createSimulation(config, { capacity: 50, seed: 5 });
+    expect(advance(state, -12)).toBe(0);
+    expect(advance(state, Number.NaN)).toBe(0);
+    expect(state.accumulator).toBe(0);
+    // Carries on as if those frames never happened
+    expect(advance(state, FIXED_TIMESTEP * 2.5)).toBe(2);
+  });
+});
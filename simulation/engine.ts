@@ -0,0 +1,566 @@
+import { ParticleState, TechniqueId } from '../types';
+import { createRandom, deriveSeed, randomSeed, RandomSource } from './random';
+import { ForceContext, TechniqueParams, Vec3 } from './forces';
+import { AttackPatternId, DEFAULT_PATTERN, PatternContext, getAttackPattern } from './patterns';
+import { CollisionMode, SpatialHash, createSpatialHash, resolveCollisions } from './collisions';
+import { DEFAULT_KIND, ProjectileKind, ProjectileMix, getProjectileKind, pickProjectileKind } from './projectileKinds';
+import { MAX_PURPLE_SHOTS, PurpleShot, PurpleShotOptions, advancePurpleShots, createPurpleShot } from './hollowPurple';
+import { TechniquePhysics, getTechniquePhysics, resolveParams } from '../techniques/registry';
+
+// Headless projectile simulation. Operates on plain data only (no THREE, no React)
+// so the same physics can drive the 3D view, run in Node or be stepped in tests.
+
+export const MAX_PROJECTILES = 10000;
+export { SPAWN_RADIUS, SPAWN_HEIGHT } from './patterns';
+export const DESPAWN_RADIUS = 30;
+
+// Physics always advances in fixed increments so runs are reproducible
+export const FIXED_TIMESTEP = 1 / 60;
+export const MAX_STEPS_PER_ADVANCE = 6;
+const EFFECT_STREAM = 1;
+
+export interface SimulationConfig {
+  technique: TechniqueId;
+  spawnRate: number; // Attacks per second
+  pattern?: AttackPatternId; // Defaults to DEFAULT_PATTERN
+  patternParams?: TechniqueParams; // Tuned values for the current pattern
+  minSpeed: number;
+  maxSpeed: number;
+  projectileColor: string;
+  projectileMix?: ProjectileMix; // Spawn weights per projectile kind (defaults to DEFAULT_MIX)
+  autoSpawn?: boolean; // False for manual-only mode (defaults to true)
+  collisions?: CollisionMode; // Projectile-to-projectile collisions (defaults to 'off')
+  params?: TechniqueParams; // Tuned values for the current technique
+  transitionDuration?: number; // Seconds to blend from the previous technique's force after a switch (defaults to 0)
+  barrierDown?: boolean; // Suspends the technique's force, e.g. when the game's cursed energy runs out
+  coreRadius?: number; // While the barrier is down, projectiles this close to the core hit it (defaults to 0, off)
+  jitterScale?: number; // Scales the shaking techniques add near the core, e.g. for reduced motion (defaults to 1)
+}
+
+// The outgoing technique while its force field fades out after a switch
+export interface TechniqueTransition {
+  from: TechniqueId;
+  params: TechniqueParams; // Resolved values of the outgoing technique
+  techniqueTime: number; // Keeps counting for the outgoing technique's time-based effects
+  elapsed: number;
+  duration: number;
+}
+
+// An input held back until the first step starting at or after `at` (simulation time).
+// Simulations given the same inputs then apply them on the same step, however far each
+// one happens to have run when they arrive.
+export type ScheduledInput =
+  | { at: number; type: 'config'; config: Partial<SimulationConfig> }
+  | { at: number; type: 'fire'; position: Vec3; velocity: Vec3; options?: FireOptions }
+  | { at: number; type: 'firePurple'; origin: Vec3; direction: Vec3; options: PurpleShotOptions };
+
+export interface SimulationState {
+  config: SimulationConfig;
+  particles: ParticleState[];
+  time: number;
+  techniqueTime: number; // Time since config.technique last changed
+  transition: TechniqueTransition | null;
+  timeSinceLastSpawn: number;
+  nextSpawnInterval: number;
+  volleyCount: number; // Volleys fired since config.pattern last changed
+  accumulator: number; // Unsimulated time carried over between advance() calls
+  seed: number;
+  random: RandomSource; // Spawning only, so every technique sees the same attacks for a seed
+  effectRandom: RandomSource; // Forces and fragments
+  spatialHash: SpatialHash;
+  purpleShots: PurpleShot[]; // Fired Hollow Purple shots still in flight
+  nextShotId: number;
+  scheduled: ScheduledInput[]; // In the order they were scheduled
+  // Stats from the last step
+  activeCount: number;
+  trappedCount: number;
+  collisionCount: number;
+  approachSpeed: number; // Average speed towards the core (negative when moving away)
+  // Totals since the last reset
+  erasedCount: number; // Destroyed by the technique
+  escapedCount: number; // Left the simulation bounds
+  purpleErasedCount: number; // Erased by fired Hollow Purple shots (also counted in erasedCount)
+  reflectedCount: number; // Turned from heading towards the core to heading away by the technique
+  coreHits: number; // Reached the core while the barrier was down
+}
+
+export interface FireOptions {
+  color?: string; // Defaults to the kind's color, then config.projectileColor
+  kind?: ProjectileKind; // Defaults to a kind picked from config.projectileMix
+}
+
+export interface SimulationOptions {
+  capacity?: number;
+  seed?: number;
+}
+
+const createParticle = (id: number): ParticleState => ({
+  id,
+  x: 0,
+  y: 0,
+  z: 0,
+  vx: 0,
+  vy: 0,
+  vz: 0,
+  speed: 0,
+  kind: DEFAULT_KIND,
+  mass: 1,
+  radius: 0.15,
+  scale: 1,
+  age: 0,
+  color: '#ffffff',
+  active: false
+});
+
+export const createParticlePool = (capacity: number = MAX_PROJECTILES): ParticleState[] => {
+  const particles: ParticleState[] = [];
+  for (let i = 0; i < capacity; i++) {
+    particles.push(createParticle(i));
+  }
+  return particles;
+};
+
+export const createSimulation = (config: SimulationConfig, options: SimulationOptions = {}): SimulationState => {
+  const particles = createParticlePool(options.capacity);
+
+  const seed = options.seed ?? randomSeed();
+
+  return {
+    config: { ...config },
+    particles,
+    time: 0,
+    techniqueTime: 0,
+    transition: null,
+    timeSinceLastSpawn: 0,
+    nextSpawnInterval: 1 / (config.spawnRate || 1),
+    volleyCount: 0,
+    accumulator: 0,
+    seed,
+    random: createRandom(seed),
+    effectRandom: createRandom(deriveSeed(seed, EFFECT_STREAM)),
+    spatialHash: createSpatialHash(particles.length),
+    purpleShots: [],
+    nextShotId: 0,
+    scheduled: [],
+    activeCount: 0,
+    trappedCount: 0,
+    collisionCount: 0,
+    approachSpeed: 0,
+    erasedCount: 0,
+    escapedCount: 0,
+    purpleErasedCount: 0,
+    reflectedCount: 0,
+    coreHits: 0
+  };
+};
+
+export const setConfig = (state: SimulationState, config: Partial<SimulationConfig>) => {
+  if (config.technique !== undefined && config.technique !== state.config.technique) {
+    const duration = config.transitionDuration ?? state.config.transitionDuration ?? 0;
+    const outgoing = getTechniquePhysics(state.config.technique);
+    // A switch mid-transition starts over from the technique being left
+    state.transition = duration > 0 && outgoing ? {
+      from: outgoing.id,
+      params: resolveParams(outgoing, state.config.params),
+      techniqueTime: state.techniqueTime,
+      elapsed: 0,
+      duration
+    } : null;
+    state.techniqueTime = 0;
+  }
+  if (config.pattern !== undefined && config.pattern !== state.config.pattern) {
+    state.volleyCount = 0;
+  }
+  Object.assign(state.config, config);
+};
+
+/**
+ * Clears all projectiles and restarts the random sequence, optionally with a new seed.
+ */
+export const resetSimulation = (state: SimulationState, seed: number = state.seed) => {
+  // Settings still waiting take effect for the new run; attacks aimed at the old one are dropped
+  for (const input of state.scheduled) {
+    if (input.type === 'config') setConfig(state, input.config);
+  }
+  state.scheduled.length = 0;
+  for (const p of state.particles) {
+    Object.assign(p, createParticle(p.id));
+  }
+  state.time = 0;
+  state.techniqueTime = 0;
+  state.transition = null;
+  state.timeSinceLastSpawn = 0;
+  state.nextSpawnInterval = 1 / (state.config.spawnRate || 1);
+  state.volleyCount = 0;
+  state.accumulator = 0;
+  state.seed = seed;
+  state.random = createRandom(seed);
+  state.effectRandom = createRandom(deriveSeed(seed, EFFECT_STREAM));
+  state.activeCount = 0;
+  state.trappedCount = 0;
+  state.collisionCount = 0;
+  state.approachSpeed = 0;
+  state.erasedCount = 0;
+  state.escapedCount = 0;
+  state.purpleShots.length = 0;
+  state.nextShotId = 0;
+  state.purpleErasedCount = 0;
+  state.reflectedCount = 0;
+  state.coreHits = 0;
+};
+
+// --- Spawning ---
+
+/**
+ * Launches a projectile from `position` with `velocity` (scaled by the kind's speed factor).
+ * Returns null when the pool is full.
+ */
+export const fireParticle = (
+  state: SimulationState,
+  position: Vec3,
+  velocity: Vec3,
+  options: FireOptions = {}
+): ParticleState | null => {
+  // Drawn before looking for a slot, so the spawn sequence doesn't depend on how many
+  // projectiles the technique keeps alive
+  const kind = options.kind ?? pickProjectileKind(state.config.projectileMix ?? {}, state.random);
+
+  // Find first inactive slot
+  const slot = state.particles.find(p => !p.active);
+  if (!slot) return null;
+
+  const factor = kind.speedFactor;
+
+  slot.active = true;
+  slot.x = position.x;
+  slot.y = position.y;
+  slot.z = position.z;
+  slot.vx = velocity.x * factor;
+  slot.vy = velocity.y * factor;
+  slot.vz = velocity.z * factor;
+  slot.speed = Math.sqrt(slot.vx * slot.vx + slot.vy * slot.vy + slot.vz * slot.vz);
+
+  slot.kind = kind.id;
+  slot.mass = kind.mass;
+  slot.radius = kind.radius;
+  slot.color = options.color ?? kind.color ?? state.config.projectileColor;
+  slot.scale = 1;
+  slot.age = 0;
+
+  return slot;
+};
+
+/**
+ * Launches a Hollow Purple shot from `origin` along `direction`. Returns null when too many
+ * shots are in flight or `direction` has no length.
+ */
+export const firePurple = (state: SimulationState, origin: Vec3, direction: Vec3, options: PurpleShotOptions): PurpleShot | null => {
+  if (state.purpleShots.length >= MAX_PURPLE_SHOTS) return null;
+  const shot = createPurpleShot(state.nextShotId, origin, direction, options);
+  if (!shot) return null;
+  state.nextShotId++;
+  state.purpleShots.push(shot);
+  return shot;
+};
+
+export const scheduleInput = (state: SimulationState, input: ScheduledInput) => {
+  state.scheduled.push(input);
+};
+
+// Applies the scheduled inputs that are due, in the order they were scheduled
+const applyScheduledInputs = (state: SimulationState) => {
+  if (state.scheduled.length === 0) return;
+  const waiting: ScheduledInput[] = [];
+  for (const input of state.scheduled) {
+    if (input.at > state.time) {
+      waiting.push(input);
+    } else if (input.type === 'config') {
+      setConfig(state, input.config);
+    } else if (input.type === 'fire') {
+      fireParticle(state, input.position, input.velocity, input.options);
+    } else {
+      firePurple(state, input.origin, input.direction, input.options);
+    }
+  }
+  state.scheduled = waiting;
+};
+
+// Bursts a destroyed projectile into fragments flying outwards in random directions
+const spawnFragments = (state: SimulationState, x: number, y: number, z: number, kind: ProjectileKind) => {
+  const fragments = kind.fragments;
+  const fragmentKind = fragments && getProjectileKind(fragments.kind);
+  if (!fragments || !fragmentKind) return;
+
+  for (let i = 0; i < fragments.count; i++) {
+    // Uniform direction on the unit sphere
+    const u = state.effectRandom() * 2 - 1;
+    const theta = state.effectRandom() * Math.PI * 2;
+    const r = Math.sqrt(1 - u * u);
+    const speed = fragments.speed / fragmentKind.speedFactor;
+    fireParticle(
+      state,
+      { x, y, z },
+      { x: r * Math.cos(theta) * speed, y: u * speed, z: r * Math.sin(theta) * speed },
+      { kind: fragmentKind }
+    );
+  }
+};
+
+// Scratch context handed to attack patterns
+const patternContext: PatternContext = {
+  params: {},
+  random: Math.random,
+  rate: 1,
+  index: 0,
+  minSpeed: 0,
+  maxSpeed: 0,
+  fire: () => {}
+};
+
+const updateSpawner = (state: SimulationState, dt: number) => {
+  const { spawnRate, autoSpawn, minSpeed, maxSpeed } = state.config;
+  if (spawnRate <= 0 || autoSpawn === false) return;
+
+  state.timeSinceLastSpawn += dt;
+  if (state.timeSinceLastSpawn >= state.nextSpawnInterval) {
+    const pattern = getAttackPattern(state.config.pattern ?? DEFAULT_PATTERN) ?? getAttackPattern(DEFAULT_PATTERN)!;
+
+    const ctx = patternContext;
+    ctx.params = resolveParams(pattern, state.config.patternParams);
+    ctx.random = state.random;
+    ctx.rate = spawnRate;
+    ctx.index = state.volleyCount;
+    ctx.minSpeed = minSpeed;
+    ctx.maxSpeed = maxSpeed;
+    ctx.fire = (position, velocity) => { fireParticle(state, position, velocity); };
+
+    pattern.volley(ctx);
+    state.volleyCount++;
+    state.nextSpawnInterval = pattern.interval(ctx);
+    state.timeSinceLastSpawn = 0;
+  }
+};
+
+// --- Physics ---
+
+// Scratch context reused across particles to avoid allocations per step
+const forceContext: ForceContext = {
+  dt: 0,
+  techniqueTime: 0,
+  params: {},
+  random: Math.random,
+  velocity: { x: 0, y: 0, z: 0 },
+  move: { x: 0, y: 0, z: 0 },
+  trappedCount: 0,
+  isCrowded: false,
+  jitterScale: 1
+};
+
+const smoothstep = (t: number) => {
+  const x = Math.min(Math.max(t, 0), 1);
+  return x * x * (3 - 2 * x);
+};
+
+// What the outgoing technique did to the current particle during a transition
+const outgoingResult = { vx: 0, vy: 0, vz: 0, mx: 0, my: 0, mz: 0, scale: 1, active: true };
+
+/**
+ * Runs both the outgoing and the current technique's force on `p` and blends their effect,
+ * `weight` being the share of the current technique.
+ */
+const applyBlendedForce = (
+  p: ParticleState,
+  dist: number,
+  ctx: ForceContext,
+  current: TechniquePhysics | undefined,
+  outgoing: TechniquePhysics,
+  transition: TechniqueTransition,
+  weight: number
+) => {
+  const { velocity, move, params, techniqueTime } = ctx;
+  const startScale = p.scale;
+
+  ctx.params = transition.params;
+  ctx.techniqueTime = transition.techniqueTime;
+  outgoing.force(p, dist, ctx);
+  const out = outgoingResult;
+  out.vx = velocity.x; out.vy = velocity.y; out.vz = velocity.z;
+  out.mx = move.x; out.my = move.y; out.mz = move.z;
+  out.scale = p.scale;
+  out.active = p.active;
+
+  // Start over from the same state for the current technique
+  velocity.x = p.vx;
+  velocity.y = p.vy;
+  velocity.z = p.vz;
+  move.x = velocity.x * ctx.dt;
+  move.y = velocity.y * ctx.dt;
+  move.z = velocity.z * ctx.dt;
+  p.scale = startScale;
+  p.active = true;
+  ctx.params = params;
+  ctx.techniqueTime = techniqueTime;
+  current?.force(p, dist, ctx);
+
+  velocity.x = out.vx + (velocity.x - out.vx) * weight;
+  velocity.y = out.vy + (velocity.y - out.vy) * weight;
+  velocity.z = out.vz + (velocity.z - out.vz) * weight;
+  move.x = out.mx + (move.x - out.mx) * weight;
+  move.y = out.my + (move.y - out.my) * weight;
+  move.z = out.mz + (move.z - out.mz) * weight;
+  p.scale = out.scale + (p.scale - out.scale) * weight;
+  // Whichever technique dominates decides whether the projectile survives
+  if (weight < 0.5) p.active = out.active;
+};
+
+/**
+ * Advances the simulation by `dt` seconds. Mutates and returns `state`.
+ */
+export const step = (state: SimulationState, dt: number): SimulationState => {
+  applyScheduledInputs(state);
+
+  // Unknown techniques leave projectiles flying straight, and so does a barrier that is down
+  const barrierDown = state.config.barrierDown ?? false;
+  const definition = barrierDown ? undefined : getTechniquePhysics(state.config.technique);
+  const transition = state.transition;
+  const outgoing = transition && !barrierDown ? getTechniquePhysics(transition.from) : undefined;
+  // A raised barrier makes the core immune, even to projectiles a technique pulls into it,
+  // so hits only count while the barrier is down
+  const coreRadiusSq = barrierDown ? (state.config.coreRadius ?? 0) ** 2 : 0;
+  // Share of the current technique's force, eased in over the transition
+  const blend = transition ? smoothstep(transition.elapsed / transition.duration) : 1;
+  const trapRadiusSq = definition?.trapRadius ? definition.trapRadius * definition.trapRadius : 0;
+  const particles = state.particles;
+
+  updateSpawner(state, dt);
+
+  // First pass: count active and trapped (inside the technique's trap radius)
+  let activeCount = 0;
+  let trappedCount = 0;
+  for (const p of particles) {
+    if (!p.active) continue;
+    activeCount++;
+    if (p.x * p.x + p.y * p.y + p.z * p.z < trapRadiusSq) {
+      trappedCount++;
+    }
+  }
+
+  const ctx = forceContext;
+  ctx.dt = dt;
+  ctx.techniqueTime = state.techniqueTime;
+  ctx.params = definition ? resolveParams(definition, state.config.params) : {};
+  ctx.random = state.effectRandom;
+  ctx.trappedCount = trappedCount;
+  ctx.isCrowded = activeCount > 40;
+  ctx.jitterScale = state.config.jitterScale ?? 1;
+  const { velocity, move } = ctx;
+  const destroyed: ParticleState[] = [];
+  let approachTotal = 0;
+
+  // Second pass: integrate
+  for (const p of particles) {
+    if (!p.active) continue;
+
+    const dist = Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z);
+
+    velocity.x = p.vx;
+    velocity.y = p.vy;
+    velocity.z = p.vz;
+    move.x = velocity.x * dt;
+    move.y = velocity.y * dt;
+    move.z = velocity.z * dt;
+    const inbound = p.x * p.vx + p.y * p.vy + p.z * p.vz < 0;
+
+    if (outgoing && blend < 1) {
+      applyBlendedForce(p, dist, ctx, definition, outgoing, transition!, blend);
+    } else {
+      definition?.force(p, dist, ctx);
+    }
+    if (inbound && p.x * velocity.x + p.y * velocity.y + p.z * velocity.z > 0) state.reflectedCount++;
+
+    p.vx = velocity.x;
+    p.vy = velocity.y;
+    p.vz = velocity.z;
+    p.x += move.x;
+    p.y += move.y;
+    p.z += move.z;
+    p.speed = dt > 0 ? Math.sqrt(move.x * move.x + move.y * move.y + move.z * move.z) / dt : 0;
+    p.age += dt;
+    if (dist > 0 && dt > 0) {
+      // Radial part of this step's motion, measured from the starting position
+      approachTotal -= (move.x * (p.x - move.x) + move.y * (p.y - move.y) + move.z * (p.z - move.z)) / (dist * dt);
+    }
+
+    // Crushed or shrunk away by the technique (escaping the bounds doesn't count)
+    const wasDestroyed = !p.active || p.scale < 0.01;
+
+    const hitCore = !wasDestroyed && p.x * p.x + p.y * p.y + p.z * p.z < coreRadiusSq;
+
+    // Bounds check
+    const newDist = Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z);
+    if (newDist > DESPAWN_RADIUS || p.scale < 0.01 || isNaN(p.x) || hitCore) {
+      p.active = false;
+    }
+
+    if (wasDestroyed) state.erasedCount++;
+    else if (hitCore) state.coreHits++;
+    else if (!p.active && !isNaN(p.x)) state.escapedCount++;
+
+    if (wasDestroyed && !isNaN(p.x) && !definition?.erases && getProjectileKind(p.kind)?.fragments) {
+      destroyed.push(p);
+    }
+  }
+
+  if (state.purpleShots.length > 0) {
+    // Erased outright, so no fragments
+    const shotErased = advancePurpleShots(state.purpleShots, particles, dt, DESPAWN_RADIUS * 2);
+    state.erasedCount += shotErased;
+    state.purpleErasedCount += shotErased;
+  }
+
+  const collisionCount = resolveCollisions(state.spatialHash, particles, state.config.collisions ?? 'off');
+
+  // Fragments are spawned after integrating so they start moving next step
+  for (const p of destroyed) {
+    spawnFragments(state, p.x, p.y, p.z, getProjectileKind(p.kind)!);
+  }
+
+  state.time += dt;
+  state.techniqueTime += dt;
+  if (transition) {
+    transition.elapsed += dt;
+    transition.techniqueTime += dt;
+    if (transition.elapsed >= transition.duration) state.transition = null;
+  }
+  state.activeCount = activeCount;
+  state.trappedCount = trappedCount;
+  state.collisionCount = collisionCount;
+  state.approachSpeed = activeCount > 0 ? approachTotal / activeCount : 0;
+
+  return state;
+};
+
+/**
+ * Feeds variable frame time into the simulation and runs as many FIXED_TIMESTEP
+ * steps as fit. Leftover time is kept for the next call; deltas of 0 or less (or NaN)
+ * are ignored. Returns the number of steps run.
+ */
+export const advance = (state: SimulationState, frameDelta: number): number => {
+  // Time never runs backwards; a negative delta would hold the simulation until it was paid back
+  if (!(frameDelta > 0)) return 0;
+  state.accumulator += frameDelta;
+
+  let steps = 0;
+  while (state.accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_ADVANCE) {
+    step(state, FIXED_TIMESTEP);
+    state.accumulator -= FIXED_TIMESTEP;
+    steps++;
+  }
+
+  // Drop time we could not catch up on (e.g. after a tab was in the background)
+  if (steps === MAX_STEPS_PER_ADVANCE) {
+    state.accumulator = Math.min(state.accumulator, FIXED_TIMESTEP);
+  }
+
+  return steps;
+};
@@ -0,0 +1,222 @@
+import { ParticleState } from '../types';
+import { RandomSource } from './random';
+
+// Force functions for the built-in techniques. Each one adjusts a single projectile
+// for one step: `ctx.velocity` is the persistent velocity, `ctx.move` the displacement
+// applied this step (initialised to velocity * dt before the force runs). Forces that
+// accelerate objects divide by `p.mass`, so heavy projectiles resist them.
+
+export interface Vec3 { x: number; y: number; z: number; }
+
+// Tunable constants of a technique, keyed by parameter name
+export type TechniqueParams = Record<string, number>;
+
+export interface ForceContext {
+  dt: number;
+  techniqueTime: number; // Seconds since the current technique was activated
+  params: TechniqueParams; // Defaults merged with any tuned values
+  random: RandomSource;
+  velocity: Vec3;
+  move: Vec3;
+  trappedCount: number; // Projectiles within the technique's trap radius
+  isCrowded: boolean;
+  jitterScale: number; // Forces scale their addJitter intensity by this; lowered for reduced motion
+}
+
+export type TechniqueForce = (p: ParticleState, dist: number, ctx: ForceContext) => void;
+
+export const addJitter = (v: Vec3, intensity: number, random: RandomSource) => {
+  v.x += (random() - 0.5) * intensity;
+  v.y += (random() - 0.5) * intensity;
+  v.z += (random() - 0.5) * intensity;
+};
+
+export const setMoveFromVelocity = (ctx: ForceContext) => {
+  ctx.move.x = ctx.velocity.x * ctx.dt;
+  ctx.move.y = ctx.velocity.y * ctx.dt;
+  ctx.move.z = ctx.velocity.z * ctx.dt;
+};
+
+// The distance profiles below are shared with Math Mode, which plots them against distance.
+
+// Infinity: 0 at the stopping radius, 1 at the interaction radius
+export const neutralRatio = (dist: number, params: TechniqueParams) => {
+  const { interactionRadius, stoppingRadius } = params;
+  const d = Math.max(0, dist - stoppingRadius);
+  const range = Math.max(0.01, interactionRadius - stoppingRadius);
+  return d / range;
+};
+
+export const neutralSpeedFactor = (ratio: number) => Math.max(0.0001, Math.pow(ratio, 3));
+
+// Infinity: motion is scaled by a cubic falloff as the object nears the barrier
+export const neutralForce: TechniqueForce = (p, dist, ctx) => {
+  if (dist >= ctx.params.interactionRadius) return;
+
+  const ratio = neutralRatio(dist, ctx.params);
+  const speedFactor = neutralSpeedFactor(ratio);
+
+  ctx.move.x *= speedFactor;
+  ctx.move.y *= speedFactor;
+  ctx.move.z *= speedFactor;
+
+  if (ratio < 0.3 && ratio > 0.0) {
+    addJitter(ctx.move, 0.08 * (1 - (ratio / 0.3)) * ctx.jitterScale, ctx.random);
+  }
+
+  if (ctx.isCrowded) {
+    if (ratio < 0.5) p.scale *= 0.90;
+  } else {
+    if (ratio < 0.1) p.scale *= 0.995;
+  }
+};
+
+export const BLUE_CORE_RADIUS = 2.0;
+export const BLUE_ATTRACTION_RADIUS = 15.0;
+export const BLUE_DAMPING = 0.85; // Velocity kept per step near the core
+
+// Blue: strong attraction towards the core, crushing objects once it is crowded
+export const blueForce: TechniqueForce = (p, dist, ctx) => {
+  const coreRadius = BLUE_CORE_RADIUS;
+
+  if (dist < BLUE_ATTRACTION_RADIUS && dist > 0.1) {
+    const pull = (ctx.params.pullStrength * ctx.dt) / (dist * p.mass);
+    ctx.velocity.x -= p.x * pull;
+    ctx.velocity.y -= p.y * pull;
+    ctx.velocity.z -= p.z * pull;
+  }
+
+  if (dist < coreRadius + 1.0) {
+    ctx.velocity.x *= BLUE_DAMPING;
+    ctx.velocity.y *= BLUE_DAMPING;
+    ctx.velocity.z *= BLUE_DAMPING;
+    const range = coreRadius + 1.0;
+    const closeness = Math.max(0, 1 - (dist / range));
+    addJitter(ctx.move, (0.05 + Math.pow(closeness, 4) * 0.6) * ctx.jitterScale, ctx.random);
+  }
+
+  const { shrinkThreshold } = ctx.params;
+  if (ctx.trappedCount > shrinkThreshold && dist < coreRadius + 0.5) {
+    const excess = ctx.trappedCount - shrinkThreshold;
+    const shrinkFactor = 0.99 - (Math.min(excess, 50) * 0.005);
+    p.scale *= Math.max(0.8, shrinkFactor);
+  }
+
+  // Jitter is discarded once the pull has been integrated
+  setMoveFromVelocity(ctx);
+  if (p.scale < 0.1) p.active = false;
+};
+
+// Red: 1 at the core, falling off cubically to 0 at the repulsion radius
+export const redIntensity = (dist: number, params: TechniqueParams) => {
+  const { repulsionRadius, coreRadius } = params;
+  const rawDepth = Math.max(0, (dist - coreRadius) / Math.max(0.01, repulsionRadius - coreRadius));
+  return Math.pow(1 - rawDepth, 3);
+};
+
+export const RED_REFLECTION_GAIN = 40;
+
+// Red: repulsion that grows sharply near the core and reflects incoming objects
+export const redForce: TechniqueForce = (p, dist, ctx) => {
+  const { repulsionRadius, coreRadius } = ctx.params;
+  if (dist >= repulsionRadius) return;
+
+  let nx = 1, ny = 0, nz = 0;
+  if (dist > 0.01) {
+    nx = p.x / dist;
+    ny = p.y / dist;
+    nz = p.z / dist;
+  }
+
+  const approachSpeed = -(ctx.velocity.x * nx + ctx.velocity.y * ny + ctx.velocity.z * nz);
+  const intensity = redIntensity(dist, ctx.params);
+  const staticForce = ctx.params.staticForce * intensity;
+
+  let reflectionForce = 0;
+  if (approachSpeed > 0) {
+    reflectionForce = approachSpeed * (1 + RED_REFLECTION_GAIN * intensity);
+  }
+
+  const totalForce = ((staticForce + reflectionForce) * ctx.dt) / p.mass;
+
+  if (!isNaN(totalForce) && isFinite(totalForce)) {
+    ctx.velocity.x += nx * totalForce;
+    ctx.velocity.y += ny * totalForce;
+    ctx.velocity.z += nz * totalForce;
+    setMoveFromVelocity(ctx);
+  }
+
+  if (dist < coreRadius + 0.2) {
+    // Push back out to the shell and send the object away from the core
+    const shell = coreRadius + 0.2;
+    ctx.move.x += nx * shell - p.x;
+    ctx.move.y += ny * shell - p.y;
+    ctx.move.z += nz * shell - p.z;
+
+    if (approachSpeed > 0) {
+      const currentSpeed = Math.sqrt(ctx.velocity.x * ctx.velocity.x + ctx.velocity.y * ctx.velocity.y + ctx.velocity.z * ctx.velocity.z) * 0.8;
+      ctx.velocity.x = nx * currentSpeed;
+      ctx.velocity.y = ny * currentSpeed;
+      ctx.velocity.z = nz * currentSpeed;
+    }
+  }
+};
+
+// Purple: speed picks up linearly over the last 14 units before the core
+export const purpleSpeed = (dist: number) => 15 + Math.max(1, 15 - dist) * 2;
+
+export const PURPLE_SHRINK_RADIUS = 3.0;
+export const PURPLE_ERASE_RADIUS = 0.2;
+
+// Purple: objects spiral inwards at increasing speed and are erased near the core
+export const purpleForce: TechniqueForce = (p, dist, ctx) => {
+  let ix = 0, iy = 0, iz = 0;
+  if (dist > 0) {
+    ix = -p.x / dist;
+    iy = -p.y / dist;
+    iz = -p.z / dist;
+  }
+
+  // Tangent around the Y axis (up x position)
+  let tx = p.z, ty = 0, tz = -p.x;
+  const tLen = Math.sqrt(tx * tx + tz * tz);
+  if (tLen < 0.001) {
+    tx = 1; tz = 0;
+  } else {
+    tx /= tLen; tz /= tLen;
+  }
+
+  const speed = purpleSpeed(dist);
+
+  const { curveRatio } = ctx.params;
+  let dx = ix * (1 - curveRatio) + tx * curveRatio;
+  let dy = iy * (1 - curveRatio) + ty * curveRatio;
+  let dz = iz * (1 - curveRatio) + tz * curveRatio;
+  const dLen = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+  dx /= dLen; dy /= dLen; dz /= dLen;
+
+  ctx.velocity.x = dx * speed;
+  ctx.velocity.y = dy * speed;
+  ctx.velocity.z = dz * speed;
+
+  setMoveFromVelocity(ctx);
+  addJitter(ctx.move, (0.5 + (10 - dist) * 0.2) * ctx.jitterScale, ctx.random);
+
+  if (dist < PURPLE_SHRINK_RADIUS) p.scale *= 0.85;
+  if (p.scale < 0.05 || dist < PURPLE_ERASE_RADIUS) p.active = false;
+};
+
+// Unlimited Void: the domain expands from the core; everything inside is frozen in place
+export const domainRadiusAt = (time: number, params: TechniqueParams) => {
+  const progress = Math.min(1, time / Math.max(0.01, params.expandDuration));
+  return params.domainRadius * (1 - Math.pow(1 - progress, 3));
+};
+
+export const voidForce: TechniqueForce = (p, dist, ctx) => {
+  if (dist >= domainRadiusAt(ctx.techniqueTime, ctx.params)) return;
+
+  // Sure-hit: velocity is kept so objects resume if the domain collapses
+  ctx.move.x = 0;
+  ctx.move.y = 0;
+  ctx.move.z = 0;
+};
@@ -0,0 +1,217 @@
+import { SimulationState } from './engine';
+import { DEFAULT_KIND, PROJECTILE_KINDS, getProjectileKind } from './projectileKinds';
+import { MAX_PURPLE_SHOTS } from './hollowPurple';
+
+// Packed simulation frames exchanged with the simulation worker. A frame is a
+// Float64Array: a small header with the step stats, a record per Hollow Purple shot slot,
+// then a fixed-size record per particle slot. Only slots below the header's counts are written.
+
+export type SimulationSnapshot = Pick<
+  SimulationState,
+  'time' | 'particles' | 'activeCount' | 'trappedCount' | 'collisionCount' | 'approachSpeed' | 'erasedCount' | 'escapedCount'
+  | 'purpleShots' | 'purpleErasedCount' | 'reflectedCount' | 'coreHits'
+>;
+
+const HEADER_SIZE = 12;
+const H_TIME = 0;
+const H_ACTIVE = 1;
+const H_TRAPPED = 2;
+const H_COLLISIONS = 3;
+const H_COUNT = 4; // Slots written (highest active slot + 1)
+const H_APPROACH = 5;
+const H_ERASED = 6;
+const H_ESCAPED = 7;
+const H_SHOTS = 8; // Shots in flight
+const H_PURPLE_ERASED = 9;
+const H_REFLECTED = 10;
+const H_CORE_HITS = 11;
+
+const SHOT_STRIDE = 12;
+const S_ID = 0;
+const S_X = 1;
+const S_Y = 2;
+const S_Z = 3;
+const S_OX = 4; // Origin
+const S_OY = 5;
+const S_OZ = 6;
+const S_DX = 7; // Direction
+const S_DY = 8;
+const S_DZ = 9;
+const S_RADIUS = 10;
+const S_SPEED = 11;
+
+const PARTICLES_OFFSET = HEADER_SIZE + MAX_PURPLE_SHOTS * SHOT_STRIDE;
+
+const STRIDE = 12;
+const F_KIND = 0; // Index into PROJECTILE_KINDS, -1 when inactive
+const F_X = 1;
+const F_Y = 2;
+const F_Z = 3;
+const F_VX = 4;
+const F_VY = 5;
+const F_VZ = 6;
+const F_SPEED = 7;
+const F_SCALE = 8;
+const F_MASS = 9;
+const F_AGE = 10;
+const F_COLOR = 11; // 0xRRGGBB
+
+export const frameBufferBytes = (capacity: number) => (PARTICLES_OFFSET + capacity * STRIDE) * Float64Array.BYTES_PER_ELEMENT;
+
+const kindIndex = new Map(PROJECTILE_KINDS.map((kind, i) => [kind.id, i]));
+
+// Colors are stored as integers; both directions are cached since only a few colors are used
+const colorToInt = new Map<string, number>();
+const intToColor = new Map<number, string>();
+
+const packColor = (color: string) => {
+  let value = colorToInt.get(color);
+  if (value === undefined) {
+    value = parseInt(color.replace('#', ''), 16) || 0;
+    colorToInt.set(color, value);
+  }
+  return value;
+};
+
+const unpackColor = (value: number) => {
+  let color = intToColor.get(value);
+  if (color === undefined) {
+    color = `#${value.toString(16).padStart(6, '0')}`;
+    intToColor.set(value, color);
+  }
+  return color;
+};
+
+/**
+ * Writes the simulation's current state into `buffer`.
+ */
+export const packSimulation = (state: SimulationState, buffer: Float64Array) => {
+  const { particles } = state;
+
+  let count = 0;
+  for (let i = particles.length - 1; i >= 0; i--) {
+    if (particles[i].active) {
+      count = i + 1;
+      break;
+    }
+  }
+
+  buffer[H_TIME] = state.time;
+  buffer[H_ACTIVE] = state.activeCount;
+  buffer[H_TRAPPED] = state.trappedCount;
+  buffer[H_COLLISIONS] = state.collisionCount;
+  buffer[H_COUNT] = count;
+  buffer[H_APPROACH] = state.approachSpeed;
+  buffer[H_ERASED] = state.erasedCount;
+  buffer[H_ESCAPED] = state.escapedCount;
+  buffer[H_PURPLE_ERASED] = state.purpleErasedCount;
+  buffer[H_REFLECTED] = state.reflectedCount;
+  buffer[H_CORE_HITS] = state.coreHits;
+
+  const shots = state.purpleShots;
+  const shotCount = Math.min(shots.length, MAX_PURPLE_SHOTS);
+  buffer[H_SHOTS] = shotCount;
+  for (let i = 0; i < shotCount; i++) {
+    const shot = shots[i];
+    const o = HEADER_SIZE + i * SHOT_STRIDE;
+    buffer[o + S_ID] = shot.id;
+    buffer[o + S_X] = shot.x;
+    buffer[o + S_Y] = shot.y;
+    buffer[o + S_Z] = shot.z;
+    buffer[o + S_OX] = shot.origin.x;
+    buffer[o + S_OY] = shot.origin.y;
+    buffer[o + S_OZ] = shot.origin.z;
+    buffer[o + S_DX] = shot.direction.x;
+    buffer[o + S_DY] = shot.direction.y;
+    buffer[o + S_DZ] = shot.direction.z;
+    buffer[o + S_RADIUS] = shot.radius;
+    buffer[o + S_SPEED] = shot.speed;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const p = particles[i];
+    const o = PARTICLES_OFFSET + i * STRIDE;
+    if (!p.active) {
+      buffer[o + F_KIND] = -1;
+      continue;
+    }
+    buffer[o + F_KIND] = kindIndex.get(p.kind) ?? 0;
+    buffer[o + F_X] = p.x;
+    buffer[o + F_Y] = p.y;
+    buffer[o + F_Z] = p.z;
+    buffer[o + F_VX] = p.vx;
+    buffer[o + F_VY] = p.vy;
+    buffer[o + F_VZ] = p.vz;
+    buffer[o + F_SPEED] = p.speed;
+    buffer[o + F_SCALE] = p.scale;
+    buffer[o + F_MASS] = p.mass;
+    buffer[o + F_AGE] = p.age;
+    buffer[o + F_COLOR] = packColor(p.color);
+  }
+};
+
+/**
+ * Copies a packed frame into `snapshot`, reusing its particle objects.
+ */
+export const unpackSimulation = (buffer: Float64Array, snapshot: SimulationSnapshot) => {
+  const { particles } = snapshot;
+  const count = Math.min(buffer[H_COUNT], particles.length);
+
+  snapshot.time = buffer[H_TIME];
+  snapshot.activeCount = buffer[H_ACTIVE];
+  snapshot.trappedCount = buffer[H_TRAPPED];
+  snapshot.collisionCount = buffer[H_COLLISIONS];
+  snapshot.approachSpeed = buffer[H_APPROACH];
+  snapshot.erasedCount = buffer[H_ERASED];
+  snapshot.escapedCount = buffer[H_ESCAPED];
+  snapshot.purpleErasedCount = buffer[H_PURPLE_ERASED];
+  snapshot.reflectedCount = buffer[H_REFLECTED];
+  snapshot.coreHits = buffer[H_CORE_HITS];
+
+  // Shot objects are reused too; erased counts per shot are not sent
+  const shots = snapshot.purpleShots;
+  const shotCount = Math.min(buffer[H_SHOTS], MAX_PURPLE_SHOTS);
+  for (let i = 0; i < shotCount; i++) {
+    const o = HEADER_SIZE + i * SHOT_STRIDE;
+    const shot = shots[i] ?? (shots[i] = { id: 0, x: 0, y: 0, z: 0, origin: { x: 0, y: 0, z: 0 }, direction: { x: 0, y: 0, z: 0 }, radius: 0, speed: 0, erased: 0 });
+    shot.id = buffer[o + S_ID];
+    shot.x = buffer[o + S_X];
+    shot.y = buffer[o + S_Y];
+    shot.z = buffer[o + S_Z];
+    shot.origin.x = buffer[o + S_OX];
+    shot.origin.y = buffer[o + S_OY];
+    shot.origin.z = buffer[o + S_OZ];
+    shot.direction.x = buffer[o + S_DX];
+    shot.direction.y = buffer[o + S_DY];
+    shot.direction.z = buffer[o + S_DZ];
+    shot.radius = buffer[o + S_RADIUS];
+    shot.speed = buffer[o + S_SPEED];
+  }
+  shots.length = shotCount;
+
+  for (let i = 0; i < particles.length; i++) {
+    const p = particles[i];
+    const o = PARTICLES_OFFSET + i * STRIDE;
+    // Slots past `count` hold stale data from earlier frames
+    if (i >= count || buffer[o + F_KIND] < 0) {
+      p.active = false;
+      continue;
+    }
+
+    const kind = PROJECTILE_KINDS[buffer[o + F_KIND]] ?? getProjectileKind(DEFAULT_KIND)!;
+    p.active = true;
+    p.kind = kind.id;
+    p.radius = kind.radius;
+    p.x = buffer[o + F_X];
+    p.y = buffer[o + F_Y];
+    p.z = buffer[o + F_Z];
+    p.vx = buffer[o + F_VX];
+    p.vy = buffer[o + F_VY];
+    p.vz = buffer[o + F_VZ];
+    p.speed = buffer[o + F_SPEED];
+    p.scale = buffer[o + F_SCALE];
+    p.mass = buffer[o + F_MASS];
+    p.age = buffer[o + F_AGE];
+    p.color = unpackColor(buffer[o + F_COLOR]);
+  }
+};
@@ -0,0 +1,140 @@
+import { SimulationConfig } from './engine';
+import { SimulationSnapshot } from './frameBuffer';
+import { ATTACK_PATTERNS } from './patterns';
+
+// Challenge mode. The player holds off escalating waves of attacks on a cursed-energy
+// budget: the active technique drains energy each second and energy regenerates slowly.
+// When it runs out the barrier drops until enough has recovered, and projectiles that
+// reach the core cost health; while the barrier is up the core is immune. Plain data
+// like the engine; the render loop advances it from the simulation's running totals
+// and panels poll it.
+
+export const MAX_ENERGY = 100;
+export const MAX_HEALTH = 100;
+export const ENERGY_REGEN = 8; // Per second
+export const DEFAULT_ENERGY_COST = 10; // Per second, for techniques without an energyCost
+export const RECOVER_ENERGY = 30; // The barrier comes back up once energy has recovered this far
+export const HIT_DAMAGE = 5;
+export const CORE_RADIUS = 1; // Projectiles this close to the core hit it while the barrier is down
+export const WAVE_DURATION = 20; // Seconds of attacks per wave
+export const WAVE_BREAK = 4; // Seconds of calm before the next wave
+const MAX_WAVE_RATE = 8; // Top of the Attack Rate range
+
+const POINTS_PER_ERASURE = 10;
+const POINTS_PER_REFLECTION = 5;
+const WAVE_BONUS = 100; // Times the wave number, for surviving it
+
+export type GameStatus = 'playing' | 'over';
+
+// Running totals of the simulation, as in its snapshot
+export type GameTotals = Pick<SimulationSnapshot, 'erasedCount' | 'reflectedCount' | 'coreHits'>;
+
+export interface GameState {
+  status: GameStatus;
+  time: number; // Seconds played
+  energy: number;
+  health: number;
+  score: number;
+  wave: number; // 1-based
+  waveTime: number; // Seconds into the current wave, its break included
+  barrierDown: boolean;
+  hits: number; // Projectiles that reached the core
+  version: number; // Bumped whenever the simulation settings for the game change
+  seen: GameTotals; // Totals already scored
+}
+
+// Attack settings for a wave; later waves come faster, denser and from more patterns
+export interface WaveSettings {
+  spawnRate: number;
+  minSpeed: number;
+  maxSpeed: number;
+  pattern: string;
+}
+
+export const getWave = (wave: number): WaveSettings => ({
+  spawnRate: Math.min(MAX_WAVE_RATE, wave + 1),
+  minSpeed: Math.min(30, 4 + wave * 2),
+  maxSpeed: Math.min(45, 10 + wave * 3),
+  pattern: ATTACK_PATTERNS[(wave - 1) % ATTACK_PATTERNS.length].id
+});
+
+export const createGame = (): GameState => ({
+  status: 'playing',
+  time: 0,
+  energy: MAX_ENERGY,
+  health: MAX_HEALTH,
+  score: 0,
+  wave: 1,
+  waveTime: 0,
+  barrierDown: false,
+  hits: 0,
+  version: 0,
+  seen: { erasedCount: 0, reflectedCount: 0, coreHits: 0 }
+});
+
+export const isWaveBreak = (game: GameState) => game.waveTime >= WAVE_DURATION;
+
+/**
+ * What the game overrides in the simulation config: the current wave's attacks, none
+ * during breaks or after the game is over, and the barrier state.
+ */
+export const getGameConfig = (game: GameState): Partial<SimulationConfig> => {
+  const wave = getWave(game.wave);
+  return {
+    spawnRate: wave.spawnRate,
+    minSpeed: wave.minSpeed,
+    maxSpeed: wave.maxSpeed,
+    pattern: wave.pattern,
+    patternParams: {},
+    autoSpawn: game.status === 'playing' && !isWaveBreak(game),
+    barrierDown: game.barrierDown,
+    coreRadius: CORE_RADIUS
+  };
+};
+
+// Totals restart with the run, so a total going down means everything is new
+const since = (total: number, seen: number) => (total >= seen ? total - seen : total);
+
+/**
+ * Advances the game by `delta` seconds, scoring what happened in the simulation since the
+ * last call. `energyCost` is the active technique's drain per second.
+ */
+export const advanceGame = (game: GameState, delta: number, energyCost: number, totals: GameTotals) => {
+  const erased = since(totals.erasedCount, game.seen.erasedCount);
+  const reflected = since(totals.reflectedCount, game.seen.reflectedCount);
+  const hits = since(totals.coreHits, game.seen.coreHits);
+  game.seen = { erasedCount: totals.erasedCount, reflectedCount: totals.reflectedCount, coreHits: totals.coreHits };
+  if (game.status === 'over') return;
+
+  game.time += delta;
+  game.score += (erased * POINTS_PER_ERASURE + reflected * POINTS_PER_REFLECTION) * game.wave;
+  game.hits += hits;
+  game.health = Math.max(0, game.health - hits * HIT_DAMAGE);
+  if (game.health === 0) {
+    game.status = 'over';
+    game.version++;
+    return;
+  }
+
+  // No drain while the barrier is down, so it recovers at the full rate
+  const drain = game.barrierDown ? 0 : energyCost;
+  game.energy = Math.min(MAX_ENERGY, Math.max(0, game.energy + (ENERGY_REGEN - drain) * delta));
+  if (!game.barrierDown && game.energy === 0) {
+    game.barrierDown = true;
+    game.version++;
+  } else if (game.barrierDown && game.energy >= RECOVER_ENERGY) {
+    game.barrierDown = false;
+    game.version++;
+  }
+
+  const wasBreak = isWaveBreak(game);
+  game.waveTime += delta;
+  if (!wasBreak && isWaveBreak(game)) {
+    game.score += WAVE_BONUS * game.wave;
+    game.version++;
+  } else if (game.waveTime >= WAVE_DURATION + WAVE_BREAK) {
+    game.wave++;
+    game.waveTime = 0;
+    game.version++;
+  }
+};
@@ -0,0 +1,106 @@
+import { ParticleState } from '../types';
+import { Vec3 } from './forces';
+
+// Fired Hollow Purple: a sphere launched from the barrier that travels in a straight line
+// and erases every projectile its volume sweeps through. Shots live in the simulation so
+// they stay in step with the projectiles they hit; the scene draws them from the frames.
+
+export const MAX_PURPLE_SHOTS = 8;
+
+export interface PurpleShotOptions {
+  radius: number;
+  speed: number; // World units per second
+}
+
+export const DEFAULT_PURPLE_SHOT: PurpleShotOptions = { radius: 1.5, speed: 12 };
+
+export interface PurpleShot {
+  id: number; // Increases with every shot fired, so the scene can tell shots apart
+  x: number;
+  y: number;
+  z: number;
+  origin: Vec3;
+  direction: Vec3; // Unit length
+  radius: number;
+  speed: number;
+  erased: number; // Projectiles erased by this shot
+}
+
+// Erased counts for the HUD: projectiles come from the simulation, ambient particles from the scene
+export interface PurpleTally {
+  projectiles: number;
+  ambient: number;
+}
+
+export const createPurpleTally = (): PurpleTally => ({ projectiles: 0, ambient: 0 });
+
+/**
+ * Returns a shot starting at `origin`, or null when `direction` has no length.
+ */
+export const createPurpleShot = (id: number, origin: Vec3, direction: Vec3, options: PurpleShotOptions): PurpleShot | null => {
+  const length = Math.sqrt(direction.x * direction.x + direction.y * direction.y + direction.z * direction.z);
+  if (!(length > 0)) return null;
+  return {
+    id,
+    x: origin.x,
+    y: origin.y,
+    z: origin.z,
+    origin: { x: origin.x, y: origin.y, z: origin.z },
+    direction: { x: direction.x / length, y: direction.y / length, z: direction.z / length },
+    radius: options.radius,
+    speed: options.speed,
+    erased: 0
+  };
+};
+
+/**
+ * Squared distance from (px, py, pz) to the segment `from` + t·`direction`, 0 <= t <= length.
+ */
+export const segmentDistanceSq = (px: number, py: number, pz: number, from: Vec3, direction: Vec3, length: number) => {
+  const rx = px - from.x;
+  const ry = py - from.y;
+  const rz = pz - from.z;
+  const t = Math.min(Math.max(rx * direction.x + ry * direction.y + rz * direction.z, 0), length);
+  const dx = rx - direction.x * t;
+  const dy = ry - direction.y * t;
+  const dz = rz - direction.z * t;
+  return dx * dx + dy * dy + dz * dz;
+};
+
+const sweepStart: Vec3 = { x: 0, y: 0, z: 0 };
+
+/**
+ * Moves every shot by `dt` and erases the projectiles it swept through, removing shots
+ * that travelled further than `range`. Returns the number of projectiles erased.
+ */
+export const advancePurpleShots = (shots: PurpleShot[], particles: ParticleState[], dt: number, range: number): number => {
+  let erased = 0;
+
+  for (let s = shots.length - 1; s >= 0; s--) {
+    const shot = shots[s];
+    const travel = shot.speed * dt;
+    sweepStart.x = shot.x;
+    sweepStart.y = shot.y;
+    sweepStart.z = shot.z;
+    shot.x += shot.direction.x * travel;
+    shot.y += shot.direction.y * travel;
+    shot.z += shot.direction.z * travel;
+
+    for (const p of particles) {
+      if (!p.active) continue;
+      const reach = shot.radius + p.radius * p.scale;
+      if (segmentDistanceSq(p.x, p.y, p.z, sweepStart, shot.direction, travel) < reach * reach) {
+        p.active = false;
+        shot.erased++;
+        erased++;
+      }
+    }
+
+    const ox = shot.x - shot.origin.x;
+    const oy = shot.y - shot.origin.y;
+    const oz = shot.z - shot.origin.z;
+    if (ox * ox + oy * oy + oz * oz > range * range) shots.splice(s, 1);
+  }
+
+  return erased;
+};
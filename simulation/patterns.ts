@@ -0,0 +1,232 @@
+import { TechniqueParamSpec } from '../techniques/registry';
+import { TechniqueParams, Vec3 } from './forces';
+import { RandomSource } from './random';
+
+// Attack patterns decide where, when and how projectiles are launched. Patterns fire in
+// volleys: volley() launches one, interval() returns the seconds until the next. The
+// Attack Rate control sets the pace (roughly volleys per second) for every pattern.
+
+export const SPAWN_RADIUS = 14;
+export const SPAWN_HEIGHT = 12;
+
+export type AttackPatternId = string;
+
+export interface PatternContext {
+  params: TechniqueParams; // Resolved values for the pattern's params
+  random: RandomSource;
+  rate: number; // Attack Rate
+  index: number; // Volleys fired since the pattern started
+  minSpeed: number;
+  maxSpeed: number;
+  fire: (position: Vec3, velocity: Vec3) => void;
+}
+
+export interface AttackPattern {
+  id: AttackPatternId;
+  label: string;
+  description: string;
+  params?: TechniqueParamSpec[];
+  volley: (ctx: PatternContext) => void;
+  interval: (ctx: PatternContext) => number;
+}
+
+const DEG = Math.PI / 180;
+
+const randomSpeed = (ctx: PatternContext) => ctx.minSpeed + ctx.random() * (ctx.maxSpeed - ctx.minSpeed);
+const midSpeed = (ctx: PatternContext) => (ctx.minSpeed + ctx.maxSpeed) / 2;
+
+// Unit vector pointing from the origin towards azimuth/elevation (radians)
+const direction = (azimuth: number, elevation: number): Vec3 => ({
+  x: Math.cos(elevation) * Math.cos(azimuth),
+  y: Math.sin(elevation),
+  z: Math.cos(elevation) * Math.sin(azimuth)
+});
+
+// Fires from `position` straight at the origin
+const fireAtOrigin = (ctx: PatternContext, position: Vec3, speed: number) => {
+  const len = Math.sqrt(position.x * position.x + position.y * position.y + position.z * position.z) || 1;
+  ctx.fire(position, {
+    x: (-position.x / len) * speed,
+    y: (-position.y / len) * speed,
+    z: (-position.z / len) * speed
+  });
+};
+
+const ring: AttackPattern = {
+  id: 'ring',
+  label: 'Random Ring',
+  description: 'Single shots from random points on a ring around the barrier.',
+  volley: (ctx) => {
+    const angle = ctx.random() * Math.PI * 2;
+    const position = {
+      x: Math.cos(angle) * SPAWN_RADIUS,
+      y: (ctx.random() - 0.5) * SPAWN_HEIGHT,
+      z: Math.sin(angle) * SPAWN_RADIUS
+    };
+    fireAtOrigin(ctx, position, randomSpeed(ctx));
+  },
+  interval: (ctx) => {
+    const baseInterval = 1 / ctx.rate;
+    const variation = baseInterval * 0.3;
+    return baseInterval + (ctx.random() * variation * 2 - variation);
+  }
+};
+
+const burst: AttackPattern = {
+  id: 'burst',
+  label: 'Burst Volley',
+  description: 'Clusters of shots launched together from one side.',
+  params: [
+    { key: 'count', label: 'Shots per Burst', default: 8, min: 2, max: 24, step: 1 },
+    { key: 'spread', label: 'Spread (°)', default: 30, min: 0, max: 120, step: 5 },
+    { key: 'pause', label: 'Pause Multiplier', default: 2, min: 1, max: 6, step: 0.5 }
+  ],
+  volley: (ctx) => {
+    const { count, spread } = ctx.params;
+    const center = ctx.random() * Math.PI * 2;
+    const speed = randomSpeed(ctx);
+    for (let i = 0; i < count; i++) {
+      const angle = center + (ctx.random() - 0.5) * spread * DEG;
+      const position = {
+        x: Math.cos(angle) * SPAWN_RADIUS,
+        y: (ctx.random() - 0.5) * SPAWN_HEIGHT * (spread / 120),
+        z: Math.sin(angle) * SPAWN_RADIUS
+      };
+      fireAtOrigin(ctx, position, speed);
+    }
+  },
+  interval: (ctx) => ctx.params.pause / ctx.rate
+};
+
+const spiral: AttackPattern = {
+  id: 'spiral',
+  label: 'Spiral',
+  description: 'A steady stream whose origin sweeps around the barrier.',
+  params: [
+    { key: 'arms', label: 'Arms', default: 2, min: 1, max: 6, step: 1 },
+    { key: 'turn', label: 'Turn per Shot (°)', default: 12, min: 1, max: 45, step: 1 },
+    { key: 'wave', label: 'Height Wave', default: 3, min: 0, max: 6, step: 0.5 }
+  ],
+  volley: (ctx) => {
+    const { arms, turn, wave } = ctx.params;
+    const base = ctx.index * turn * DEG;
+    const y = Math.sin(ctx.index * 0.15) * wave;
+    for (let arm = 0; arm < arms; arm++) {
+      const angle = base + (arm / arms) * Math.PI * 2;
+      fireAtOrigin(ctx, { x: Math.cos(angle) * SPAWN_RADIUS, y, z: Math.sin(angle) * SPAWN_RADIUS }, midSpeed(ctx));
+    }
+  },
+  interval: (ctx) => 1 / (ctx.rate * 4)
+};
+
+const barrage: AttackPattern = {
+  id: 'barrage',
+  label: 'Barrage',
+  description: 'Parallel shots all coming from a single direction.',
+  params: [
+    { key: 'azimuth', label: 'Direction (°)', default: 0, min: 0, max: 360, step: 5 },
+    { key: 'elevation', label: 'Elevation (°)', default: 0, min: -60, max: 60, step: 5 },
+    { key: 'width', label: 'Width', default: 3, min: 0.5, max: 8, step: 0.5 }
+  ],
+  volley: (ctx) => {
+    const { azimuth, elevation, width } = ctx.params;
+    const dir = direction(azimuth * DEG, elevation * DEG);
+    // Two axes spanning the plane perpendicular to the direction
+    const side = { x: -Math.sin(azimuth * DEG), y: 0, z: Math.cos(azimuth * DEG) };
+    const up = {
+      x: dir.y * side.z - dir.z * side.y,
+      y: dir.z * side.x - dir.x * side.z,
+      z: dir.x * side.y - dir.y * side.x
+    };
+    const a = (ctx.random() - 0.5) * width;
+    const b = (ctx.random() - 0.5) * width;
+    const speed = randomSpeed(ctx);
+    ctx.fire(
+      {
+        x: dir.x * SPAWN_RADIUS + side.x * a + up.x * b,
+        y: dir.y * SPAWN_RADIUS + side.y * a + up.y * b,
+        z: dir.z * SPAWN_RADIUS + side.z * a + up.z * b
+      },
+      { x: -dir.x * speed, y: -dir.y * speed, z: -dir.z * speed }
+    );
+  },
+  interval: (ctx) => 1 / (ctx.rate * 3)
+};
+
+const sniper: AttackPattern = {
+  id: 'sniper',
+  label: 'Sniper Line',
+  description: 'Fast shots along exactly the same line, one after another.',
+  params: [
+    { key: 'azimuth', label: 'Direction (°)', default: 90, min: 0, max: 360, step: 5 },
+    { key: 'elevation', label: 'Elevation (°)', default: 0, min: -60, max: 60, step: 5 },
+    { key: 'boost', label: 'Speed Boost', default: 1.5, min: 1, max: 3, step: 0.1 }
+  ],
+  volley: (ctx) => {
+    const { azimuth, elevation, boost } = ctx.params;
+    const dir = direction(azimuth * DEG, elevation * DEG);
+    const speed = ctx.maxSpeed * boost;
+    ctx.fire(
+      { x: dir.x * SPAWN_RADIUS, y: dir.y * SPAWN_RADIUS, z: dir.z * SPAWN_RADIUS },
+      { x: -dir.x * speed, y: -dir.y * speed, z: -dir.z * speed }
+    );
+  },
+  interval: (ctx) => 1 / (ctx.rate * 2)
+};
+
+const waves: AttackPattern = {
+  id: 'waves',
+  label: 'Bullet Hell',
+  description: 'Expanding rings of shots closing in from every side, each wave rotated.',
+  params: [
+    { key: 'count', label: 'Shots per Wave', default: 24, min: 6, max: 64, step: 1 },
+    { key: 'rotation', label: 'Rotation per Wave (°)', default: 7.5, min: 0, max: 45, step: 0.5 },
+    { key: 'tilt', label: 'Tilt (°)', default: 0, min: 0, max: 60, step: 5 }
+  ],
+  volley: (ctx) => {
+    const { count, rotation, tilt } = ctx.params;
+    const offset = ctx.index * rotation * DEG;
+    // Alternate the tilt direction between waves
+    const tiltAngle = (ctx.index % 2 === 0 ? 1 : -1) * tilt * DEG;
+    const speed = midSpeed(ctx);
+    for (let i = 0; i < count; i++) {
+      const angle = offset + (i / count) * Math.PI * 2;
+      const x = Math.cos(angle) * SPAWN_RADIUS;
+      const z = Math.sin(angle) * SPAWN_RADIUS;
+      fireAtOrigin(ctx, { x, y: z * Math.sin(tiltAngle), z: z * Math.cos(tiltAngle) }, speed);
+    }
+  },
+  interval: (ctx) => 3 / ctx.rate
+};
+
+const rain: AttackPattern = {
+  id: 'rain',
+  label: 'Rain',
+  description: 'Shots falling straight down from above the barrier.',
+  params: [
+    { key: 'area', label: 'Area Radius', default: 6, min: 1, max: 14, step: 0.5 },
+    { key: 'density', label: 'Drops per Volley', default: 4, min: 1, max: 12, step: 1 },
+    { key: 'drift', label: 'Wind Drift', default: 0, min: -5, max: 5, step: 0.5 }
+  ],
+  volley: (ctx) => {
+    const { area, density, drift } = ctx.params;
+    for (let i = 0; i < density; i++) {
+      // Uniform point on a disc
+      const angle = ctx.random() * Math.PI * 2;
+      const r = Math.sqrt(ctx.random()) * area;
+      ctx.fire(
+        { x: Math.cos(angle) * r - drift, y: SPAWN_RADIUS, z: Math.sin(angle) * r },
+        { x: drift, y: -randomSpeed(ctx), z: 0 }
+      );
+    }
+  },
+  interval: (ctx) => 1 / ctx.rate
+};
+
+export const DEFAULT_PATTERN: AttackPatternId = ring.id;
+
+// Built-in patterns, in the order shown in the Controls panel
+export const ATTACK_PATTERNS: AttackPattern[] = [ring, burst, spiral, barrage, sniper, waves, rain];
+
+export const getAttackPattern = (id: AttackPatternId): AttackPattern | undefined =>
+  ATTACK_PATTERNS.find(pattern => pattern.id === id);
@@ -0,0 +1,154 @@
+import { ParticleState } from '../types';
+import { Vec3 } from './forces';
+
+// Live readout of a single selected projectile, shared by Math Mode and the inspector. The
+// scene picks a particle slot and refreshes the readout whenever a new frame is drawn; the
+// panels poll it.
+
+export const MAX_PROBE_HISTORY = 2000; // Trajectory points kept, oldest dropped first
+
+export interface ProjectileProbe {
+  slot: number | null; // Selected particle slot, null when nothing is selected
+  kind: string;
+  mass: number;
+  position: Vec3;
+  distance: number; // From the core
+  speed: number;
+  force: number; // Mass times the change in velocity per second
+  // Last readout, to measure the velocity change and to notice a reused slot
+  time: number;
+  age: number;
+  velocity: Vec3;
+  // Positions since the projectile was selected, xyz per point
+  history: Float32Array;
+  historyLength: number; // Points in use
+  historyVersion: number; // Bumped on every change, so renderers know when to upload
+}
+
+export const createProbe = (): ProjectileProbe => ({
+  slot: null,
+  kind: '',
+  mass: 0,
+  position: { x: 0, y: 0, z: 0 },
+  distance: 0,
+  speed: 0,
+  force: 0,
+  time: 0,
+  age: 0,
+  velocity: { x: 0, y: 0, z: 0 },
+  history: new Float32Array(MAX_PROBE_HISTORY * 3),
+  historyLength: 0,
+  historyVersion: 0
+});
+
+const recordPosition = (probe: ProjectileProbe, p: ParticleState) => {
+  const { history } = probe;
+  if (probe.historyLength === MAX_PROBE_HISTORY) {
+    history.copyWithin(0, 3);
+    probe.historyLength--;
+  }
+  const o = probe.historyLength * 3;
+  history[o] = p.x;
+  history[o + 1] = p.y;
+  history[o + 2] = p.z;
+  probe.historyLength++;
+  probe.historyVersion++;
+};
+
+const clearHistory = (probe: ProjectileProbe) => {
+  probe.historyLength = 0;
+  probe.historyVersion++;
+};
+
+const readParticle = (probe: ProjectileProbe, p: ParticleState, time: number) => {
+  probe.kind = p.kind;
+  probe.mass = p.mass;
+  probe.position.x = p.x;
+  probe.position.y = p.y;
+  probe.position.z = p.z;
+  probe.distance = Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z);
+  probe.speed = p.speed;
+  probe.time = time;
+  probe.age = p.age;
+  probe.velocity.x = p.vx;
+  probe.velocity.y = p.vy;
+  probe.velocity.z = p.vz;
+};
+
+/**
+ * Selects the particle in `slot`, or clears the selection with null.
+ */
+export const selectParticle = (probe: ProjectileProbe, particles: ParticleState[], slot: number | null, time: number) => {
+  const p = slot === null ? undefined : particles[slot];
+  clearHistory(probe);
+  if (!p || !p.active) {
+    probe.slot = null;
+    return;
+  }
+  probe.slot = slot;
+  probe.force = 0;
+  readParticle(probe, p, time);
+  recordPosition(probe, p);
+};
+
+export const clearSelection = (probe: ProjectileProbe) => {
+  probe.slot = null;
+  clearHistory(probe);
+};
+
+/**
+ * Refreshes the readout from the latest frame. Drops the selection once the projectile
+ * is gone or its slot has been reused.
+ */
+export const updateProbe = (probe: ProjectileProbe, particles: ParticleState[], time: number) => {
+  if (probe.slot === null) return;
+  const p = particles[probe.slot];
+  if (!p || !p.active || p.age < probe.age) {
+    probe.slot = null;
+    return;
+  }
+
+  const dt = time - probe.time;
+  if (dt > 0) {
+    const dvx = p.vx - probe.velocity.x;
+    const dvy = p.vy - probe.velocity.y;
+    const dvz = p.vz - probe.velocity.z;
+    probe.force = (p.mass * Math.sqrt(dvx * dvx + dvy * dvy + dvz * dvz)) / dt;
+  } else if (dt < 0) {
+    probe.force = 0; // Playback jumped back
+    clearHistory(probe);
+  }
+  readParticle(probe, p, time);
+  if (dt !== 0) recordPosition(probe, p);
+};
+
+/**
+ * Finds the active particle closest to a ray (unit `direction`), within `tolerance` of
+ * its surface. Returns its slot, or null when nothing is close enough.
+ */
+export const pickParticle = (particles: ParticleState[], origin: Vec3, direction: Vec3, tolerance: number): number | null => {
+  let best: number | null = null;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < particles.length; i++) {
+    const p = particles[i];
+    if (!p.active) continue;
+
+    const ox = p.x - origin.x;
+    const oy = p.y - origin.y;
+    const oz = p.z - origin.z;
+    const along = ox * direction.x + oy * direction.y + oz * direction.z;
+    if (along < 0) continue; // Behind the camera
+
+    const px = ox - direction.x * along;
+    const py = oy - direction.y * along;
+    const pz = oz - direction.z * along;
+    const offset = Math.sqrt(px * px + py * py + pz * pz) - p.radius * p.scale;
+    if (offset < tolerance && offset < bestDistance) {
+      best = i;
+      bestDistance = offset;
+    }
+  }
+
+  return best;
+};
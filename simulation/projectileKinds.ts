@@ -0,0 +1,66 @@
+import { RandomSource } from './random';
+
+// Projectile kinds. Mass scales how strongly technique forces change an object's
+// velocity (heavier objects resist Blue's pull and Red's repulsion), radius sets the
+// rendered size and the collision size, speedFactor scales the launch speed.
+
+export type ProjectileKindId = string;
+
+// Mesh used by the renderer; elongated shapes are aligned with the direction of travel
+export type ProjectileShape = 'sphere' | 'shard' | 'boulder' | 'bullet' | 'orb';
+
+export interface ProjectileKind {
+  id: ProjectileKindId;
+  label: string;
+  mass: number;
+  radius: number;
+  speedFactor: number;
+  shape: ProjectileShape;
+  color?: string; // Overrides the theme's projectile color
+  // Breaks into smaller projectiles when a technique destroys it
+  fragments?: { kind: ProjectileKindId; count: number; speed: number };
+}
+
+// Relative spawn weights per kind; kinds without a weight are never spawned
+export type ProjectileMix = Record<ProjectileKindId, number>;
+
+export const PROJECTILE_KINDS: ProjectileKind[] = [
+  { id: 'standard', label: 'Standard', mass: 1, radius: 0.15, speedFactor: 1, shape: 'sphere' },
+  { id: 'shard', label: 'Light Shard', mass: 0.4, radius: 0.12, speedFactor: 1.2, shape: 'shard' },
+  { id: 'boulder', label: 'Heavy Boulder', mass: 5, radius: 0.32, speedFactor: 0.7, shape: 'boulder' },
+  { id: 'bullet', label: 'Fast Bullet', mass: 0.8, radius: 0.08, speedFactor: 2.2, shape: 'bullet' },
+  {
+    id: 'orb',
+    label: 'Explosive Orb',
+    mass: 2,
+    radius: 0.24,
+    speedFactor: 0.5,
+    shape: 'orb',
+    color: '#fb923c',
+    fragments: { kind: 'shard', count: 6, speed: 6 }
+  }
+];
+
+export const DEFAULT_KIND: ProjectileKindId = 'standard';
+export const DEFAULT_MIX: ProjectileMix = { [DEFAULT_KIND]: 1 };
+
+export const getProjectileKind = (id: ProjectileKindId): ProjectileKind | undefined =>
+  PROJECTILE_KINDS.find(kind => kind.id === id);
+
+/**
+ * Picks a kind according to the mix weights. Only draws a random number when
+ * more than one kind can be picked, so single-kind runs keep their random sequence.
+ */
+export const pickProjectileKind = (mix: ProjectileMix, random: RandomSource): ProjectileKind => {
+  const candidates = PROJECTILE_KINDS.filter(kind => (mix[kind.id] ?? 0) > 0);
+  if (candidates.length === 0) return getProjectileKind(DEFAULT_KIND)!;
+  if (candidates.length === 1) return candidates[0];
+
+  const total = candidates.reduce((sum, kind) => sum + mix[kind.id], 0);
+  let roll = random() * total;
+  for (const kind of candidates) {
+    roll -= mix[kind.id];
+    if (roll < 0) return kind;
+  }
+  return candidates[candidates.length - 1];
+};
@@ -0,0 +1,30 @@
+// Seedable pseudo random number generator (mulberry32).
+// Small, fast and good enough for visual physics; every run with the same seed
+// produces the same sequence.
+
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+export const normalizeSeed = (seed: number): number => {
+  if (!Number.isFinite(seed)) return 0;
+  return Math.abs(Math.floor(seed)) % (MAX_SEED + 1);
+};
+
+export const createRandom = (seed: number): RandomSource => {
+  let a = normalizeSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+/**
+ * Seed for an independent sequence `stream` of a run seeded with `seed`.
+ */
+export const deriveSeed = (seed: number, stream: number): number =>
+  (normalizeSeed(seed) ^ Math.imul(stream, 0x9e3779b9)) >>> 0;
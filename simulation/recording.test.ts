@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import '../techniques';
+import { TechniqueType } from '../types';
+import { SESSION_VERSION, SessionEvent, parseSession, readFrame, serializeSession } from './recording';
+import { DEFAULT_KIND } from './projectileKinds';
+import { createParticlePool } from './engine';
+
+const events: SessionEvent[] = [{ t: 0, technique: TechniqueType.BLUE, spawnRate: 4, speedMode: 'normal' }];
+
+describe('session files', () => {
+  it('upgrades version 1 sessions, playing every projectile back as the default kind', () => {
+    const session = parseSession(JSON.stringify({
+      version: 1,
+      seed: 7,
+      sampleRate: 30,
+      events,
+      frames: [
+        { t: 0, p: [0, 1, 2, 3, 1, 4, 5, 6, 7, 0.5] },
+        { t: 0.5, p: [0, 1.5, 2, 3, 1] }
+      ]
+    }));
+
+    expect(session.version).toBe(SESSION_VERSION);
+    expect(session.kinds).toEqual([DEFAULT_KIND]);
+    expect(session.duration).toBe(0.5);
+    expect(session.frames[0].p).toEqual([0, 1, 2, 3, 1, 0, 4, 5, 6, 7, 0.5, 0]);
+
+    const particles = createParticlePool(8);
+    readFrame(session, 0, particles);
+    expect(particles[4]).toMatchObject({ active: true, x: 5, y: 6, z: 7, scale: 0.5, kind: DEFAULT_KIND });
+  });
+
+  it('reads back what it writes', () => {
+    const session = {
+      version: SESSION_VERSION,
+      seed: 3,
+      sampleRate: 30,
+      duration: 1,
+      kinds: [DEFAULT_KIND, 'boulder'],
+      events,
+      frames: [{ t: 0, p: [2, 1, 1, 1, 1, 1] }, { t: 1, p: [] }]
+    };
+    expect(parseSession(serializeSession(session))).toEqual(session);
+  });
+
+  it('interpolates projectiles between neighbouring frames', () => {
+    const session = parseSession(JSON.stringify({
+      version: SESSION_VERSION,
+      seed: 7,
+      sampleRate: 30,
+      kinds: [DEFAULT_KIND],
+      events,
+      frames: [
+        { t: 0, p: [0, 1, 2, 3, 1, 0, 4, 5, 6, 7, 0.5, 0] },
+        { t: 0.5, p: [0, 2, 2, 3, 1, 0] }
+      ]
+    }));
+
+    const particles = createParticlePool(8);
+    readFrame(session, 0.25, particles);
+    expect(particles[0]).toMatchObject({ active: true, x: 1.5, y: 2, z: 3, scale: 1 });
+    // Gone by the next frame, so it stays where it was last seen
+    expect(particles[4]).toMatchObject({ active: true, x: 5, y: 6, z: 7, scale: 0.5 });
+  });
+
+  it('rejects version 1 frames in the version 2 layout', () => {
+    expect(() => parseSession(JSON.stringify({ version: 1, seed: 7, sampleRate: 30, events, frames: [{ t: 0, p: [0, 1, 2, 3, 1, 0] }] })))
+      .toThrow('invalid frames');
+  });
+
+  it('rejects unknown versions and techniques', () => {
+    expect(() => parseSession(JSON.stringify({ version: 3, seed: 7, sampleRate: 30, events, frames: [] })))
+      .toThrow('Unsupported session version: 3');
+    expect(() => parseSession(JSON.stringify({ version: 2, seed: 7, sampleRate: 30, kinds: [], events: [{ ...events[0], technique: 'Nope' }], frames: [] })))
+      .toThrow('invalid control events');
+  });
+});
@@ -0,0 +1,259 @@
+import { ParticleState, SpeedMode, TechniqueId } from '../types';
+import { SimulationState } from './engine';
+import { DEFAULT_KIND, PROJECTILE_KINDS, getProjectileKind } from './projectileKinds';
+import { getTechnique } from '../techniques/registry';
+
+// Session recording & playback. A session stores the control changes made while
+// recording plus sampled projectile states, quantized to keep the JSON small.
+
+export const SESSION_VERSION = 2;
+export const DEFAULT_SAMPLE_RATE = 30; // Frames per second
+const PRECISION = 100; // Two decimals
+const FIELDS_PER_PARTICLE = 6; // id, x, y, z, scale, kind
+const V1_FIELDS_PER_PARTICLE = 5; // Version 1 sessions had no kinds
+
+export interface SessionSettings {
+  technique: TechniqueId;
+  spawnRate: number;
+  speedMode: SpeedMode;
+}
+
+export interface SessionEvent extends SessionSettings {
+  t: number;
+}
+
+export interface SessionFrame {
+  t: number;
+  p: number[]; // Flat [id, x, y, z, scale, kind, ...] for every active projectile
+}
+
+export interface SessionFile {
+  version: number;
+  seed: number;
+  sampleRate: number;
+  duration: number;
+  kinds: string[]; // Projectile kind ids, indexed by the frames' kind field
+  events: SessionEvent[];
+  frames: SessionFrame[];
+}
+
+export interface SessionRecorder {
+  session: SessionFile;
+  startTime: number | null; // Simulation time of the first captured frame
+  lastCapture: number;
+  time: number; // Recording time of the latest frame
+}
+
+const quantize = (value: number) => Math.round(value * PRECISION) / PRECISION;
+
+export const createRecorder = (seed: number, settings: SessionSettings, sampleRate: number = DEFAULT_SAMPLE_RATE): SessionRecorder => ({
+  session: {
+    version: SESSION_VERSION,
+    seed,
+    sampleRate,
+    duration: 0,
+    kinds: PROJECTILE_KINDS.map(kind => kind.id),
+    events: [{ t: 0, ...settings }],
+    frames: []
+  },
+  startTime: null,
+  lastCapture: -Infinity,
+  time: 0
+});
+
+/**
+ * Records a control change at the current recording time.
+ */
+export const recordSettings = (recorder: SessionRecorder, settings: SessionSettings) => {
+  const events = recorder.session.events;
+  const last = events[events.length - 1];
+  if (last.technique === settings.technique && last.spawnRate === settings.spawnRate && last.speedMode === settings.speedMode) {
+    return;
+  }
+
+  const t = quantize(recorder.time);
+  if (last.t === t) {
+    Object.assign(last, settings);
+  } else {
+    events.push({ t, ...settings });
+  }
+};
+
+/**
+ * Samples the simulation if at least one frame interval has passed since the last capture.
+ */
+export const captureFrame = (recorder: SessionRecorder, simulation: Pick<SimulationState, 'time' | 'particles'>) => {
+  if (recorder.startTime === null) recorder.startTime = simulation.time;
+
+  const t = simulation.time - recorder.startTime;
+  if (t - recorder.lastCapture < 1 / recorder.session.sampleRate - 1e-6) return;
+
+  const { kinds } = recorder.session;
+  const p: number[] = [];
+  for (const particle of simulation.particles) {
+    if (!particle.active) continue;
+    let kind = kinds.indexOf(particle.kind);
+    if (kind === -1) kind = kinds.push(particle.kind) - 1;
+    p.push(particle.id, quantize(particle.x), quantize(particle.y), quantize(particle.z), quantize(particle.scale), kind);
+  }
+
+  recorder.session.frames.push({ t: quantize(t), p });
+  recorder.session.duration = quantize(t);
+  recorder.lastCapture = t;
+  recorder.time = t;
+};
+
+// --- Playback ---
+
+// Index of the last frame at or before `t`
+export const findFrameIndex = (session: SessionFile, t: number): number => {
+  const frames = session.frames;
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+export const getSettingsAt = (session: SessionFile, t: number): SessionSettings => {
+  let current = session.events[0];
+  for (const event of session.events) {
+    if (event.t > t) break;
+    current = event;
+  }
+  const { technique, spawnRate, speedMode } = current;
+  return { technique, spawnRate, speedMode };
+};
+
+/**
+ * Writes the recorded projectile states at time `t` into `particles`, interpolating
+ * between neighbouring frames. Particles not present at `t` are marked inactive.
+ */
+export const readFrame = (session: SessionFile, t: number, particles: ParticleState[]) => {
+  for (const particle of particles) particle.active = false;
+  if (session.frames.length === 0) return;
+
+  const index = findFrameIndex(session, t);
+  const frame = session.frames[index];
+  const next = session.frames[index + 1];
+
+  let alpha = 0;
+  const nextPositions = new Map<number, number>();
+  if (next && next.t > frame.t) {
+    alpha = Math.min(1, Math.max(0, (t - frame.t) / (next.t - frame.t)));
+    for (let i = 0; i < next.p.length; i += FIELDS_PER_PARTICLE) {
+      nextPositions.set(next.p[i], i);
+    }
+  }
+
+  for (let i = 0; i < frame.p.length; i += FIELDS_PER_PARTICLE) {
+    const particle = particles[frame.p[i]];
+    if (!particle) continue;
+
+    let x = frame.p[i + 1];
+    let y = frame.p[i + 2];
+    let z = frame.p[i + 3];
+    let scale = frame.p[i + 4];
+
+    const j = nextPositions.get(frame.p[i]);
+    if (j !== undefined && alpha > 0) {
+      x += (next.p[j + 1] - x) * alpha;
+      y += (next.p[j + 2] - y) * alpha;
+      z += (next.p[j + 3] - z) * alpha;
+      scale += (next.p[j + 4] - scale) * alpha;
+    }
+
+    const kind = getProjectileKind(session.kinds[frame.p[i + 5]]) ?? getProjectileKind(DEFAULT_KIND)!;
+
+    particle.active = true;
+    particle.x = x;
+    particle.y = y;
+    particle.z = z;
+    particle.scale = scale;
+    particle.kind = kind.id;
+    particle.mass = kind.mass;
+    particle.radius = kind.radius;
+  }
+};
+
+// --- Serialization ---
+
+const isSessionEvent = (value: unknown): value is SessionEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return typeof event.t === 'number'
+    && typeof event.technique === 'string' && getTechnique(event.technique) !== undefined
+    && typeof event.spawnRate === 'number'
+    && typeof event.speedMode === 'string'; // Custom modes may not exist where the file is played back
+};
+
+const isSessionFrame = (value: unknown, fields: number): value is SessionFrame => {
+  if (!value || typeof value !== 'object') return false;
+  const frame = value as Record<string, unknown>;
+  return typeof frame.t === 'number'
+    && Array.isArray(frame.p)
+    && frame.p.length % fields === 0
+    && frame.p.every(n => typeof n === 'number');
+};
+
+// Version 1 frames carry no kind; every projectile is played back as the default kind
+const upgradeV1Frame = (frame: SessionFrame): SessionFrame => {
+  const p: number[] = [];
+  for (let i = 0; i < frame.p.length; i += V1_FIELDS_PER_PARTICLE) {
+    p.push(...frame.p.slice(i, i + V1_FIELDS_PER_PARTICLE), 0);
+  }
+  return { t: frame.t, p };
+};
+
+export const serializeSession = (session: SessionFile): string => JSON.stringify(session);
+
+/**
+ * Parses and validates a session file. Throws an Error describing the first problem found.
+ */
+export const parseSession = (json: string): SessionFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') throw new Error('Session file must contain an object');
+  const session = data as Record<string, unknown>;
+
+  const isV1 = session.version === 1;
+  if (session.version !== SESSION_VERSION && !isV1) {
+    throw new Error(`Unsupported session version: ${String(session.version)}`);
+  }
+  if (typeof session.seed !== 'number' || typeof session.sampleRate !== 'number' || session.sampleRate <= 0) {
+    throw new Error('Session file is missing its seed or sample rate');
+  }
+  if (!Array.isArray(session.events) || session.events.length === 0 || !session.events.every(isSessionEvent)) {
+    throw new Error('Session file has invalid control events');
+  }
+  const fields = isV1 ? V1_FIELDS_PER_PARTICLE : FIELDS_PER_PARTICLE;
+  if (!Array.isArray(session.frames) || !session.frames.every(frame => isSessionFrame(frame, fields))) {
+    throw new Error('Session file has invalid frames');
+  }
+
+  const kinds = isV1 ? [DEFAULT_KIND] : session.kinds;
+  if (!Array.isArray(kinds) || !kinds.every(kind => typeof kind === 'string')) {
+    throw new Error('Session file has invalid projectile kinds');
+  }
+
+  let frames = session.frames as SessionFrame[];
+  if (isV1) frames = frames.map(upgradeV1Frame);
+
+  return {
+    version: SESSION_VERSION,
+    seed: session.seed,
+    sampleRate: session.sampleRate,
+    duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+    kinds: kinds as string[],
+    events: session.events as SessionEvent[],
+    frames
+  };
+};
@@ -0,0 +1,57 @@
+import '../techniques/physics';
+import { SimulationState, advance, createSimulation, fireParticle, firePurple, resetSimulation, scheduleInput, setConfig } from './engine';
+import { packSimulation } from './frameBuffer';
+import type { WorkerRequest, WorkerResponse } from './workerClient';
+
+// Runs the headless simulation off the main thread. The page drives it with 'tick'
+// messages and gets a packed frame back after each one (see workerClient.ts).
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+let simulation: SimulationState | null = null;
+let shared: Float64Array | null = null; // Set when the page provided a SharedArrayBuffer
+let generation = 0; // Of the last reset; see workerClient.ts
+
+scope.onmessage = (event) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    simulation = createSimulation(message.config, message.options);
+    shared = message.shared ? new Float64Array(message.shared) : null;
+    return;
+  }
+  if (!simulation) return;
+
+  switch (message.type) {
+    case 'config':
+      if (message.at === undefined) setConfig(simulation, message.config);
+      else scheduleInput(simulation, { at: message.at, type: 'config', config: message.config });
+      break;
+    case 'reset':
+      resetSimulation(simulation, message.seed);
+      generation = message.generation;
+      break;
+    case 'fire':
+      if (message.at === undefined) fireParticle(simulation, message.position, message.velocity, message.options);
+      else scheduleInput(simulation, { at: message.at, type: 'fire', position: message.position, velocity: message.velocity, options: message.options });
+      break;
+    case 'firePurple':
+      if (message.at === undefined) firePurple(simulation, message.origin, message.direction, message.options);
+      else scheduleInput(simulation, { at: message.at, type: 'firePurple', origin: message.origin, direction: message.direction, options: message.options });
+      break;
+    case 'tick': {
+      advance(simulation, message.delta);
+      if (shared) {
+        packSimulation(simulation, shared);
+        scope.postMessage({ type: 'frame', generation });
+      } else if (message.buffer) {
+        packSimulation(simulation, new Float64Array(message.buffer));
+        scope.postMessage({ type: 'frame', generation, buffer: message.buffer }, [message.buffer]);
+      }
+      break;
+    }
+  }
+};
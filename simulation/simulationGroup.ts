@@ -0,0 +1,46 @@
+import { SimulationClient } from './workerClient';
+
+// Simulations compared side by side. Each viewport runs its own simulation with the same
+// seed and spawn settings; manual attacks fired in any of them go to every member, so all
+// of them keep receiving the same projectile stream. Every member's worker has run a
+// different distance ahead of the page, so inputs are stamped with a simulation time all
+// of them have yet to reach and applied on the same step everywhere.
+
+export type SimulationTarget = Pick<SimulationClient, 'fire' | 'firePurple'>;
+
+export interface SimulationGroup extends SimulationTarget {
+  add: (client: SimulationClient) => () => void; // Returns a function removing the client again
+  syncTime: () => number; // Simulation time for inputs that every member should apply on the same step
+}
+
+// Beyond the furthest member's last frame: covers the step a worker may have in flight
+// (frame deltas are capped at 0.1 s) with room to spare
+const SYNC_LEAD = 0.2;
+
+export const createSimulationGroup = (): SimulationGroup => {
+  const members = new Set<SimulationClient>();
+
+  const syncTime = () => {
+    let latest = 0;
+    members.forEach(client => { latest = Math.max(latest, client.snapshot.time); });
+    return latest + SYNC_LEAD;
+  };
+
+  return {
+    add: (client) => {
+      members.add(client);
+      return () => {
+        members.delete(client);
+      };
+    },
+    syncTime,
+    fire: (position, velocity, options) => {
+      const at = syncTime();
+      members.forEach(client => client.fire(position, velocity, options, at));
+    },
+    firePurple: (origin, direction, options) => {
+      const at = syncTime();
+      members.forEach(client => client.firePurple(origin, direction, options, at));
+    }
+  };
+};
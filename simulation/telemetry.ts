@@ -0,0 +1,71 @@
+import { SimulationState } from './engine';
+
+// Rolling log of simulation metrics for the telemetry HUD. Samples are taken a few
+// times per second from the frame loop; the oldest ones are dropped past maxSamples.
+
+export interface TelemetrySample {
+  t: number; // Simulation time
+  fps: number;
+  active: number;
+  trapped: number;
+  approachSpeed: number;
+  erased: number; // Totals since the run started
+  escaped: number;
+}
+
+export type TelemetryMetric = Exclude<keyof TelemetrySample, 't'>;
+
+export interface TelemetryLog {
+  samples: TelemetrySample[];
+  interval: number; // Seconds between samples
+  maxSamples: number;
+  // Frames and real time since the last sample, for the FPS average
+  frames: number;
+  elapsed: number;
+}
+
+export type TelemetryStats = Pick<SimulationState, 'time' | 'activeCount' | 'trappedCount' | 'approachSpeed' | 'erasedCount' | 'escapedCount'>;
+
+export const createTelemetryLog = (interval: number = 0.25, maxSamples: number = 2400): TelemetryLog => ({
+  samples: [],
+  interval,
+  maxSamples,
+  frames: 0,
+  elapsed: 0
+});
+
+/**
+ * Counts a rendered frame and appends a sample once the sampling interval has passed.
+ */
+export const recordTelemetry = (log: TelemetryLog, frameDelta: number, stats: TelemetryStats) => {
+  log.frames++;
+  log.elapsed += frameDelta;
+  if (log.elapsed < log.interval) return;
+
+  log.samples.push({
+    t: stats.time,
+    fps: log.frames / log.elapsed,
+    active: stats.activeCount,
+    trapped: stats.trappedCount,
+    approachSpeed: stats.approachSpeed,
+    erased: stats.erasedCount,
+    escaped: stats.escapedCount
+  });
+  if (log.samples.length > log.maxSamples) log.samples.splice(0, log.samples.length - log.maxSamples);
+
+  log.frames = 0;
+  log.elapsed = 0;
+};
+
+export const clearTelemetry = (log: TelemetryLog) => {
+  log.samples = [];
+  log.frames = 0;
+  log.elapsed = 0;
+};
+
+const CSV_COLUMNS: (keyof TelemetrySample)[] = ['t', 'fps', 'active', 'trapped', 'approachSpeed', 'erased', 'escaped'];
+
+export const telemetryToCsv = (log: TelemetryLog): string => {
+  const rows = log.samples.map(sample => CSV_COLUMNS.map(column => Number(sample[column].toFixed(3))).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { registerTechnique, getTechnique } from '../techniques';
+import { TechniqueType } from '../types';
+import { createSimulationClient } from './workerClient';
+
+const config = { technique: TechniqueType.NEUTRAL, spawnRate: 4, minSpeed: 8, maxSpeed: 15, projectileColor: '#ffffff' };
+
+describe('simulation client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the worker for the built-in techniques', () => {
+    const worker = { postMessage: vi.fn(), terminate: vi.fn(), onmessage: null };
+    vi.stubGlobal('Worker', vi.fn(() => worker));
+    const client = createSimulationClient(config, { capacity: 10 });
+    expect(client.usesWorker).toBe(true);
+    client.dispose();
+  });
+
+  it('stays on the main thread, with an error, once a technique without worker physics is registered', () => {
+    vi.stubGlobal('Worker', vi.fn());
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    registerTechnique({ ...getTechnique(TechniqueType.RED)!, id: 'Plugin Technique', slug: 'plugin', name: 'Plugin Technique' });
+
+    const client = createSimulationClient({ ...config, technique: 'Plugin Technique' }, { capacity: 10, seed: 1 });
+    expect(client.usesWorker).toBe(false);
+    expect(Worker).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('"Plugin Technique"'));
+    expect(client.update(1 / 30)).toBe(true);
+  });
+});
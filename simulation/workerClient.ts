@@ -0,0 +1,213 @@
+import { Vec3 } from './forces';
+import {
+  FireOptions,
+  SimulationConfig,
+  SimulationOptions,
+  SimulationState,
+  advance,
+  createParticlePool,
+  createSimulation,
+  fireParticle,
+  firePurple,
+  resetSimulation,
+  scheduleInput,
+  setConfig,
+  MAX_PROJECTILES
+} from './engine';
+import { SimulationSnapshot, frameBufferBytes, unpackSimulation } from './frameBuffer';
+import { PurpleShotOptions } from './hollowPurple';
+import { getTechniques } from '../techniques/registry';
+import { WORKER_TECHNIQUES } from '../techniques/physics';
+
+// Page-side handle on the simulation. The physics runs in a Web Worker: every frame the
+// page applies the last packed frame to `snapshot` and asks the worker for the next one,
+// so the worker steps while the page renders. Frames travel through a SharedArrayBuffer
+// when the page is cross-origin isolated, otherwise one buffer is transferred back and
+// forth. Without Worker support, or while a technique is registered whose physics the
+// worker bundle doesn't include, the simulation runs in place on the main thread.
+// Resets carry a generation that the worker stamps on every frame it steps afterwards, so
+// a frame still in flight from before a reset is dropped instead of showing the old run.
+
+export type WorkerRequest =
+  | { type: 'init'; config: SimulationConfig; options: SimulationOptions; shared?: SharedArrayBuffer }
+  | { type: 'config'; config: Partial<SimulationConfig>; at?: number }
+  | { type: 'reset'; seed: number; generation: number }
+  | { type: 'fire'; position: Vec3; velocity: Vec3; options?: FireOptions; at?: number }
+  | { type: 'firePurple'; origin: Vec3; direction: Vec3; options: PurpleShotOptions; at?: number }
+  | { type: 'tick'; delta: number; buffer?: ArrayBuffer };
+
+export type WorkerResponse = { type: 'frame'; generation: number; buffer?: ArrayBuffer };
+
+export interface SimulationClient {
+  snapshot: SimulationSnapshot; // Latest known state; only read it, changes go through the methods
+  usesWorker: boolean;
+  // With `at`, inputs wait for the first step starting at or after that simulation time
+  configure: (config: Partial<SimulationConfig>, at?: number) => void;
+  reset: (seed: number) => void;
+  fire: (position: Vec3, velocity: Vec3, options?: FireOptions, at?: number) => void;
+  firePurple: (origin: Vec3, direction: Vec3, options: PurpleShotOptions, at?: number) => void;
+  /**
+   * Advances by `delta` seconds. With a worker the result shows up in `snapshot` on a
+   * later call; returns true when `snapshot` changed.
+   */
+  update: (delta: number) => boolean;
+  settled: () => Promise<void>; // Resolves once no requested step is outstanding and a frame of the current run arrived
+  dispose: () => void;
+}
+
+const createLocalClient = (state: SimulationState): SimulationClient => ({
+  snapshot: state,
+  usesWorker: false,
+  configure: (config, at) => {
+    if (at === undefined) setConfig(state, config);
+    else scheduleInput(state, { at, type: 'config', config });
+  },
+  reset: (seed) => resetSimulation(state, seed),
+  fire: (position, velocity, options, at) => {
+    if (at === undefined) fireParticle(state, position, velocity, options);
+    else scheduleInput(state, { at, type: 'fire', position: { ...position }, velocity: { ...velocity }, options });
+  },
+  firePurple: (origin, direction, options, at) => {
+    if (at === undefined) firePurple(state, origin, direction, options);
+    else scheduleInput(state, { at, type: 'firePurple', origin: { ...origin }, direction: { ...direction }, options: { ...options } });
+  },
+  update: (delta) => advance(state, delta) > 0,
+  settled: () => Promise.resolve(),
+  dispose: () => {}
+});
+
+const canShareMemory = () => typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+
+export const createSimulationClient = (config: SimulationConfig, options: SimulationOptions = {}): SimulationClient => {
+  // Registered with registerTechnique() only: the page knows them, the worker doesn't
+  const pageOnly = getTechniques().filter(t => !WORKER_TECHNIQUES.has(t.id));
+  if (pageOnly.length > 0) {
+    console.error(
+      `No worker physics for ${pageOnly.map(t => `"${t.name}"`).join(', ')}; add ${pageOnly.length === 1 ? 'it' : 'them'} ` +
+      'to techniques/physics/index.ts. Running the simulation on the main thread instead.'
+    );
+  }
+  if (typeof Worker === 'undefined' || pageOnly.length > 0) {
+    return createLocalClient(createSimulation(config, options));
+  }
+
+  const capacity = options.capacity ?? MAX_PROJECTILES;
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+
+  const shared = canShareMemory() ? new SharedArrayBuffer(frameBufferBytes(capacity)) : null;
+  // In transfer mode this is null while the worker owns the buffer
+  let buffer: ArrayBuffer | null = shared ? null : new ArrayBuffer(frameBufferBytes(capacity));
+  const view = shared ? new Float64Array(shared) : null;
+
+  let pending = false; // A tick is out and its frame has not arrived yet
+  let frameReady = false;
+  let unsentDelta = 0;
+  let waiters: (() => void)[] = [];
+  let generation = 0; // Bumped by every reset
+  let awaitingReset = false; // No frame of the current generation has arrived yet
+
+  const snapshot: SimulationSnapshot = {
+    time: 0,
+    particles: createParticlePool(capacity),
+    activeCount: 0,
+    trappedCount: 0,
+    collisionCount: 0,
+    approachSpeed: 0,
+    erasedCount: 0,
+    escapedCount: 0,
+    purpleShots: [],
+    purpleErasedCount: 0,
+    reflectedCount: 0,
+    coreHits: 0
+  };
+
+  const post = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  // Back to an empty run, so nothing reads the previous run's totals until the first new frame
+  const clearSnapshot = () => {
+    snapshot.time = 0;
+    snapshot.activeCount = 0;
+    snapshot.trappedCount = 0;
+    snapshot.collisionCount = 0;
+    snapshot.approachSpeed = 0;
+    snapshot.erasedCount = 0;
+    snapshot.escapedCount = 0;
+    snapshot.purpleShots.length = 0;
+    snapshot.purpleErasedCount = 0;
+    snapshot.reflectedCount = 0;
+    snapshot.coreHits = 0;
+    for (const p of snapshot.particles) p.active = false;
+  };
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    if (event.data.buffer) buffer = event.data.buffer;
+    pending = false;
+    // Stepped before the last reset: drop it, the next tick asks for a current frame
+    if (event.data.generation !== generation) return;
+    awaitingReset = false;
+    frameReady = true;
+    const resolved = waiters;
+    waiters = [];
+    resolved.forEach(resolve => resolve());
+  };
+
+  post({ type: 'init', config, options: { ...options, capacity }, shared: shared ?? undefined });
+
+  return {
+    snapshot,
+    usesWorker: true,
+    configure: (next, at) => post({ type: 'config', config: next, at }),
+    reset: (seed) => {
+      generation++;
+      awaitingReset = true;
+      frameReady = false;
+      unsentDelta = 0;
+      clearSnapshot();
+      post({ type: 'reset', seed, generation });
+    },
+    fire: (position, velocity, fireOptions, at) => post({
+      type: 'fire',
+      position: { x: position.x, y: position.y, z: position.z },
+      velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+      options: fireOptions,
+      at
+    }),
+    firePurple: (origin, direction, shotOptions, at) => post({
+      type: 'firePurple',
+      origin: { x: origin.x, y: origin.y, z: origin.z },
+      direction: { x: direction.x, y: direction.y, z: direction.z },
+      options: { radius: shotOptions.radius, speed: shotOptions.speed },
+      at
+    }),
+    update: (delta) => {
+      unsentDelta += delta;
+
+      let changed = false;
+      if (frameReady) {
+        unpackSimulation(view ?? new Float64Array(buffer!), snapshot);
+        frameReady = false;
+        changed = true;
+      }
+
+      // Only one step is ever in flight, so the buffer is never read and written at once
+      if (!pending) {
+        if (view) {
+          post({ type: 'tick', delta: unsentDelta });
+        } else if (buffer) {
+          post({ type: 'tick', delta: unsentDelta, buffer }, [buffer]);
+          buffer = null;
+        }
+        unsentDelta = 0;
+        pending = true;
+      }
+
+      return changed;
+    },
+    settled: () => (pending || awaitingReset ? new Promise<void>(resolve => waiters.push(resolve)) : Promise.resolve()),
+    dispose: () => {
+      worker.terminate();
+      waiters.forEach(resolve => resolve());
+      waiters = [];
+    }
+  };
+};
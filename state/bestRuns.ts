@@ -0,0 +1,52 @@
+// The highest-scoring challenge runs, kept in localStorage.
+
+export interface BestRun {
+  score: number;
+  wave: number; // Wave reached
+  time: number; // Seconds survived
+  date: string; // ISO timestamp of the end of the run
+}
+
+export const MAX_BEST_RUNS = 5;
+
+const STORAGE_KEY = 'limitless.bestRuns';
+
+const isBestRun = (value: unknown): value is BestRun => {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Record<string, unknown>;
+  return typeof run.score === 'number' && typeof run.wave === 'number' && typeof run.time === 'number' && typeof run.date === 'string';
+};
+
+export const loadBestRuns = (): BestRun[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const data: unknown = JSON.parse(raw);
+    return Array.isArray(data) ? data.filter(isBestRun).slice(0, MAX_BEST_RUNS) : [];
+  } catch {
+    // Corrupt data or storage unavailable (private mode)
+    return [];
+  }
+};
+
+const saveBestRuns = (runs: BestRun[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  } catch {
+    // Storage full or unavailable; runs only last for this session
+  }
+};
+
+/**
+ * Adds a finished run if it makes the list and persists the result. `rank` is the run's
+ * 0-based place in the list, or null when it didn't make it.
+ */
+export const recordBestRun = (runs: BestRun[], run: BestRun): { runs: BestRun[]; rank: number | null } => {
+  const next = [...runs, run]
+    .sort((a, b) => b.score - a.score || b.wave - a.wave)
+    .slice(0, MAX_BEST_RUNS);
+  const rank = next.indexOf(run);
+  if (rank === -1) return { runs, rank: null };
+  saveBestRuns(next);
+  return { runs: next, rank };
+};
@@ -0,0 +1,37 @@
+import { ScenarioSource, SCENARIO_VERSION } from './scenario';
+
+// Scenarios offered in the sidebar. They are plain sources, validated like uploaded files
+// when they are loaded (after the techniques they refer to have been registered).
+
+const lecture: ScenarioSource = {
+  version: SCENARIO_VERSION,
+  name: 'Limitless Lecture',
+  description: 'Infinity with slow objects, then Blue at a high rate, Red, and finally Purple.',
+  seed: 1989,
+  steps: [
+    { at: 0, technique: 'neutral', speed: 'slow', spawnRate: 2, pattern: 'ring', manualOnly: false, transition: 0.8, caption: 'Infinity: objects slow down forever as they approach, and never arrive.' },
+    { at: 10, caption: 'The closer they get, the smaller each step becomes — an infinite series that never sums to the barrier.' },
+    { at: 18, technique: 'blue', speed: 'normal', spawnRate: 7, pattern: 'barrage', caption: 'Lapse: Blue amplifies Infinity into attraction, dragging everything into one point.' },
+    { at: 30, technique: 'red', spawnRate: 4, pattern: 'burst', caption: 'Reversal: Red inverts it into repulsion, hurling attacks back out.' },
+    { at: 42, technique: 'purple', speed: 'fast', pattern: 'waves', transition: 1.6, caption: 'Hollow Purple: Blue and Red collide, and what they touch is erased.' },
+    { at: 56, caption: null }
+  ]
+};
+
+const stressTest: ScenarioSource = {
+  version: SCENARIO_VERSION,
+  name: 'Barrier Stress Test',
+  description: 'Every attack pattern at full rate against Infinity, with merging collisions.',
+  steps: [
+    { at: 0, technique: 'neutral', speed: 'fast', spawnRate: 8, collisions: 'merge', pattern: 'ring', caption: 'Random ring' },
+    { at: 6, pattern: 'burst', caption: 'Burst volleys' },
+    { at: 12, pattern: 'spiral', caption: 'Spiral' },
+    { at: 18, pattern: 'barrage', caption: 'Barrage' },
+    { at: 24, pattern: 'sniper', caption: 'Sniper' },
+    { at: 30, pattern: 'waves', caption: 'Waves' },
+    { at: 36, pattern: 'rain', caption: 'Rain' },
+    { at: 42, collisions: 'off', caption: null }
+  ]
+};
+
+export const BUILTIN_SCENARIOS: ScenarioSource[] = [lecture, stressTest];
@@ -0,0 +1,106 @@
+import { TechniqueId } from '../types';
+import { getTechnique } from '../techniques/registry';
+import { TechniqueParams } from '../simulation/forces';
+import { AttackPatternId, getAttackPattern } from '../simulation/patterns';
+import { ProjectileMix } from '../simulation/projectileKinds';
+import { COLLISION_MODES, CollisionMode } from '../simulation/collisions';
+import { SpeedModeDefinition, isSpeedModeDefinition } from './speedModes';
+import { SPAWN_RATE_RANGE } from './urlState';
+
+// Named snapshots of the simulation controls. They are stored with the user settings
+// (see settings.ts) and can be exported to and imported from JSON files.
+
+export const PRESETS_FILE_VERSION = 1;
+
+export interface ControlSettings {
+  technique: TechniqueId;
+  spawnRate: number;
+  speed: SpeedModeDefinition; // The whole mode, so presets using a custom one still work elsewhere
+  pattern: AttackPatternId;
+  patternParams: TechniqueParams; // Tuned values for `pattern`
+  projectileMix: ProjectileMix;
+  collisions: CollisionMode;
+  transitionDuration: number;
+  manualOnly: boolean;
+}
+
+export interface ControlPreset {
+  name: string;
+  controls: ControlSettings;
+}
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.values(value).every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isControlSettings = (value: unknown): value is ControlSettings => {
+  if (!value || typeof value !== 'object') return false;
+  const controls = value as Record<string, unknown>;
+  return typeof controls.technique === 'string' && getTechnique(controls.technique) !== undefined
+    && Number.isInteger(controls.spawnRate)
+    && (controls.spawnRate as number) >= SPAWN_RATE_RANGE.min && (controls.spawnRate as number) <= SPAWN_RATE_RANGE.max
+    && isSpeedModeDefinition(controls.speed)
+    && typeof controls.pattern === 'string' && getAttackPattern(controls.pattern) !== undefined
+    && isNumberRecord(controls.patternParams)
+    && isNumberRecord(controls.projectileMix)
+    && COLLISION_MODES.includes(controls.collisions as CollisionMode)
+    && typeof controls.transitionDuration === 'number' && controls.transitionDuration >= 0
+    && typeof controls.manualOnly === 'boolean';
+};
+
+export const isControlPreset = (value: unknown): value is ControlPreset => {
+  if (!value || typeof value !== 'object') return false;
+  const preset = value as Record<string, unknown>;
+  return typeof preset.name === 'string' && preset.name.trim() !== '' && isControlSettings(preset.controls);
+};
+
+/**
+ * Adds or replaces (by name) a preset.
+ */
+export const upsertControlPreset = (presets: ControlPreset[], preset: ControlPreset): ControlPreset[] => {
+  const index = presets.findIndex(p => p.name === preset.name);
+  if (index === -1) return [...presets, preset];
+  return presets.map((p, i) => (i === index ? preset : p));
+};
+
+/**
+ * Renames a preset, replacing any other preset that already had the new name.
+ */
+export const renameControlPreset = (presets: ControlPreset[], from: string, to: string): ControlPreset[] => {
+  const preset = presets.find(p => p.name === from);
+  if (!preset || from === to) return presets;
+  return presets
+    .filter(p => p.name !== to)
+    .map(p => (p === preset ? { ...p, name: to } : p));
+};
+
+export const deleteControlPreset = (presets: ControlPreset[], name: string): ControlPreset[] =>
+  presets.filter(p => p.name !== name);
+
+export const serializeControlPresets = (presets: ControlPreset[]): string =>
+  JSON.stringify({ version: PRESETS_FILE_VERSION, presets }, null, 2);
+
+/**
+ * Parses an exported presets file. Throws an Error describing the first problem found.
+ */
+export const parseControlPresets = (json: string): ControlPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Presets file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') throw new Error('Presets file must contain an object');
+  const file = data as Record<string, unknown>;
+
+  if (file.version !== PRESETS_FILE_VERSION) {
+    throw new Error(`Unsupported presets file version: ${String(file.version)}`);
+  }
+  if (!Array.isArray(file.presets)) throw new Error('Presets file has no presets');
+
+  const invalid = file.presets.findIndex(preset => !isControlPreset(preset));
+  if (invalid !== -1) throw new Error(`Preset ${invalid + 1} in the file is invalid`);
+
+  return (file.presets as ControlPreset[]).map(preset => ({ ...preset, name: preset.name.trim() }));
+};
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../techniques';
+import { TechniqueType } from '../types';
+import { loadParamPresets, pickKnownParams, upsertParamPreset } from './paramPresets';
+
+describe('parameter presets', () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => stored.get(key) ?? null,
+        setItem: (key: string, value: string) => stored.set(key, value)
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads what it saves', () => {
+    const presets = upsertParamPreset([], { name: 'Strong pull', params: { [TechniqueType.BLUE]: { pullStrength: 60 } } });
+    expect(loadParamPresets()).toEqual(presets);
+  });
+
+  it('skips presets holding anything but numbers', () => {
+    stored.set('limitless.paramPresets', JSON.stringify([
+      { name: 'Text', params: { [TechniqueType.BLUE]: { pullStrength: '60' } } },
+      { name: 'Nested', params: { [TechniqueType.BLUE]: { pullStrength: { value: 60 } } } },
+      { name: 'Flat', params: { pullStrength: 60 } },
+      { name: 'Missing' },
+      { name: 'Not a number', params: { [TechniqueType.BLUE]: { pullStrength: null } } }, // How NaN is saved
+      { name: 'Good', params: { [TechniqueType.RED]: { coreRadius: 2 } } }
+    ]));
+    expect(loadParamPresets().map(p => p.name)).toEqual(['Good']);
+  });
+
+  it('drops values no registered technique has a parameter for', () => {
+    expect(pickKnownParams({
+      [TechniqueType.BLUE]: { pullStrength: 60, oldSetting: 1 },
+      'Plugin Technique': { strength: 3 }
+    })).toEqual({ [TechniqueType.BLUE]: { pullStrength: 60 } });
+  });
+});
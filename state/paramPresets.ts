@@ -0,0 +1,80 @@
+import { TechniqueId } from '../types';
+import { TechniqueParams } from '../simulation/forces';
+import { getTechnique } from '../techniques/registry';
+
+// Named snapshots of tuned physics parameters, kept in localStorage.
+
+export type TunedParams = Record<TechniqueId, TechniqueParams>;
+
+export interface ParamPreset {
+  name: string;
+  params: TunedParams;
+}
+
+const STORAGE_KEY = 'limitless.paramPresets';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  isRecord(value) && Object.values(value).every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isParamPreset = (value: unknown): value is ParamPreset => {
+  if (!isRecord(value)) return false;
+  return typeof value.name === 'string'
+    && isRecord(value.params)
+    && Object.values(value.params).every(isNumberRecord);
+};
+
+/**
+ * The values of `params` that a registered technique still has a parameter for. Presets
+ * may have been saved by another version, or with a plugin technique that isn't loaded.
+ */
+export const pickKnownParams = (params: TunedParams): TunedParams => {
+  const known: TunedParams = {};
+  for (const [id, values] of Object.entries(params)) {
+    const specs = getTechnique(id)?.params;
+    if (!specs) continue;
+    const kept: TechniqueParams = {};
+    for (const spec of specs) {
+      if (spec.key in values) kept[spec.key] = values[spec.key];
+    }
+    known[id] = kept;
+  }
+  return known;
+};
+
+export const loadParamPresets = (): ParamPreset[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const data: unknown = JSON.parse(raw);
+    return Array.isArray(data) ? data.filter(isParamPreset) : [];
+  } catch {
+    // Corrupt data or storage unavailable (private mode)
+    return [];
+  }
+};
+
+export const saveParamPresets = (presets: ParamPreset[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage full or unavailable; presets only last for this session
+  }
+};
+
+/**
+ * Adds or replaces (by name) a preset and persists the result.
+ */
+export const upsertParamPreset = (presets: ParamPreset[], preset: ParamPreset): ParamPreset[] => {
+  const next = [...presets.filter(p => p.name !== preset.name), preset];
+  saveParamPresets(next);
+  return next;
+};
+
+export const deleteParamPreset = (presets: ParamPreset[], name: string): ParamPreset[] => {
+  const next = presets.filter(p => p.name !== name);
+  saveParamPresets(next);
+  return next;
+};
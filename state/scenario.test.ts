@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import '../techniques';
+import { TechniqueType } from '../types';
+import { ScenarioSource, ScenarioStepSource, getScenarioCaption, getScenarioPattern, parseScenario, serializeScenario } from './scenario';
+import { BUILTIN_SCENARIOS } from './builtinScenarios';
+
+const source = (steps: ScenarioStepSource[]): ScenarioSource => ({ version: 1, name: 'Test', steps });
+
+const issues = (steps: unknown[]) => parseScenario({ version: 1, name: 'Test', steps } as ScenarioSource).issues;
+
+describe('scenarios', () => {
+  it.each(BUILTIN_SCENARIOS.map(s => [s.name, s] as const))('accepts the built-in "%s" scenario', (_, scenario) => {
+    expect(parseScenario(scenario).issues).toEqual([]);
+  });
+
+  it('resolves technique slugs and reads back what it writes', () => {
+    const { scenario } = parseScenario(source([
+      { at: 0, technique: 'blue', pattern: 'burst', patternParams: { count: 12 }, caption: 'Start' },
+      { at: 4, technique: 'Red', caption: '' }
+    ]));
+    expect(scenario?.steps[0].technique).toBe(TechniqueType.BLUE);
+    expect(scenario?.steps[1]).toEqual({ at: 4, technique: TechniqueType.RED, caption: null });
+    expect(scenario?.duration).toBe(4);
+    expect(parseScenario(serializeScenario(scenario!)).scenario).toEqual(scenario);
+  });
+
+  it('reports every problem against its step', () => {
+    expect(issues([
+      { at: 0, technique: 'green', spawnRate: 9 },
+      { at: 2, speed: 'warp', colour: 'red' },
+      { at: 1, collisions: 'stick' }
+    ])).toEqual([
+      { step: 1, message: 'unknown technique "green"' },
+      { step: 1, message: '"spawnRate" must be a whole number from 1 to 8' },
+      { step: 2, message: 'unknown field "colour"' },
+      { step: 2, message: '"speed" must be one of slow, normal, fast' },
+      { step: 3, message: '"at" (1s) is earlier than the previous step (2s); steps must be in time order' },
+      { step: 3, message: '"collisions" must be one of off, bounce, merge' }
+    ]);
+  });
+
+  it('checks pattern params against the pattern in effect at their step', () => {
+    expect(issues([{ at: 0, pattern: 'burst' }, { at: 2, patternParams: { count: 12 } }])).toEqual([]);
+    expect(issues([{ at: 0, pattern: 'burst' }, { at: 2, patternParams: { cout: 12 } }]))
+      .toEqual([{ step: 2, message: 'attack pattern "burst" has no setting "cout"' }]);
+    expect(issues([{ at: 0, pattern: 'burst' }, { at: 2, pattern: 'spiral' }, { at: 4, patternParams: { count: 99 } }]))
+      .toEqual([{ step: 3, message: 'attack pattern "spiral" has no setting "count"' }]);
+    expect(issues([{ at: 0, pattern: 'burst', patternParams: { count: 99 } }]))
+      .toEqual([{ step: 1, message: 'pattern setting "count" must be from 2 to 24' }]);
+    expect(issues([{ at: 0, patternParams: { count: 12 } }]))
+      .toEqual([{ step: 1, message: '"patternParams" needs a "pattern" in this step or an earlier one' }]);
+  });
+
+  it('tracks the caption and pattern in effect as steps run', () => {
+    const { scenario } = parseScenario(source([
+      { at: 0, pattern: 'ring', caption: 'One' },
+      { at: 2, pattern: 'spiral' },
+      { at: 4, caption: null }
+    ]));
+    expect([0, 1, 2, 3].map(n => getScenarioCaption(scenario!, n))).toEqual([null, 'One', 'One', null]);
+    expect([0, 1, 2, 3].map(n => getScenarioPattern(scenario!, n))).toEqual([null, 'ring', 'spiral', 'spiral']);
+  });
+
+  it('rejects files that are not scenarios', () => {
+    expect(parseScenario('{').issues).toEqual([{ step: null, message: 'Scenario file is not valid JSON' }]);
+    expect(issues([])).toEqual([{ step: null, message: 'Scenario needs at least one step' }]);
+  });
+});
@@ -0,0 +1,272 @@
+import { SpeedMode, TechniqueId } from '../types';
+import { getTechnique, getTechniqueBySlug } from '../techniques/registry';
+import { AttackPatternId, getAttackPattern } from '../simulation/patterns';
+import { COLLISION_MODES, CollisionMode } from '../simulation/collisions';
+import { TechniqueParams } from '../simulation/forces';
+import { MAX_SEED } from '../simulation/random';
+import { SPAWN_RATE_RANGE } from './urlState';
+import { BUILTIN_SPEED_MODES } from './speedModes';
+
+// Scripted demonstrations. A scenario is a timeline of steps; each step changes some of
+// the controls and/or the on-screen caption at a given time. Scenarios are written as
+// JSON (or as `ScenarioSource` objects in TypeScript) and validated before they run, with
+// every problem reported against the step it was found in.
+
+export const SCENARIO_VERSION = 1;
+
+const SPEED_MODES: SpeedMode[] = BUILTIN_SPEED_MODES.map(mode => mode.id); // Custom modes aren't portable
+const MAX_TRANSITION = 3; // Seconds, same range as the Transition slider
+
+// A step as written: techniques are referred to by slug, like in shared links
+export interface ScenarioStepSource {
+  at: number; // Seconds from the start of the scenario
+  technique?: string;
+  spawnRate?: number;
+  speed?: SpeedMode;
+  pattern?: AttackPatternId;
+  patternParams?: TechniqueParams;
+  manualOnly?: boolean;
+  collisions?: CollisionMode;
+  transition?: number; // Technique transition duration in seconds
+  caption?: string | null; // null (or an empty string) hides the caption
+}
+
+export interface ScenarioSource {
+  version: number;
+  name: string;
+  description?: string;
+  seed?: number; // Runs restart from this seed; the current one is kept when missing
+  steps: ScenarioStepSource[];
+}
+
+export interface ScenarioStep extends Omit<ScenarioStepSource, 'technique'> {
+  technique?: TechniqueId;
+}
+
+export interface Scenario {
+  name: string;
+  description: string;
+  seed: number | null;
+  duration: number; // Time of the last step
+  steps: ScenarioStep[];
+}
+
+export interface ScenarioIssue {
+  step: number | null; // 1-based, null for problems with the scenario itself
+  message: string;
+}
+
+export interface ParsedScenario {
+  scenario: Scenario | null; // Null when there were issues
+  issues: ScenarioIssue[];
+}
+
+const STEP_KEYS = new Set(['at', 'technique', 'spawnRate', 'speed', 'pattern', 'patternParams', 'manualOnly', 'collisions', 'transition', 'caption']);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// `activePattern` is the attack pattern set by the latest earlier step, if any
+const validateStep = (
+  data: unknown,
+  previousAt: number,
+  activePattern: AttackPatternId | null,
+  issue: (message: string) => void
+): ScenarioStep | null => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    issue('must be an object');
+    return null;
+  }
+  const source = data as Record<string, unknown>;
+  const step: ScenarioStep = { at: 0 };
+  let problems = 0;
+  const fail = (message: string) => {
+    problems++;
+    issue(message);
+  };
+
+  for (const key of Object.keys(source)) {
+    if (!STEP_KEYS.has(key)) fail(`unknown field "${key}"`);
+  }
+
+  if (!isFiniteNumber(source.at) || source.at < 0) {
+    fail('"at" must be a time in seconds, 0 or more');
+  } else if (source.at < previousAt) {
+    fail(`"at" (${source.at}s) is earlier than the previous step (${previousAt}s); steps must be in time order`);
+  } else {
+    step.at = source.at;
+  }
+
+  if (source.technique !== undefined) {
+    const definition = typeof source.technique === 'string' ? getTechniqueBySlug(source.technique.toLowerCase()) : undefined;
+    if (definition) step.technique = definition.id;
+    else fail(`unknown technique "${String(source.technique)}"`);
+  }
+
+  if (source.spawnRate !== undefined) {
+    const rate = source.spawnRate;
+    if (Number.isInteger(rate) && (rate as number) >= SPAWN_RATE_RANGE.min && (rate as number) <= SPAWN_RATE_RANGE.max) step.spawnRate = rate as number;
+    else fail(`"spawnRate" must be a whole number from ${SPAWN_RATE_RANGE.min} to ${SPAWN_RATE_RANGE.max}`);
+  }
+
+  if (source.speed !== undefined) {
+    if (typeof source.speed === 'string' && SPEED_MODES.includes(source.speed)) step.speed = source.speed;
+    else fail(`"speed" must be one of ${SPEED_MODES.join(', ')}`);
+  }
+
+  if (source.pattern !== undefined) {
+    if (typeof source.pattern === 'string' && getAttackPattern(source.pattern)) step.pattern = source.pattern;
+    else fail(`unknown attack pattern "${String(source.pattern)}"`);
+  }
+
+  if (source.patternParams !== undefined) {
+    // Checked against the pattern in effect at this step: its own, or else the latest earlier one
+    const patternId = source.pattern !== undefined ? step.pattern : activePattern;
+    const pattern = patternId ? getAttackPattern(patternId) : undefined;
+    const params = source.patternParams;
+    if (!params || typeof params !== 'object' || Array.isArray(params)) {
+      fail('"patternParams" must be an object of numbers');
+    } else if (!pattern) {
+      // An unknown pattern in this step has been reported already
+      if (source.pattern === undefined) fail('"patternParams" needs a "pattern" in this step or an earlier one');
+    } else {
+      const values: TechniqueParams = {};
+      for (const [key, value] of Object.entries(params)) {
+        const spec = pattern.params?.find(p => p.key === key);
+        if (!spec) fail(`attack pattern "${pattern.id}" has no setting "${key}"`);
+        else if (!isFiniteNumber(value)) fail(`pattern setting "${key}" must be a number`);
+        else if (value < spec.min || value > spec.max) fail(`pattern setting "${key}" must be from ${spec.min} to ${spec.max}`);
+        else values[key] = value;
+      }
+      step.patternParams = values;
+    }
+  }
+
+  if (source.manualOnly !== undefined) {
+    if (typeof source.manualOnly === 'boolean') step.manualOnly = source.manualOnly;
+    else fail('"manualOnly" must be true or false');
+  }
+
+  if (source.collisions !== undefined) {
+    if (COLLISION_MODES.includes(source.collisions as CollisionMode)) step.collisions = source.collisions as CollisionMode;
+    else fail(`"collisions" must be one of ${COLLISION_MODES.join(', ')}`);
+  }
+
+  if (source.transition !== undefined) {
+    if (isFiniteNumber(source.transition) && source.transition >= 0 && source.transition <= MAX_TRANSITION) step.transition = source.transition;
+    else fail(`"transition" must be a duration from 0 to ${MAX_TRANSITION} seconds`);
+  }
+
+  const caption = source.caption;
+  if (caption !== undefined) {
+    if (typeof caption === 'string') step.caption = caption || null;
+    else if (caption === null) step.caption = null;
+    else fail('"caption" must be text, or null to hide the caption');
+  }
+
+  return problems === 0 ? step : null;
+};
+
+/**
+ * Validates a scenario written as JSON text or as a `ScenarioSource` object. All problems
+ * are collected, each one pointing at the step it was found in.
+ */
+export const parseScenario = (input: string | ScenarioSource): ParsedScenario => {
+  const issues: ScenarioIssue[] = [];
+  const invalid = (message: string): ParsedScenario => ({ scenario: null, issues: [{ step: null, message }] });
+
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      return invalid('Scenario file is not valid JSON');
+    }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return invalid('Scenario must be an object');
+  const source = data as Record<string, unknown>;
+
+  if (source.version !== SCENARIO_VERSION) {
+    issues.push({ step: null, message: `Unsupported scenario version: ${String(source.version)}` });
+  }
+  if (typeof source.name !== 'string' || source.name.trim() === '') {
+    issues.push({ step: null, message: 'Scenario needs a name' });
+  }
+  if (source.description !== undefined && typeof source.description !== 'string') {
+    issues.push({ step: null, message: 'Scenario description must be text' });
+  }
+  if (source.seed !== undefined && !(Number.isInteger(source.seed) && (source.seed as number) >= 0 && (source.seed as number) <= MAX_SEED)) {
+    issues.push({ step: null, message: `Scenario seed must be a whole number from 0 to ${MAX_SEED}` });
+  }
+  if (!Array.isArray(source.steps) || source.steps.length === 0) {
+    issues.push({ step: null, message: 'Scenario needs at least one step' });
+    return { scenario: null, issues };
+  }
+
+  const steps: ScenarioStep[] = [];
+  let previousAt = 0;
+  let activePattern: AttackPatternId | null = null;
+  source.steps.forEach((data, i) => {
+    const step = validateStep(data, previousAt, activePattern, message => issues.push({ step: i + 1, message }));
+    if (step) steps.push(step);
+    // Later steps are ordered and checked against this one even when it has other problems
+    const { at, pattern } = (data as Partial<ScenarioStepSource> | null) ?? {};
+    if (isFiniteNumber(at) && at > previousAt) previousAt = at;
+    if (typeof pattern === 'string' && getAttackPattern(pattern)) activePattern = pattern;
+  });
+
+  if (issues.length > 0) return { scenario: null, issues };
+
+  return {
+    scenario: {
+      name: (source.name as string).trim(),
+      description: (source.description as string | undefined) ?? '',
+      seed: (source.seed as number | undefined) ?? null,
+      duration: steps[steps.length - 1].at,
+      steps
+    },
+    issues
+  };
+};
+
+export const formatScenarioIssue = (issue: ScenarioIssue) =>
+  issue.step === null ? issue.message : `Step ${issue.step}: ${issue.message}`;
+
+/**
+ * Writes a scenario back out in its source form, e.g. to use a built-in one as a template.
+ */
+export const serializeScenario = (scenario: Scenario): string => {
+  const source: ScenarioSource = {
+    version: SCENARIO_VERSION,
+    name: scenario.name,
+    ...(scenario.description ? { description: scenario.description } : {}),
+    ...(scenario.seed !== null ? { seed: scenario.seed } : {}),
+    steps: scenario.steps.map(({ technique, ...step }) => (
+      technique === undefined ? step : { ...step, technique: getTechnique(technique)?.slug ?? technique }
+    ))
+  };
+  return JSON.stringify(source, null, 2);
+};
+
+/**
+ * Caption shown once the first `applied` steps have run.
+ */
+export const getScenarioCaption = (scenario: Scenario, applied: number): string | null => {
+  for (let i = Math.min(applied, scenario.steps.length) - 1; i >= 0; i--) {
+    const caption = scenario.steps[i].caption;
+    if (caption !== undefined) return caption;
+  }
+  return null;
+};
+
+/**
+ * Attack pattern in effect once the first `applied` steps have run, or null while no
+ * step has set one.
+ */
+export const getScenarioPattern = (scenario: Scenario, applied: number): AttackPatternId | null => {
+  for (let i = Math.min(applied, scenario.steps.length) - 1; i >= 0; i--) {
+    const pattern = scenario.steps[i].pattern;
+    if (pattern !== undefined) return pattern;
+  }
+  return null;
+};
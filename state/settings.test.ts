@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../techniques';
+import { TechniqueType } from '../types';
+import { SETTINGS_VERSION, UserSettings, loadSettings, migrateSettings, saveSettings } from './settings';
+
+const settings: UserSettings = {
+  theme: 'light',
+  technique: TechniqueType.PURPLE,
+  spawnRate: 3,
+  speedMode: 'custom-1',
+  sidebarCollapsed: true,
+  reducedMotion: null,
+  customSpeedModes: [{ id: 'custom-1', label: 'Crawl', min: 1, max: 2 }],
+  presets: []
+};
+
+describe('settings migrations', () => {
+  it('passes current settings through', () => {
+    const stored = { version: SETTINGS_VERSION, theme: 'dark' };
+    expect(migrateSettings(stored)).toEqual(stored);
+  });
+
+  it('gives up on settings it cannot upgrade', () => {
+    expect(migrateSettings({ version: SETTINGS_VERSION + 1, theme: 'dark' })).toBeNull();
+    expect(migrateSettings({ version: 0, theme: 'dark' })).toBeNull();
+    expect(migrateSettings({ version: '1', theme: 'dark' })).toBeNull();
+    expect(migrateSettings({ theme: 'dark' })).toBeNull();
+    expect(migrateSettings([])).toBeNull();
+    expect(migrateSettings(null)).toBeNull();
+  });
+});
+
+describe('stored settings', () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => stored.get(key) ?? null,
+        setItem: (key: string, value: string) => stored.set(key, value)
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const store = (value: unknown) => stored.set('limitless.settings', typeof value === 'string' ? value : JSON.stringify(value));
+
+  it('loads what it saves', () => {
+    saveSettings(settings);
+    expect(loadSettings()).toEqual(settings);
+  });
+
+  it('drops invalid values one by one', () => {
+    store({ version: SETTINGS_VERSION, theme: 'sepia', technique: 'Nope', spawnRate: 3, speedMode: 'custom-9', sidebarCollapsed: 'yes', reducedMotion: true, customSpeedModes: [{ id: 'fast', label: 'Shadow', min: 1, max: 2 }] });
+    expect(loadSettings()).toEqual({ spawnRate: 3, reducedMotion: true, customSpeedModes: [], presets: [] });
+  });
+
+  it('starts over from corrupt or unreadable data', () => {
+    store('{not json');
+    expect(loadSettings()).toEqual({});
+    store({ ...settings, version: SETTINGS_VERSION + 1 });
+    expect(loadSettings()).toEqual({});
+  });
+});
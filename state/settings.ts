@@ -0,0 +1,94 @@
+import { SpeedMode, TechniqueId } from '../types';
+import { getTechnique } from '../techniques/registry';
+import { ControlPreset, isControlPreset } from './controlPresets';
+import { SpeedModeDefinition, isBuiltinSpeedMode, isSpeedModeDefinition } from './speedModes';
+import { SPAWN_RATE_RANGE } from './urlState';
+
+// User settings kept in localStorage between visits. The stored object carries a version;
+// older versions are upgraded step by step through MIGRATIONS, and values that don't
+// check out are dropped individually so one bad field doesn't lose the rest.
+
+export const SETTINGS_VERSION = 1;
+
+export interface UserSettings {
+  theme: 'dark' | 'light';
+  technique: TechniqueId;
+  spawnRate: number;
+  speedMode: SpeedMode;
+  sidebarCollapsed: boolean;
+  reducedMotion: boolean | null; // Null follows the system's prefers-reduced-motion setting
+  customSpeedModes: SpeedModeDefinition[];
+  presets: ControlPreset[];
+}
+
+const STORAGE_KEY = 'limitless.settings';
+
+type StoredSettings = Record<string, unknown>;
+
+// Each entry upgrades settings stored by version n to version n + 1. Add one (and bump
+// SETTINGS_VERSION) whenever a stored field is renamed, reshaped or removed.
+const MIGRATIONS: Record<number, (settings: StoredSettings) => StoredSettings> = {};
+
+/**
+ * Upgrades stored settings to the current version. Returns null for settings written by a
+ * newer version of the app or with no migration path.
+ */
+export const migrateSettings = (data: unknown): StoredSettings | null => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  let settings = data as StoredSettings;
+  let version = settings.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version > SETTINGS_VERSION) return null;
+
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    settings = migrate(settings);
+    version++;
+  }
+  return settings;
+};
+
+// Keeps the values that are valid
+const readSettings = (stored: StoredSettings): Partial<UserSettings> => {
+  const settings: Partial<UserSettings> = {};
+
+  if (stored.theme === 'dark' || stored.theme === 'light') settings.theme = stored.theme;
+  if (typeof stored.technique === 'string' && getTechnique(stored.technique)) settings.technique = stored.technique;
+  if (Number.isInteger(stored.spawnRate) && (stored.spawnRate as number) >= SPAWN_RATE_RANGE.min && (stored.spawnRate as number) <= SPAWN_RATE_RANGE.max) {
+    settings.spawnRate = stored.spawnRate as number;
+  }
+  if (typeof stored.sidebarCollapsed === 'boolean') settings.sidebarCollapsed = stored.sidebarCollapsed;
+  if (typeof stored.reducedMotion === 'boolean') settings.reducedMotion = stored.reducedMotion;
+  else if (stored.reducedMotion === null) settings.reducedMotion = null;
+
+  const customSpeedModes = Array.isArray(stored.customSpeedModes)
+    ? stored.customSpeedModes.filter(isSpeedModeDefinition).filter(mode => !isBuiltinSpeedMode(mode.id))
+    : [];
+  settings.customSpeedModes = customSpeedModes;
+  if (typeof stored.speedMode === 'string' && (isBuiltinSpeedMode(stored.speedMode) || customSpeedModes.some(mode => mode.id === stored.speedMode))) {
+    settings.speedMode = stored.speedMode;
+  }
+
+  settings.presets = Array.isArray(stored.presets) ? stored.presets.filter(isControlPreset) : [];
+  return settings;
+};
+
+export const loadSettings = (): Partial<UserSettings> => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const stored = migrateSettings(JSON.parse(raw));
+    return stored ? readSettings(stored) : {};
+  } catch {
+    // Corrupt data or storage unavailable (private mode)
+    return {};
+  }
+};
+
+export const saveSettings = (settings: UserSettings) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...settings }));
+  } catch {
+    // Storage full or unavailable; settings only last for this session
+  }
+};
@@ -0,0 +1,57 @@
+// Keyboard shortcuts for the main controls. Keys are matched on `event.key`, so they follow
+// the keyboard layout; they are ignored while typing in a field or with a modifier held.
+
+export type ShortcutAction =
+  | { type: 'technique'; index: number } // Position in the technique list
+  | { type: 'spawnRate'; step: 1 | -1 }
+  | { type: 'speedMode' } // Cycles through the built-in and custom modes
+  | { type: 'theme' }
+  | { type: 'sidebar' }
+  | { type: 'reducedMotion' }
+  | { type: 'describe' }; // Reads out the scene, counts included
+
+// Shown in the sidebar's shortcut list
+export const SHORTCUTS: { keys: string; label: string }[] = [
+  { keys: '1–9', label: 'Select technique' },
+  { keys: '− / +', label: 'Attack rate' },
+  { keys: 'S', label: 'Next speed mode' },
+  { keys: 'T', label: 'Switch theme' },
+  { keys: 'B', label: 'Show or hide the sidebar' },
+  { keys: 'M', label: 'Reduce motion' },
+  { keys: 'D', label: 'Describe the scene' }
+];
+
+// Inputs where these keys mean something else
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'file', 'color'];
+
+const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type);
+};
+
+export const getShortcutAction = (event: KeyboardEvent): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return null;
+  if (/^[1-9]$/.test(event.key)) return { type: 'technique', index: Number(event.key) - 1 };
+
+  switch (event.key.toLowerCase()) {
+    case '-':
+    case '_':
+      return { type: 'spawnRate', step: -1 };
+    case '=':
+    case '+':
+      return { type: 'spawnRate', step: 1 };
+    case 's':
+      return { type: 'speedMode' };
+    case 't':
+      return { type: 'theme' };
+    case 'b':
+      return { type: 'sidebar' };
+    case 'm':
+      return { type: 'reducedMotion' };
+    case 'd':
+      return { type: 'describe' };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,79 @@
+import { SpeedMode } from '../types';
+
+// Object speed modes: the range projectile launch speeds are drawn from. Slow, normal and
+// fast are built in; users can add their own, which are referred to by a generated id.
+
+export interface SpeedModeDefinition {
+  id: SpeedMode;
+  label: string;
+  min: number; // Units per second
+  max: number;
+}
+
+export const BUILTIN_SPEED_MODES: SpeedModeDefinition[] = [
+  { id: 'slow', label: 'Slow', min: 2, max: 5 },
+  { id: 'normal', label: 'Normal', min: 8, max: 15 },
+  { id: 'fast', label: 'Fast', min: 25, max: 45 }
+];
+
+export const DEFAULT_SPEED_MODE: SpeedMode = 'normal';
+export const SPEED_RANGE = { min: 0.5, max: 80 }; // Limits for custom modes
+export const MAX_CUSTOM_SPEED_MODES = 6;
+
+export const isBuiltinSpeedMode = (id: SpeedMode) => BUILTIN_SPEED_MODES.some(mode => mode.id === id);
+
+/**
+ * Looks a mode up among the built-in and custom ones, falling back to normal speed.
+ */
+export const resolveSpeedMode = (id: SpeedMode, custom: SpeedModeDefinition[]): SpeedModeDefinition =>
+  BUILTIN_SPEED_MODES.find(mode => mode.id === id)
+    ?? custom.find(mode => mode.id === id)
+    ?? BUILTIN_SPEED_MODES.find(mode => mode.id === DEFAULT_SPEED_MODE)!;
+
+/**
+ * Checks a custom mode, returning why it is invalid or null when it is fine.
+ */
+export const validateSpeedMode = (mode: Pick<SpeedModeDefinition, 'label' | 'min' | 'max'>): string | null => {
+  if (mode.label.trim() === '') return 'Speed mode needs a name';
+  if (!Number.isFinite(mode.min) || !Number.isFinite(mode.max)) return 'Speeds must be numbers';
+  if (mode.min < SPEED_RANGE.min || mode.max > SPEED_RANGE.max) return `Speeds must be from ${SPEED_RANGE.min} to ${SPEED_RANGE.max}`;
+  if (mode.min > mode.max) return 'Minimum speed is above the maximum';
+  return null;
+};
+
+export const isSpeedModeDefinition = (value: unknown): value is SpeedModeDefinition => {
+  if (!value || typeof value !== 'object') return false;
+  const mode = value as Record<string, unknown>;
+  return typeof mode.id === 'string' && mode.id !== ''
+    && typeof mode.label === 'string'
+    && typeof mode.min === 'number'
+    && typeof mode.max === 'number'
+    && validateSpeedMode(mode as unknown as SpeedModeDefinition) === null;
+};
+
+// Custom ids never collide with the built-in ones
+export const createSpeedModeId = (custom: SpeedModeDefinition[]): SpeedMode => {
+  let n = custom.length + 1;
+  while (custom.some(mode => mode.id === `custom-${n}`)) n++;
+  return `custom-${n}`;
+};
+
+/**
+ * Adds or replaces (by id) a custom mode.
+ */
+export const upsertSpeedMode = (custom: SpeedModeDefinition[], mode: SpeedModeDefinition): SpeedModeDefinition[] => {
+  const index = custom.findIndex(m => m.id === mode.id);
+  if (index === -1) return [...custom, mode];
+  return custom.map((m, i) => (i === index ? mode : m));
+};
+
+/**
+ * Makes a mode from elsewhere (e.g. an imported preset) available, reusing a built-in or
+ * custom mode with the same range. Returns the updated custom modes and the id to select.
+ */
+export const adoptSpeedMode = (custom: SpeedModeDefinition[], mode: SpeedModeDefinition): { custom: SpeedModeDefinition[]; id: SpeedMode } => {
+  const existing = [...BUILTIN_SPEED_MODES, ...custom].find(m => m.min === mode.min && m.max === mode.max);
+  if (existing) return { custom, id: existing.id };
+  const id = createSpeedModeId(custom);
+  return { custom: [...custom, { ...mode, id }], id };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import '../techniques';
+import { TechniqueType } from '../types';
+import { ViewState, parseViewState, serializeViewState } from './urlState';
+
+const view: ViewState = {
+  technique: TechniqueType.RED,
+  theme: 'light',
+  spawnRate: 6,
+  pattern: 'spiral',
+  speedMode: 'fast',
+  sidebarCollapsed: true,
+  seed: 123456,
+  camera: [1.25, -2, 14]
+};
+
+describe('URL state', () => {
+  it('parses what it serializes', () => {
+    const search = serializeViewState(view);
+    expect(search).toContain('technique=red');
+    expect(parseViewState(search)).toEqual({ state: view, warnings: [] });
+  });
+
+  it('rounds the camera position to two decimals', () => {
+    const { state } = parseViewState(serializeViewState({ ...view, camera: [1.23456, 0, 9.999] }));
+    expect(state.camera).toEqual([1.23, 0, 10]);
+  });
+
+  it('matches technique slugs in any case', () => {
+    expect(parseViewState('?technique=BLUE').state.technique).toBe(TechniqueType.BLUE);
+  });
+
+  it('leaves out and reports values it cannot use, keeping the rest', () => {
+    const { state, warnings } = parseViewState('?technique=green&theme=light&rate=9&pattern=nope&speed=warp&sidebar=half&seed=-1&cam=1,2');
+    expect(state).toEqual({ theme: 'light' });
+    expect(warnings).toEqual([
+      'Unknown technique "green"',
+      'Attack rate must be a whole number from 1 to 8',
+      'Unknown attack pattern "nope"',
+      'Unknown object speed "warp"',
+      'Unknown sidebar state "half"',
+      'Invalid seed "-1"',
+      'Camera must be three comma-separated numbers'
+    ]);
+  });
+
+  it('turns away camera positions with missing or non-numeric parts', () => {
+    for (const cam of ['1,,3', ',2,3', '1,2,', '1,2,x', '1,2,Infinity', '1,2,3,4']) {
+      expect(parseViewState(`?cam=${cam}`)).toEqual({ state: {}, warnings: ['Camera must be three comma-separated numbers'] });
+    }
+    expect(parseViewState('?cam=-1.5,0,2e1').state.camera).toEqual([-1.5, 0, 20]);
+  });
+
+  it('accepts only the given speed modes', () => {
+    expect(parseViewState('?speed=custom-1', ['normal', 'custom-1']).state.speedMode).toBe('custom-1');
+    expect(parseViewState('?speed=custom-1').warnings).toEqual(['Unknown object speed "custom-1"']);
+  });
+});
@@ -0,0 +1,113 @@
+import { SpeedMode, TechniqueId } from '../types';
+import { getTechnique, getTechniqueBySlug } from '../techniques/registry';
+import { AttackPatternId, getAttackPattern } from '../simulation/patterns';
+import { BUILTIN_SPEED_MODES } from './speedModes';
+
+// Serializes the shareable view configuration into URL query parameters and back.
+// Unknown or malformed values fall back to defaults and are reported as warnings.
+
+export type Vec3Tuple = [number, number, number];
+
+export interface ViewState {
+  technique: TechniqueId;
+  theme: 'dark' | 'light';
+  spawnRate: number;
+  pattern: AttackPatternId;
+  speedMode: SpeedMode;
+  sidebarCollapsed: boolean;
+  seed: number;
+  camera: Vec3Tuple;
+}
+
+export interface ParsedViewState {
+  state: Partial<ViewState>;
+  warnings: string[];
+}
+
+export const DEFAULT_CAMERA: Vec3Tuple = [0, 0, 14];
+export const SPAWN_RATE_RANGE = { min: 1, max: 8 };
+
+const parseInteger = (value: string) => (/^\d+$/.test(value) ? parseInt(value, 10) : NaN);
+
+// `speedModes` lists the ids a link may use; custom modes only exist in this browser
+export const parseViewState = (search: string, speedModes: SpeedMode[] = BUILTIN_SPEED_MODES.map(mode => mode.id)): ParsedViewState => {
+  const params = new URLSearchParams(search);
+  const state: Partial<ViewState> = {};
+  const warnings: string[] = [];
+
+  const technique = params.get('technique');
+  if (technique !== null) {
+    const definition = getTechniqueBySlug(technique.toLowerCase());
+    if (definition) state.technique = definition.id;
+    else warnings.push(`Unknown technique "${technique}"`);
+  }
+
+  const theme = params.get('theme');
+  if (theme !== null) {
+    if (theme === 'dark' || theme === 'light') state.theme = theme;
+    else warnings.push(`Unknown theme "${theme}"`);
+  }
+
+  const rate = params.get('rate');
+  if (rate !== null) {
+    const value = parseInteger(rate);
+    if (value >= SPAWN_RATE_RANGE.min && value <= SPAWN_RATE_RANGE.max) state.spawnRate = value;
+    else warnings.push(`Attack rate must be a whole number from ${SPAWN_RATE_RANGE.min} to ${SPAWN_RATE_RANGE.max}`);
+  }
+
+  const pattern = params.get('pattern');
+  if (pattern !== null) {
+    if (getAttackPattern(pattern)) state.pattern = pattern;
+    else warnings.push(`Unknown attack pattern "${pattern}"`);
+  }
+
+  const speed = params.get('speed');
+  if (speed !== null) {
+    if (speedModes.includes(speed)) state.speedMode = speed;
+    else warnings.push(`Unknown object speed "${speed}"`);
+  }
+
+  const sidebar = params.get('sidebar');
+  if (sidebar !== null) {
+    if (sidebar === 'open' || sidebar === 'collapsed') state.sidebarCollapsed = sidebar === 'collapsed';
+    else warnings.push(`Unknown sidebar state "${sidebar}"`);
+  }
+
+  const seed = params.get('seed');
+  if (seed !== null) {
+    const value = parseInteger(seed);
+    if (value <= 0xffffffff) state.seed = value;
+    else warnings.push(`Invalid seed "${seed}"`);
+  }
+
+  const camera = params.get('cam');
+  if (camera !== null) {
+    // Number('') is 0, so empty parts are turned away before converting
+    const parts = camera.split(',').map(part => (part.trim() === '' ? NaN : Number(part)));
+    if (parts.length === 3 && parts.every(Number.isFinite)) state.camera = parts as Vec3Tuple;
+    else warnings.push('Camera must be three comma-separated numbers');
+  }
+
+  return { state, warnings };
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export const serializeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams({
+    technique: getTechnique(state.technique)?.slug ?? '',
+    theme: state.theme,
+    rate: String(state.spawnRate),
+    pattern: state.pattern,
+    speed: state.speedMode,
+    sidebar: state.sidebarCollapsed ? 'collapsed' : 'open',
+    seed: String(state.seed),
+    cam: state.camera.map(formatNumber).join(',')
+  });
+  return `?${params.toString()}`;
+};
+
+export const buildShareUrl = (state: ViewState): string => {
+  const { origin, pathname, hash } = window.location;
+  return `${origin}${pathname}${serializeViewState(state)}${hash}`;
+};
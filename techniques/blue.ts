@@ -0,0 +1,33 @@
+import { TechniqueType } from '../types';
+import { bluePhysics } from './physics/blue';
+import { TechniqueDefinition } from './registry';
+import { spiralPath } from './cameraPaths';
+import { rushSound } from '../audio/voices';
+
+export const blue: TechniqueDefinition = {
+  ...bluePhysics,
+  slug: 'blue',
+  name: TechniqueType.BLUE,
+  label: 'Blue',
+  subtitle: 'Lapse',
+  classes: {
+    color: 'bg-sky-500',
+    border: 'border-sky-500',
+    text: 'text-sky-500'
+  },
+  details: {
+    concept: "Negative Distance",
+    space: "Amplifies Limitless numbers to create 'negative distance'. The universe implodes to fill the vacuum.",
+    speed: "Creates a powerful attractive force. Matter is pulled violently towards the center.",
+    implication: "High-speed movement or crushing enemies by imploding space."
+  },
+  barrier: {
+    color: { dark: '#0ea5e9', light: '#0ea5e9' },
+    scale: 1.5
+  },
+  lightColor: '#0000ff',
+  // Drawn in along with the projectiles
+  cameraPath: spiralPath({ radius: 18, height: 4 }, { radius: 7, height: 1 }, 0.5, 16),
+  sound: rushSound(),
+  energyCost: 10
+};
@@ -0,0 +1,71 @@
+import { Vec3 } from '../simulation/forces';
+import { CameraPath, CameraPose } from './registry';
+
+// Building blocks for technique camera paths. Every path looks at the core unless a
+// target is given.
+
+const ORIGIN: Vec3 = { x: 0, y: 0, z: 0 };
+
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+export const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+const lerpVec3 = (a: Vec3, b: Vec3, t: number): Vec3 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t
+});
+
+/**
+ * Circles the core once per `duration`, starting in front of it and bobbing gently.
+ */
+export const orbitPath = (radius: number, height: number, duration: number): CameraPath => ({
+  duration,
+  loop: true,
+  at: (t) => {
+    const angle = (t / duration) * Math.PI * 2;
+    return {
+      position: { x: Math.sin(angle) * radius, y: height + Math.sin(angle * 2) * 0.5, z: Math.cos(angle) * radius },
+      target: ORIGIN
+    };
+  }
+});
+
+/**
+ * Eases from one pose to another, then holds the final pose.
+ */
+export const dollyPath = (from: CameraPose, to: CameraPose, duration: number): CameraPath => ({
+  duration,
+  loop: false,
+  at: (t) => {
+    const k = easeInOut(clamp01(t / duration));
+    return { position: lerpVec3(from.position, to.position, k), target: lerpVec3(from.target, to.target, k) };
+  }
+});
+
+/**
+ * Turns around the core while easing between two radii and heights, then holds.
+ */
+export const spiralPath = (
+  from: { radius: number; height: number },
+  to: { radius: number; height: number },
+  turns: number,
+  duration: number
+): CameraPath => ({
+  duration,
+  loop: false,
+  at: (t) => {
+    const k = easeInOut(clamp01(t / duration));
+    const angle = k * turns * Math.PI * 2;
+    const radius = from.radius + (to.radius - from.radius) * k;
+    return {
+      position: { x: Math.sin(angle) * radius, y: from.height + (to.height - from.height) * k, z: Math.cos(angle) * radius },
+      target: ORIGIN
+    };
+  }
+});
+
+export const DEFAULT_CAMERA_PATH = orbitPath(14, 2, 40);
+
+export const resolveCameraPath = (definition: { cameraPath?: CameraPath }): CameraPath =>
+  definition.cameraPath ?? DEFAULT_CAMERA_PATH;
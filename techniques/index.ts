@@ -0,0 +1,13 @@
+import { registerTechnique } from './registry';
+import { neutral } from './neutral';
+import { blue } from './blue';
+import { red } from './red';
+import { purple } from './purple';
+import { unlimitedVoid } from './unlimitedVoid';
+
+// Built-in techniques, in sidebar order. Importing this module registers them.
+[neutral, blue, red, purple, unlimitedVoid].forEach(registerTechnique);
+
+export * from './registry';
+export * from './cameraPaths';
+export { useTechniques } from './useTechniques';
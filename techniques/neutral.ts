@@ -0,0 +1,33 @@
+import { TechniqueType } from '../types';
+import { neutralPhysics } from './physics/neutral';
+import { TechniqueDefinition } from './registry';
+import { orbitPath } from './cameraPaths';
+import { humSound } from '../audio/voices';
+
+export const neutral: TechniqueDefinition = {
+  ...neutralPhysics,
+  slug: 'neutral',
+  name: TechniqueType.NEUTRAL,
+  label: 'Infinity',
+  subtitle: 'Neutral',
+  classes: {
+    color: 'bg-white',
+    border: 'border-white',
+    text: 'text-white'
+  },
+  details: {
+    concept: "Infinite Series",
+    space: "Divides the space between Gojo and any approaching object infinitely. It brings the paradox of 'Achilles and the Tortoise' into reality.",
+    speed: "As an object approaches, its relative speed drops exponentially, appearing to stop completely.",
+    implication: "Untouchable. An infinite distance contained within a finite space."
+  },
+  barrier: {
+    color: { dark: '#ffffff', light: '#334155' },
+    scale: (params) => params.stoppingRadius + 0.15
+  },
+  lightColor: '#0000ff',
+  cameraPath: orbitPath(9, 1.5, 36),
+  // Sinks in pitch as projectiles slow against the barrier
+  sound: humSound(),
+  energyCost: 6
+};
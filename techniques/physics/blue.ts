@@ -0,0 +1,33 @@
+import { TechniqueType } from '../../types';
+import { BLUE_ATTRACTION_RADIUS, BLUE_CORE_RADIUS, blueForce } from '../../simulation/forces';
+import { TechniquePhysics } from '../registry';
+
+const TRAP_RADIUS = 2.5;
+
+export const bluePhysics: TechniquePhysics = {
+  id: TechniqueType.BLUE,
+  trapRadius: TRAP_RADIUS,
+  params: [
+    { key: 'pullStrength', label: 'Pull Strength', default: 20, min: 0, max: 80, step: 1 },
+    { key: 'shrinkThreshold', label: 'Shrink Threshold', default: 8, min: 0, max: 40, step: 1 }
+  ],
+  force: blueForce,
+  math: {
+    formula: 'a = −pull / m inside r_attract; v ×0.85 per step within r_core + 1',
+    unit: 'u/s² (outward)',
+    range: () => BLUE_ATTRACTION_RADIUS * 1.15,
+    curves: [
+      {
+        label: 'Pull',
+        color: '#38bdf8',
+        value: (dist, params) => (dist < BLUE_ATTRACTION_RADIUS && dist > 0.1 ? -params.pullStrength : 0)
+      }
+    ],
+    rings: () => [
+      { radius: BLUE_CORE_RADIUS, label: 'Core' },
+      { radius: TRAP_RADIUS, label: 'Trap' },
+      { radius: BLUE_CORE_RADIUS + 1, label: 'Damping' },
+      { radius: BLUE_ATTRACTION_RADIUS, label: 'Attraction' }
+    ]
+  }
+};
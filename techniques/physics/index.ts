@@ -0,0 +1,18 @@
+import { TechniqueId } from '../../types';
+import { registerTechniquePhysics } from '../registry';
+import { neutralPhysics } from './neutral';
+import { bluePhysics } from './blue';
+import { redPhysics } from './red';
+import { purplePhysics } from './purple';
+import { unlimitedVoidPhysics } from './unlimitedVoid';
+
+// Physics of the built-in techniques. The simulation worker imports this instead of
+// techniques/index.ts, which would pull React, three and drei into its bundle.
+const BUILTIN_PHYSICS = [neutralPhysics, bluePhysics, redPhysics, purplePhysics, unlimitedVoidPhysics];
+BUILTIN_PHYSICS.forEach(registerTechniquePhysics);
+
+// Techniques the worker can simulate. Any other registered technique keeps the
+// simulation on the main thread (see createSimulationClient)
+export const WORKER_TECHNIQUES: ReadonlySet<TechniqueId> = new Set(BUILTIN_PHYSICS.map(physics => physics.id));
+
+export { neutralPhysics, bluePhysics, redPhysics, purplePhysics, unlimitedVoidPhysics };
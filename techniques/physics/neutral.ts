@@ -0,0 +1,29 @@
+import { TechniqueType } from '../../types';
+import { neutralForce, neutralRatio, neutralSpeedFactor } from '../../simulation/forces';
+import { TechniquePhysics } from '../registry';
+
+export const neutralPhysics: TechniquePhysics = {
+  id: TechniqueType.NEUTRAL,
+  params: [
+    { key: 'interactionRadius', label: 'Interaction Radius', default: 3.5, min: 2, max: 8, step: 0.05 },
+    { key: 'stoppingRadius', label: 'Stopping Radius', default: 1.35, min: 0.5, max: 1.9, step: 0.05 }
+  ],
+  force: neutralForce,
+  math: {
+    formula: 'v′ = v · max(10⁻⁴, ((d − r_stop) / (r_int − r_stop))³)',
+    unit: '× speed',
+    range: (params) => params.interactionRadius * 1.5,
+    curves: [
+      {
+        label: 'Speed Multiplier',
+        color: '#e2e8f0',
+        value: (dist, params) => (dist >= params.interactionRadius ? 1 : neutralSpeedFactor(neutralRatio(dist, params)))
+      }
+    ],
+    rings: (params) => [
+      { radius: params.stoppingRadius, label: 'Stop' },
+      { radius: params.stoppingRadius + 0.3 * (params.interactionRadius - params.stoppingRadius), label: 'Jitter' },
+      { radius: params.interactionRadius, label: 'Interaction' }
+    ]
+  }
+};
@@ -0,0 +1,24 @@
+import { TechniqueType } from '../../types';
+import { PURPLE_ERASE_RADIUS, PURPLE_SHRINK_RADIUS, purpleForce, purpleSpeed } from '../../simulation/forces';
+import { TechniquePhysics } from '../registry';
+
+export const purplePhysics: TechniquePhysics = {
+  id: TechniqueType.PURPLE,
+  erases: true,
+  params: [
+    { key: 'curveRatio', label: 'Curve Ratio', default: 0.25, min: 0, max: 0.9, step: 0.01 }
+  ],
+  force: purpleForce,
+  math: {
+    formula: 'v = 15 + 2 · max(1, 15 − d), curving (1 − c) inward + c around',
+    unit: 'u/s',
+    range: () => 16,
+    curves: [
+      { label: 'Speed', color: '#c084fc', value: (dist) => purpleSpeed(dist) }
+    ],
+    rings: () => [
+      { radius: PURPLE_ERASE_RADIUS, label: 'Erase' },
+      { radius: PURPLE_SHRINK_RADIUS, label: 'Shrink' }
+    ]
+  }
+};
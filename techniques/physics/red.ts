@@ -0,0 +1,35 @@
+import { TechniqueType } from '../../types';
+import { RED_REFLECTION_GAIN, redForce, redIntensity } from '../../simulation/forces';
+import { TechniquePhysics } from '../registry';
+
+export const redPhysics: TechniquePhysics = {
+  id: TechniqueType.RED,
+  params: [
+    { key: 'repulsionRadius', label: 'Repulsion Radius', default: 4.5, min: 2, max: 10, step: 0.1 },
+    { key: 'coreRadius', label: 'Core Radius', default: 1.5, min: 0.5, max: 3, step: 0.05 },
+    { key: 'staticForce', label: 'Static Force', default: 80, min: 0, max: 300, step: 5 }
+  ],
+  force: redForce,
+  math: {
+    formula: 'a = (F · i + v_in · (1 + 40 · i)) / m,  i = (1 − (d − r_core) / (r_rep − r_core))³',
+    unit: 'u/s² (outward)',
+    range: (params) => params.repulsionRadius * 1.3,
+    curves: [
+      {
+        label: 'Static Force',
+        color: '#ef4444',
+        value: (dist, params) => (dist < params.repulsionRadius ? params.staticForce * redIntensity(dist, params) : 0)
+      },
+      {
+        label: 'Reflection at 10 u/s',
+        color: '#fca5a5',
+        value: (dist, params) => (dist < params.repulsionRadius ? 10 * (1 + RED_REFLECTION_GAIN * redIntensity(dist, params)) : 0)
+      }
+    ],
+    rings: (params) => [
+      { radius: params.coreRadius, label: 'Core' },
+      { radius: params.coreRadius + 0.2, label: 'Shell' },
+      { radius: params.repulsionRadius, label: 'Repulsion' }
+    ]
+  }
+};
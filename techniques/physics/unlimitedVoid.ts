@@ -0,0 +1,23 @@
+import { TechniqueType } from '../../types';
+import { voidForce } from '../../simulation/forces';
+import { TechniquePhysics } from '../registry';
+
+export const unlimitedVoidPhysics: TechniquePhysics = {
+  id: TechniqueType.VOID,
+  params: [
+    { key: 'domainRadius', label: 'Domain Radius', default: 40, min: 5, max: 60, step: 1 },
+    { key: 'expandDuration', label: 'Expand Duration', default: 1.5, min: 0.2, max: 5, step: 0.1 }
+  ],
+  force: voidForce,
+  math: {
+    formula: 'v′ = 0 inside R(t) = R · (1 − (1 − t / T)³), velocity kept',
+    unit: '× speed',
+    range: (params) => params.domainRadius * 1.2,
+    curves: [
+      { label: 'Speed Multiplier', color: '#a5b4fc', value: (dist, params) => (dist < params.domainRadius ? 0 : 1) }
+    ],
+    rings: (params) => [
+      { radius: params.domainRadius, label: 'Domain' }
+    ]
+  }
+};
@@ -0,0 +1,152 @@
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard } from '@react-three/drei';
+import * as THREE from 'three';
+import { TechniqueType } from '../types';
+import { purplePhysics } from './physics/purple';
+import { TechniqueDefinition, TechniqueEntranceProps, TechniqueVisualProps } from './registry';
+import { dollyPath } from './cameraPaths';
+import { crescendoSound } from '../audio/voices';
+
+// --- SPECIALIZED VISUALS FOR HOLLOW PURPLE ---
+const PurpleVortex = ({ theme, motion }: TechniqueVisualProps) => {
+  const particlesRef = useRef<THREE.Points>(null);
+
+  const particleGeo = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    const count = 300;
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const radius = 2.0 + Math.random() * 3;
+      positions[i * 3] = Math.cos(angle) * radius;
+      positions[i * 3 + 1] = (Math.random() - 0.5) * 1.0;
+      positions[i * 3 + 2] = Math.sin(angle) * radius;
+    }
+    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    return geo;
+  }, []);
+
+  useFrame((_, delta) => {
+    if (particlesRef.current) {
+      particlesRef.current.rotation.y += delta * 2.0 * motion;
+    }
+  });
+
+  return (
+    <points ref={particlesRef} geometry={particleGeo}>
+      <pointsMaterial color={theme === 'dark' ? "#d8b4fe" : "#7e22ce"} size={0.08} transparent opacity={0.6} sizeAttenuation={true} />
+    </points>
+  );
+};
+
+// --- BLUE + RED FUSION, PLAYED WHEN SWITCHING IN FROM EITHER ---
+const FUSION_DURATION = 1.6;
+const FUSION_RADIUS = 4; // Where the two orbs start
+const MERGE_AT = 0.6; // Share of the effect spent spiralling in
+
+const FusionEffect = ({ theme, duration }: TechniqueEntranceProps) => {
+  const blueRef = useRef<THREE.Mesh>(null);
+  const redRef = useRef<THREE.Mesh>(null);
+  const flashRef = useRef<THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>>(null);
+  const waveRef = useRef<THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>>(null);
+  const startTime = useRef<number | null>(null);
+  // Additive glow washes out on the light background
+  const blending = theme === 'dark' ? THREE.AdditiveBlending : THREE.NormalBlending;
+
+  useFrame((state) => {
+    const now = state.clock.elapsedTime;
+    if (startTime.current === null) startTime.current = now;
+    const t = Math.min(1, (now - startTime.current) / duration);
+
+    // Blue and Red spiral into each other, speeding up as they close in
+    const approach = Math.min(1, t / MERGE_AT);
+    const radius = FUSION_RADIUS * (1 - approach * approach);
+    const angle = approach * Math.PI * 3;
+    const orbScale = 0.25 + approach * 0.2;
+    for (const [ref, side] of [[blueRef, 1], [redRef, -1]] as const) {
+      const orb = ref.current;
+      if (!orb) continue;
+      orb.visible = t < MERGE_AT;
+      orb.position.set(Math.cos(angle) * radius * side, Math.sin(angle) * radius * 0.3 * side, Math.sin(angle) * radius * side);
+      orb.scale.setScalar(orbScale);
+    }
+
+    // They collide: a flash and a shockwave that clear the stage for the vortex
+    const burst = t < MERGE_AT ? 0 : (t - MERGE_AT) / (1 - MERGE_AT);
+    const flash = flashRef.current;
+    if (flash) {
+      flash.visible = burst > 0;
+      flash.scale.setScalar(0.5 + burst * 2.5);
+      flash.material.opacity = (1 - burst) * (1 - burst);
+    }
+    const wave = waveRef.current;
+    if (wave) {
+      wave.visible = burst > 0;
+      wave.scale.setScalar(1 + burst * 8);
+      wave.material.opacity = 0.8 * (1 - burst);
+    }
+  });
+
+  return (
+    <group>
+      <mesh ref={blueRef}>
+        <sphereGeometry args={[1, 24, 24]} />
+        <meshBasicMaterial color="#0ea5e9" transparent opacity={0.9} blending={blending} toneMapped={false} />
+      </mesh>
+      <mesh ref={redRef}>
+        <sphereGeometry args={[1, 24, 24]} />
+        <meshBasicMaterial color="#ef4444" transparent opacity={0.9} blending={blending} toneMapped={false} />
+      </mesh>
+      <mesh ref={flashRef} visible={false}>
+        <sphereGeometry args={[1, 32, 32]} />
+        <meshBasicMaterial color={theme === 'dark' ? '#f5d0fe' : '#a855f7'} transparent blending={blending} depthWrite={false} toneMapped={false} />
+      </mesh>
+      <Billboard>
+        <mesh ref={waveRef} visible={false}>
+          <ringGeometry args={[0.9, 1, 64]} />
+          <meshBasicMaterial color="#a855f7" transparent blending={blending} depthWrite={false} side={THREE.DoubleSide} toneMapped={false} />
+        </mesh>
+      </Billboard>
+    </group>
+  );
+};
+
+export const purple: TechniqueDefinition = {
+  ...purplePhysics,
+  slug: 'purple',
+  name: TechniqueType.PURPLE,
+  label: 'Purple',
+  subtitle: 'Hollow',
+  classes: {
+    color: 'bg-purple-500',
+    border: 'border-purple-500',
+    text: 'text-purple-500'
+  },
+  details: {
+    concept: "Imaginary Mass",
+    space: "Combines Blue's attraction and Red's repulsion. Creates imaginary mass that defies physics.",
+    speed: "Moves instantaneously, erasing everything in its path at the atomic level.",
+    implication: "The ultimate technique. It removes existence from reality."
+  },
+  barrier: {
+    color: { dark: '#a855f7', light: '#a855f7' },
+    scale: 1.5
+  },
+  lightColor: '#0000ff',
+  // Slow dolly in towards the vortex
+  cameraPath: dollyPath(
+    { position: { x: 3, y: 1, z: 20 }, target: { x: 0, y: 0, z: 0 } },
+    { position: { x: 0, y: 0.5, z: 6 }, target: { x: 0, y: 0, z: 0 } },
+    15
+  ),
+  // Builds with every erasure, fired shots included
+  sound: crescendoSound(),
+  energyCost: 20,
+  Visuals: PurpleVortex,
+  entrance: {
+    from: [TechniqueType.BLUE, TechniqueType.RED],
+    duration: FUSION_DURATION,
+    Effect: FusionEffect
+  }
+};
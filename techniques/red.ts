@@ -0,0 +1,38 @@
+import { TechniqueType } from '../types';
+import { redPhysics } from './physics/red';
+import { TechniqueDefinition } from './registry';
+import { dollyPath } from './cameraPaths';
+import { thumpSound } from '../audio/voices';
+
+export const red: TechniqueDefinition = {
+  ...redPhysics,
+  slug: 'red',
+  name: TechniqueType.RED,
+  label: 'Red',
+  subtitle: 'Reversal',
+  classes: {
+    color: 'bg-red-500',
+    border: 'border-red-500',
+    text: 'text-red-500'
+  },
+  details: {
+    concept: "Positive Distance",
+    space: "Flows positive energy into Limitless, inverting Blue to create a divergence of space.",
+    speed: "Generates a violent repulsive force. Blasts everything away with immense power.",
+    implication: "Destructive shockwave that repels all matter instantly."
+  },
+  barrier: {
+    color: { dark: '#ef4444', light: '#ef4444' },
+    scale: (params) => params.coreRadius + 0.3
+  },
+  lightColor: '#ff0000',
+  // Starts on the core and is pushed back with the shockwave
+  cameraPath: dollyPath(
+    { position: { x: 1, y: 0.5, z: 5 }, target: { x: 0, y: 0, z: 0 } },
+    { position: { x: 4, y: 2, z: 18 }, target: { x: 0, y: 0, z: 0 } },
+    8
+  ),
+  // A shockwave for every projectile sent back
+  sound: thumpSound(),
+  energyCost: 12
+};
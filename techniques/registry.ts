@@ -0,0 +1,182 @@
+import type { ComponentType } from 'react';
+import { TechniqueId } from '../types';
+import { TechniqueForce, TechniqueParams, Vec3 } from '../simulation/forces';
+import type { TechniqueSound } from '../audio/voices';
+
+// Central registry of techniques. Everything the UI, the scene and the simulation
+// need to know about a technique lives in its definition, so adding one is a single
+// registerTechnique() call. The simulation only reads the physics part, which is
+// also registered on its own (see techniques/physics) so the worker can load it
+// without React or three.
+
+export interface TechniqueVisualProps {
+  theme: 'dark' | 'light';
+  params: TechniqueParams;
+  active: boolean; // False while the technique is being switched away from
+  motion: number; // Scale for decorative motion: 1, or lower in reduced-motion mode
+}
+
+export interface TechniqueEntranceProps {
+  theme: 'dark' | 'light';
+  from: TechniqueDefinition; // Technique being switched away from
+  duration: number;
+}
+
+// A one-off effect played when switching to the technique from particular techniques
+export interface TechniqueEntrance {
+  from: TechniqueId[];
+  duration: number; // Seconds the effect stays mounted
+  Effect: ComponentType<TechniqueEntranceProps>;
+}
+
+// A tunable physics constant, exposed as a slider in the Advanced controls
+export interface TechniqueParamSpec {
+  key: string;
+  label: string;
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// A quantity the technique applies to projectiles, plotted against distance from the core
+export interface TechniqueCurve {
+  label: string;
+  color: string;
+  value: (dist: number, params: TechniqueParams) => number;
+}
+
+// A radius the technique's behaviour changes at, drawn as a ring in Math Mode
+export interface TechniqueRing {
+  radius: number;
+  label: string;
+}
+
+// What Math Mode shows for a technique
+export interface TechniqueMath {
+  formula: string;
+  unit: string; // Unit of the curve values
+  range: (params: TechniqueParams) => number; // Plotted distances run from 0 to this
+  curves: TechniqueCurve[]; // The first one is read out for a followed projectile
+  rings: (params: TechniqueParams) => TechniqueRing[];
+}
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3; // Point the camera looks at
+}
+
+// A scripted camera move for the cinematic view, playback and video export
+export interface CameraPath {
+  duration: number; // Seconds
+  loop: boolean; // Otherwise the final pose is held
+  at: (t: number) => CameraPose; // Pose `t` seconds in, with 0 <= t <= duration
+}
+
+// What the simulation needs from a technique. Kept free of React and three
+export interface TechniquePhysics {
+  id: TechniqueId;
+  trapRadius?: number; // Projectiles inside this radius are reported as trapped
+  erases?: boolean; // Destroyed projectiles vanish outright instead of breaking into fragments
+  params?: TechniqueParamSpec[];
+  force: TechniqueForce;
+  math?: TechniqueMath;
+}
+
+export interface TechniqueDefinition extends TechniquePhysics {
+  slug: string; // Short, URL-safe key
+  name: string; // Full name, shown as the label in the scene
+  label: string;
+  subtitle: string;
+  // Tailwind classes used by the sidebar
+  classes: {
+    color: string;
+    border: string;
+    text: string;
+  };
+  details: {
+    concept: string;
+    space: string;
+    speed: string;
+    implication: string;
+  };
+  barrier: {
+    color: { dark: string; light: string };
+    scale: number | ((params: TechniqueParams) => number); // May follow tuned radii
+  };
+  lightColor: string; // Color of the back point light
+  cameraPath?: CameraPath; // Defaults to a slow orbit
+  sound?: TechniqueSound; // Silent without one
+  energyCost?: number; // Cursed energy drained per second in game mode (see simulation/game.ts)
+  Visuals?: ComponentType<TechniqueVisualProps>; // Extra effects rendered around the barrier
+  visualsExitDuration?: number; // Seconds Visuals stay mounted (inactive) after switching away
+  entrance?: TechniqueEntrance;
+  // Overrides for the scene surroundings while the technique is active
+  environment?: {
+    particleColor: string;
+    particleOpacity: number;
+    textColor: string;
+  };
+}
+
+/**
+ * Fills in defaults for any parameter without a tuned value. Works for anything
+ * declaring param specs (techniques and attack patterns).
+ */
+export const resolveParams = (definition: { params?: TechniqueParamSpec[] }, overrides: TechniqueParams = {}): TechniqueParams => {
+  const params: TechniqueParams = {};
+  for (const spec of definition.params ?? []) {
+    params[spec.key] = overrides[spec.key] ?? spec.default;
+  }
+  return params;
+};
+
+export const resolveBarrierScale = (definition: TechniqueDefinition, params: TechniqueParams): number => {
+  const { scale } = definition.barrier;
+  return typeof scale === 'function' ? scale(params) : scale;
+};
+
+const physicsRegistry = new Map<TechniqueId, TechniquePhysics>();
+const registry = new Map<TechniqueId, TechniqueDefinition>();
+const listeners = new Set<() => void>();
+let snapshot: TechniqueDefinition[] = [];
+
+/**
+ * Adds a technique's physics only. Enough for the simulation engine; the worker
+ * registers techniques this way.
+ */
+export const registerTechniquePhysics = (physics: TechniquePhysics) => {
+  physicsRegistry.set(physics.id, physics);
+};
+
+export const getTechniquePhysics = (id: TechniqueId): TechniquePhysics | undefined => physicsRegistry.get(id);
+
+/**
+ * Adds a technique, physics included. Registering an id again replaces the earlier definition
+ * (keeps hot reloading working); reusing another technique's slug is an error.
+ */
+export const registerTechnique = (definition: TechniqueDefinition) => {
+  if (snapshot.some(t => t.slug === definition.slug && t.id !== definition.id)) {
+    throw new Error(`Technique slug "${definition.slug}" is already in use`);
+  }
+
+  registerTechniquePhysics(definition);
+  registry.set(definition.id, definition);
+  snapshot = [...registry.values()];
+  listeners.forEach(listener => listener());
+};
+
+export const getTechnique = (id: TechniqueId): TechniqueDefinition | undefined => registry.get(id);
+
+export const getTechniqueBySlug = (slug: string): TechniqueDefinition | undefined =>
+  snapshot.find(t => t.slug === slug);
+
+// Stable array, replaced on every registration (safe for useSyncExternalStore)
+export const getTechniques = (): TechniqueDefinition[] => snapshot;
+
+export const subscribeTechniques = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,121 @@
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TechniqueType } from '../types';
+import { domainRadiusAt } from '../simulation/forces';
+import { unlimitedVoidPhysics } from './physics/unlimitedVoid';
+import { TechniqueDefinition, TechniqueVisualProps } from './registry';
+import { dollyPath } from './cameraPaths';
+
+const COLLAPSE_DURATION = 0.8;
+
+// --- DOMAIN SPHERE FOR UNLIMITED VOID ---
+// An opaque, inward-facing sphere that grows until it swallows the camera and the
+// normal starfield, with its own void stars riding on the inside of the shell.
+const DomainSphere = ({ params, active }: TechniqueVisualProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const startTime = useRef<number | null>(null);
+  const collapse = useRef<{ start: number, radius: number } | null>(null);
+  const radius = useRef(0);
+
+  const starGeo = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    const count = 1500;
+    const positions = new Float32Array(count * 3);
+    const colors = new Float32Array(count * 3);
+    const color = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+      // Uniform point on a shell just inside the unit sphere
+      const u = Math.random() * 2 - 1;
+      const angle = Math.random() * Math.PI * 2;
+      const r = 0.6 + Math.random() * 0.35;
+      const s = Math.sqrt(1 - u * u);
+      positions[i * 3] = Math.cos(angle) * s * r;
+      positions[i * 3 + 1] = u * r;
+      positions[i * 3 + 2] = Math.sin(angle) * s * r;
+
+      color.setHSL(Math.random(), 0.8, 0.85);
+      colors[i * 3] = color.r;
+      colors[i * 3 + 1] = color.g;
+      colors[i * 3 + 2] = color.b;
+    }
+    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return geo;
+  }, []);
+
+  useFrame((state) => {
+    if (!groupRef.current) return;
+    const t = state.clock.elapsedTime;
+
+    if (active) {
+      // Restart the expansion (in step with the simulation) when re-entering mid-collapse
+      if (startTime.current === null || collapse.current !== null) startTime.current = t;
+      collapse.current = null;
+      radius.current = domainRadiusAt(t - startTime.current, params);
+    } else {
+      if (collapse.current === null) collapse.current = { start: t, radius: radius.current };
+      const progress = Math.min(1, (t - collapse.current.start) / COLLAPSE_DURATION);
+      radius.current = collapse.current.radius * (1 - progress * progress);
+    }
+
+    const r = Math.max(0.001, radius.current);
+    groupRef.current.scale.set(r, r, r);
+    groupRef.current.rotation.y = t * 0.02;
+  });
+
+  return (
+    <group ref={groupRef}>
+      <mesh>
+        <sphereGeometry args={[1, 48, 48]} />
+        <meshBasicMaterial color="#020108" side={THREE.BackSide} />
+      </mesh>
+      {/* Boundary glow, visible while the domain is still expanding towards the camera */}
+      <mesh>
+        <sphereGeometry args={[1, 48, 48]} />
+        <meshBasicMaterial color="#a5b4fc" transparent opacity={0.12} side={THREE.FrontSide} depthWrite={false} />
+      </mesh>
+      <points geometry={starGeo}>
+        <pointsMaterial vertexColors size={2} sizeAttenuation={false} transparent opacity={0.9} />
+      </points>
+    </group>
+  );
+};
+
+export const unlimitedVoid: TechniqueDefinition = {
+  ...unlimitedVoidPhysics,
+  slug: 'void',
+  name: TechniqueType.VOID,
+  label: 'Void',
+  subtitle: 'Domain',
+  classes: {
+    color: 'bg-indigo-400',
+    border: 'border-indigo-400',
+    text: 'text-indigo-400'
+  },
+  details: {
+    concept: "Domain Expansion",
+    space: "Gojo's innate domain. Everything inside is flooded with infinite information: to perceive and convey it forever, never able to act.",
+    speed: "The sure-hit effect is absolute. Every object within the domain freezes the moment the barrier reaches it.",
+    implication: "Total paralysis. Inside Unlimited Void, nothing can complete a single action."
+  },
+  barrier: {
+    color: { dark: '#e0e7ff', light: '#c7d2fe' },
+    scale: 1.5
+  },
+  lightColor: '#6366f1',
+  // Rises to look down on the frozen field
+  cameraPath: dollyPath(
+    { position: { x: 0, y: 0, z: 14 }, target: { x: 0, y: 0, z: 0 } },
+    { position: { x: 0, y: 22, z: 9 }, target: { x: 0, y: 0, z: 0 } },
+    12
+  ),
+  energyCost: 30, // Freezing the whole domain is the most draining
+  Visuals: DomainSphere,
+  visualsExitDuration: COLLAPSE_DURATION,
+  environment: {
+    particleColor: '#c7d2fe',
+    particleOpacity: 0.8,
+    textColor: '#e0e7ff'
+  }
+};
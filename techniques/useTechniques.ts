@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getTechniques, subscribeTechniques } from './registry';
+
+// Re-renders when a technique is registered after the first render (e.g. a lazy plugin)
+export const useTechniques = () => useSyncExternalStore(subscribeTechniques, getTechniques);
@@ -7,15 +7,31 @@ export enum TechniqueType {
   NEUTRAL = 'Infinity (Neutral)',
   BLUE = 'Cursed Technique Lapse: Blue',
   RED = 'Cursed Technique Reversal: Red',
-  PURPLE = 'Hollow Technique: Purple'
+  PURPLE = 'Hollow Technique: Purple',
+  VOID = 'Domain Expansion: Unlimited Void'
 }
 
+// Techniques are identified by the id of their registered definition.
+// Built-in ids are the TechniqueType values.
+export type TechniqueId = string;
+
+// 'slow', 'normal', 'fast' or the id of a custom mode (see state/speedModes)
+export type SpeedMode = string;
+
 export interface ParticleState {
   id: number;
   x: number;
   y: number;
   z: number;
-  speed: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  speed: number; // Actual distance covered per second in the last step
+  kind: string; // Projectile kind id, see simulation/projectileKinds
+  mass: number;
+  radius: number;
+  scale: number;
+  age: number;
   color: string;
   active: boolean;
 }
\ No newline at end of file